@@ -1,14 +1,28 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { BrainCircuit, Clock, ChevronRight, Play, RotateCcw, AlertTriangle, CheckCircle, User, BookOpen, ShieldCheck, ZapOff } from 'lucide-react';
+import { BrainCircuit, Clock, ChevronRight, Play, RotateCcw, AlertTriangle, CheckCircle, User, BookOpen, ShieldCheck, ZapOff, History, Eye, X, Download, Settings, FileText, Printer, Code2, XCircle, Users, PenLine, Pause } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
-import { engine } from './services/engine';
-import * as GeminiService from './services/gemini';
-import { InterviewState, ResumeData, JobDescriptionData, Question, Difficulty } from './types';
+import { TurnOverrideRequest, replay } from './services/engine';
+import { createInitialState, questionElapsedSeconds } from './services/interviewState';
+import { InterviewClient } from './services/apiClient';
+import { InterviewState, ResumeData, JobDescriptionData, Question, Difficulty, CodeRunResult } from './types';
 import { LogViewer } from './components/LogViewer';
-import { DifficultyBadge, ScoreBadge } from './components/StatusBadge';
-import { INTERVIEW_POLICY } from './services/policy';
+import { DifficultyBadge, ScoreBadge, VerdictBadge } from './components/StatusBadge';
+import { DEFAULT_POLICY_DOCUMENT, INTERVIEW_POLICY, PolicyDocument } from './services/policy';
+import { policyRegistry } from './services/policyRegistry';
+import { SessionStore, PersistedSession, SessionSummary, PolicyStore, RequisitionStore } from './services/storage';
+import { PolicyEditor } from './components/PolicyEditor';
+import { RequisitionDashboard } from './components/RequisitionDashboard';
+import { OverrideForm } from './components/OverrideForm';
+import { SessionLinks } from './components/SessionLinks';
+import { Requisition } from './services/requisition';
+import { downloadFile } from './services/download';
+import { buildReport, ReportFormatter } from './services/report';
+import { skillTaxonomy, describeMatch } from './services/skills';
+import { questionBank } from './services/questionBank';
+import { runCode, describeRun, testsRan } from './services/codeSandbox';
+import { describeFailure } from './services/llmErrors';
 
 // --- Default Data ---
 const DEFAULT_RESUME = `Name: Alex Chen
@@ -23,12 +37,28 @@ Primary Skills: React, TypeScript, System Design, GraphQL
 Secondary Skills: Performance Optimization, AWS, CI/CD
 Description: We are looking for a senior engineer. Critical: React/TS/GraphQL. Nice to have: AWS.`;
 
+// Sessions run on the interview server (server/index.ts); this page renders
+// the state it pushes and forwards the user's actions.
+const api = new InterviewClient();
+
+const idleState = () => createInitialState(); // Shown until the server has a session
+
 const App: React.FC = () => {
-  const [engineState, setEngineState] = useState<InterviewState>(engine.getState());
+  const [engineState, setEngineState] = useState<InterviewState>(idleState);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [observerToken, setObserverToken] = useState<string | null>(null);
   
   // Data Inputs
   const [resumeText, setResumeText] = useState(DEFAULT_RESUME);
   const [jdText, setJdText] = useState(DEFAULT_JD);
+  const [policyId, setPolicyId] = useState(DEFAULT_POLICY_DOCUMENT.id);
+  const [showPolicyEditor, setShowPolicyEditor] = useState(false);
+
+  // Requisition: one parsed JD shared by every candidate interviewed against it
+  const [requisitions, setRequisitions] = useState<Requisition[]>(() => RequisitionStore.list());
+  const [requisitionId, setRequisitionId] = useState<string | null>(null);
+  const [showRequisition, setShowRequisition] = useState(false);
+  const requisition = requisitions.find(r => r.id === requisitionId) ?? null;
   
   // Parsed Data
   const [resumeData, setResumeData] = useState<ResumeData | null>(null);
@@ -36,117 +66,175 @@ const App: React.FC = () => {
   
   // Interaction Local State
   const [userAnswer, setUserAnswer] = useState('');
+  const [sampleRun, setSampleRun] = useState<CodeRunResult | null>(null); // Visible test cases only
+  const [isRunningSamples, setIsRunningSamples] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [overridingTurn, setOverridingTurn] = useState<number | null>(null);
+  const [pauseRequest, setPauseRequest] = useState<{ approvedBy: string, reason: string } | null>(null);
+
+  // Persistence
+  const [resumable, setResumable] = useState<PersistedSession | null>(() => SessionStore.getActive());
+  const [pastSessions, setPastSessions] = useState<SessionSummary[]>(() => SessionStore.list());
+  const [viewingSession, setViewingSession] = useState<PersistedSession | null>(null);
   
   // Timer & Processing
   const [timeLeft, setTimeLeft] = useState(0);
   // Use 'any' for timer ref to handle environment differences (Node.js vs Browser definitions)
   const timerRef = useRef<any>(null);
-  const startTimeRef = useRef<number>(0);
+  const clockOffsetRef = useRef(0); // Server time minus local time
+  const stateRef = useRef(engineState); // Latest state for timer callbacks
+  stateRef.current = engineState;
+  const busyRef = useRef(false); // A request that changes the session is in flight
   
   const activeQuestion = engineState.activeQuestion;
+  const pausedBy = engineState.questionClock?.pausedBy ?? null;
+  const questionTimeLimit = activeQuestion?.coding?.timeBudgetSec ?? engineState.config.timeLimitPerQuestion;
   const isFallbackMode = engineState.evaluationMode === 'FALLBACK_RULE_BASED';
 
-  // Subscribe to Engine Updates
+  // Responses and pushes both carry full snapshots; keep whichever is newer
+  const applyState = (state: InterviewState) =>
+    setEngineState(current => current.sessionId === state.sessionId && current.events.length > state.events.length ? current : state);
+
+  // Subscribe to Server Pushes
   useEffect(() => {
-    // CRITICAL FIX: We must spread the state into a new object to ensure React detects the change.
-    // The engine mutates state in place, so simple passing would fail strict equality checks in React 18.
-    const handleStateUpdate = (s: InterviewState) => setEngineState({ ...s });
-    return engine.subscribe(handleStateUpdate);
-  }, []);
+    if (!sessionId) return;
+    return api.watch(sessionId, {
+      onState: (state, clockOffsetMs) => {
+        clockOffsetRef.current = clockOffsetMs;
+        applyState(state);
+        void api.runPendingCode(state); // Coding answers are tested here, not on the server
+      },
+      onError: message => setError(message),
+    });
+  }, [sessionId]);
+
+  // Seconds on the active question by the server's clock
+  const serverElapsed = () => {
+    const clock = stateRef.current.questionClock;
+    return clock ? questionElapsedSeconds(clock, Date.now() + clockOffsetRef.current) : 0;
+  };
 
   // Timer Logic & Auto-Submit
+  // The engine measures answer time; the countdown only displays its clock.
   useEffect(() => {
     if (engineState.status === 'INTERVIEWING' && activeQuestion) {
-      // Start or sync timer
-      if (startTimeRef.current === 0) {
-        startTimeRef.current = Date.now();
-        setTimeLeft(engineState.config.timeLimitPerQuestion);
-      }
-      
+      const tick = () => {
+        const left = Math.max(0, Math.ceil(questionTimeLimit - serverElapsed()));
+        setTimeLeft(left);
+        if (left === 0 && stateRef.current.questionClock?.pausedAt === null) {
+          // TIMEOUT AUTO-SUBMIT
+          if (timerRef.current) clearInterval(timerRef.current);
+          handleAutoSubmit();
+        }
+      };
+
       // Clear existing timer if any to prevent duplicates
       if (timerRef.current) clearInterval(timerRef.current);
-
-      timerRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            // TIMEOUT AUTO-SUBMIT
-            if (timerRef.current) clearInterval(timerRef.current);
-            handleAutoSubmit(); 
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+      tick();
+      timerRef.current = setInterval(tick, 250);
     } else {
       if (timerRef.current) clearInterval(timerRef.current);
-      startTimeRef.current = 0; // Reset for next turn
+      setPauseRequest(null);
     }
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
     };
   }, [engineState.status, activeQuestion?.id]); // Depend on question ID to reset timer strictly on new questions
 
+  // Every question (follow-ups included) starts blank; coding questions with their starter code
+  useEffect(() => {
+    setSampleRun(null);
+    setUserAnswer(activeQuestion?.coding?.starterCode ?? '');
+  }, [activeQuestion?.id]);
+
+  // Persist Session Snapshot (every state change and every timer tick)
+  useEffect(() => {
+    if (!engineState.sessionId || !resumeData || !jdData) return;
+    SessionStore.save({
+      id: engineState.sessionId,
+      observerToken: observerToken ?? undefined,
+      resume: resumeData,
+      jd: jdData,
+      state: engineState,
+      activeQuestionElapsedSec: engineState.status === 'INTERVIEWING' ? serverElapsed() : 0,
+    });
+    if (SessionStore.isFinished(engineState)) setPastSessions(SessionStore.list());
+  }, [engineState, timeLeft, resumeData, jdData, observerToken]);
+
 
   // --- Actions ---
 
+  // Ends the server session (if any) and returns to the setup screen state
+  const dropSession = () => {
+    if (sessionId) void api.removeSession(sessionId).catch(() => {});
+    setSessionId(null);
+    setObserverToken(null);
+    setEngineState(idleState());
+  };
+
   const handleStartAnalysis = async () => {
     // GUARD: Prevent double-invocation of analysis
-    if (engine.getState().status === 'ANALYZING') return;
+    if (busyRef.current || engineState.status === 'ANALYZING') return;
+    busyRef.current = true;
 
     setError(null);
-    engine.startAnalysis();
+    setResumable(null);
+    let id: string | null = null;
     try {
-      const [rData, jData] = await Promise.all([
-        GeminiService.parseResume(resumeText),
-        GeminiService.parseJD(jdText)
-      ]);
-      setResumeData(rData);
-      setJdData(jData);
-      
-      engine.initializeSession(jData, rData);
+      const created = await api.createSession();
+      id = created.id;
+      setSessionId(id);
+      setObserverToken(created.observerToken);
+      // A requisition's JD was parsed once, when the requisition was created
+      const result = await api.analyze(id, {
+        resumeText,
+        ...(requisition ? { jd: requisition.jd } : { jdText }),
+        policy: policyRegistry.get(policyId) ?? DEFAULT_POLICY_DOCUMENT,
+      });
+      setResumeData(result.resume);
+      setJdData(result.jd);
+      applyState(result.state);
+      if (requisition) {
+        RequisitionStore.attach(requisition.id, result.state.sessionId!);
+        setRequisitions(RequisitionStore.list());
+      }
       // We stop here (State: IDLE). User must manually "Start Interview".
     } catch (e: any) {
-      // Fallback is handled inside GeminiService, but if something catastrophic happens:
+      // Fallback is handled on the server, but if something catastrophic happens:
       setError(e.message || "Failed to analyze documents");
-      engine.reset();
+      if (id) void api.removeSession(id).catch(() => {});
+      setSessionId(null);
+      setObserverToken(null);
+      setEngineState(idleState());
+    } finally {
+      busyRef.current = false;
     }
   };
 
   const handleBeginSession = async () => {
     // GUARD: Strict State Check
-    const currentStatus = engine.getState().status;
-    if (currentStatus !== 'IDLE') {
+    if (busyRef.current || engineState.status !== 'IDLE') {
       return; 
     }
 
-    if (!jdData || !resumeData) return;
-    
-    // Explicitly Enter Generating State immediately to block further clicks
-    engine.setGenerating();
+    if (!sessionId || !jdData || !resumeData) return;
+    busyRef.current = true;
     
     try {
-      // Fetch FIRST question before transitioning to INTERVIEWING
-      const q = await GeminiService.generateQuestion(jdData, resumeData, engine.getState().currentDifficulty, []);
-      
-      // Secondary Check: Ensure state is still GENERATING before starting
-      if (engine.getState().status === 'GENERATING') {
-        engine.startInterview(q);
-        setUserAnswer('');
-      }
+      // The server enters GENERATING and presents the FIRST question
+      applyState(await api.start(sessionId));
     } catch (e: any) {
       setError("Failed to start session: " + e.message);
-      engine.reset();
+      dropSession();
+    } finally {
+      busyRef.current = false;
     }
   };
 
-  const fetchNextQuestion = async (jd: JobDescriptionData, resume: ResumeData, diff: Difficulty) => {
+  const fetchNextQuestion = async (id: string) => {
     try {
-      const prevQuestions = engine.getState().turns.map(t => t.question.text);
-      const q = await GeminiService.generateQuestion(jd, resume, diff, prevQuestions);
-      // Explicitly Present Question via Engine
-      engine.presentQuestion(q);
-      setUserAnswer('');
+      // Retries generation on the server (normally it presents the next question itself)
+      applyState(await api.start(id));
     } catch (e: any) {
       setError("Failed to generate question: " + e.message);
     }
@@ -154,12 +242,11 @@ const App: React.FC = () => {
 
   const handleManualSubmit = async () => {
     // GUARD: Prevent submission if not in INTERVIEWING state
-    if (engine.getState().status !== 'INTERVIEWING') return;
+    if (engineState.status !== 'INTERVIEWING') return;
     if (!activeQuestion || !jdData || !resumeData) return;
     
-    // Explicit Submission Logic
-    const timeLimit = engineState.config.timeLimitPerQuestion;
-    const timeTaken = Math.max(0, timeLimit - timeLeft);
+    // Explicit Submission Logic (the countdown's figure is only cross-checked by the engine)
+    const timeTaken = Math.max(0, questionTimeLimit - timeLeft);
     
     await executeSubmission(userAnswer, timeTaken);
   };
@@ -168,39 +255,183 @@ const App: React.FC = () => {
     if (!activeQuestion || !jdData || !resumeData) return;
     
     // Timeout Submission Logic
-    const timeLimit = engineState.config.timeLimitPerQuestion;
     console.log("Timeout reached. Auto-submitting.");
-    await executeSubmission(userAnswer, timeLimit); // Penalty logic will handle this
+    await executeSubmission(userAnswer, questionTimeLimit); // Penalty logic will handle this
+  };
+
+  const handleRunSamples = async () => {
+    if (!activeQuestion?.coding) return;
+    const init = engineState.events.find(e => e.type === 'SESSION_INITIALIZED');
+    const policy = init?.type === 'SESSION_INITIALIZED' ? init.policy.policy : INTERVIEW_POLICY;
+    setIsRunningSamples(true);
+    try {
+      setSampleRun(await runCode(activeQuestion.coding, userAnswer, policy, { includeHidden: false }));
+    } catch (e: any) {
+      setError("Sandbox Error: " + e.message);
+    } finally {
+      setIsRunningSamples(false);
+    }
   };
 
   const executeSubmission = async (text: string, timeTaken: number) => {
+    if (!sessionId || busyRef.current) return;
+    busyRef.current = true;
     try {
-      await engine.submitAnswer({ answerText: text, timeTakenSeconds: timeTaken });
-      
-      // Post-Submission Flow
-      const newState = engine.getState();
-      if (newState.status === 'GENERATING') {
-        if (jdData && resumeData) {
-          await fetchNextQuestion(jdData, resumeData, newState.currentDifficulty);
-        }
-      }
+      // Scored on the server; the resulting state arrives over the socket
+      await api.submitAnswer(sessionId, { answerText: text, timeTakenSeconds: timeTaken });
     } catch (e: any) {
       setError("Submission Error: " + e.message);
+    } finally {
+      busyRef.current = false;
+    }
+  };
+
+  const handleResumeSession = async (session: PersistedSession) => {
+    setError(null);
+    setResumable(null);
+    try {
+      // Reattaches, or restores the session from its saved events if the server lost it
+      if (session.observerToken) api.authorize(session.id, session.observerToken);
+      const { state } = await api.restoreSession(session.id, {
+        events: session.state.events,
+        elapsedSeconds: session.state.status === 'INTERVIEWING' ? session.activeQuestionElapsedSec : undefined,
+      });
+      setResumeData(session.resume);
+      setJdData(session.jd);
+      setSessionId(session.id);
+      setObserverToken(session.observerToken ?? null);
+      applyState(state);
+
+      // Question generation failed between turns: the next question was never presented
+      if (state.status === 'GENERATING') {
+        await fetchNextQuestion(session.id);
+      }
+    } catch (e: any) {
+      setError("Cannot resume session: " + e.message);
+    }
+  };
+
+  const handleDiscardResumable = () => {
+    SessionStore.clearActive();
+    setResumable(null);
+  };
+
+  const handleOpenPastSession = (id: string) => {
+    const session = SessionStore.load(id);
+    if (!session) {
+      setError("Session could not be loaded (missing, or saved by a newer version).");
+      return;
+    }
+    setViewingSession(session);
+  };
+
+  // Saves the analyzed JD as a requisition with this session as its first candidate (the server parses JDs only in /analyze)
+  const handleCreateRequisition = () => {
+    if (!jdData || !engineState.sessionId) return;
+    const created: Requisition = { id: crypto.randomUUID(), title: jdData.roleTitle, jd: jdData, createdAt: Date.now(), sessionIds: [engineState.sessionId] };
+    RequisitionStore.save(created);
+    setRequisitions(RequisitionStore.list());
+    setRequisitionId(created.id);
+  };
+
+  const handleSelectRequisition = (id: string | null) => {
+    setRequisitionId(id);
+    const selected = requisitions.find(r => r.id === id);
+    if (selected) setJdText(selected.jd.description);
+  };
+
+  // Rejects on invalid input; the form shows the server's message
+  const handleOverride = async (request: TurnOverrideRequest) => {
+    if (!sessionId) return;
+    applyState(await api.override(sessionId, request));
+    setOverridingTurn(null);
+  };
+
+  const handleSavePolicy = (doc: PolicyDocument) => {
+    try {
+      policyRegistry.register(doc);
+      PolicyStore.save(doc);
+      setPolicyId(doc.id);
+      setShowPolicyEditor(false);
+    } catch (e: any) {
+      setError(e.message);
     }
   };
 
   const handleReset = () => {
-    engine.reset();
+    SessionStore.clearActive();
+    setPastSessions(SessionStore.list());
+    dropSession();
     setResumeData(null);
     setJdData(null);
     setUserAnswer('');
     setError(null);
-    startTimeRef.current = 0;
+    setOverridingTurn(null);
+    setPauseRequest(null);
+  };
+
+  const handlePause = async () => {
+    if (!pauseRequest || !sessionId) return;
+    try {
+      applyState(await api.pause(sessionId, pauseRequest));
+      setPauseRequest(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleResumeQuestion = async () => {
+    if (!sessionId) return;
+    try {
+      applyState(await api.resume(sessionId));
+    } catch (e: any) {
+      setError(e.message);
+    }
   };
 
   // --- Render Logic (Strict State Switch) ---
   
   const renderContent = () => {
+    if (viewingSession) {
+      // --- READ-ONLY PAST SESSION ---
+      return (
+        <div className="flex flex-col gap-4 flex-1">
+          <div className="flex justify-between items-center bg-slate-900 border border-slate-800 rounded-lg px-4 py-3">
+            <div className="flex items-center gap-2 text-sm text-slate-300">
+              <Eye size={16} className="text-indigo-400" />
+              <span className="font-semibold">{viewingSession.resume.candidateName}</span>
+              <span className="text-slate-500">· {viewingSession.jd.roleTitle} · {new Date(viewingSession.updatedAt).toLocaleString()}</span>
+              <span className="text-[10px] bg-slate-800 text-slate-400 border border-slate-700 px-1 rounded uppercase">Read-only</span>
+            </div>
+            <button onClick={() => setViewingSession(null)} className="text-slate-400 hover:text-slate-200">
+              <X size={18} />
+            </button>
+          </div>
+          {renderResults(viewingSession.state, false)}
+        </div>
+      );
+    }
+
+    if (showRequisition && requisition && engineState.status === 'IDLE' && !resumeData) {
+      return (
+        <RequisitionDashboard
+          requisition={requisition}
+          onOpenSession={handleOpenPastSession}
+          onClose={() => setShowRequisition(false)}
+        />
+      );
+    }
+
+    if (showPolicyEditor && engineState.status === 'IDLE') {
+      return (
+        <PolicyEditor
+          initial={policyRegistry.get(policyId) ?? DEFAULT_POLICY_DOCUMENT}
+          onSave={handleSavePolicy}
+          onCancel={() => setShowPolicyEditor(false)}
+        />
+      );
+    }
+
     switch (engineState.status) {
       case 'IDLE':
         if (resumeData && jdData) {
@@ -228,6 +459,34 @@ const App: React.FC = () => {
                     <div className="text-slate-500 text-xs uppercase font-bold mb-1">Initial Difficulty</div>
                     <DifficultyBadge difficulty={engineState.currentDifficulty} />
                  </div>
+                 {(resumeData.parseDiagnostics || jdData.parseDiagnostics) && (
+                   <div className="bg-yellow-900/10 p-4 rounded-lg border border-yellow-900/50 col-span-2 space-y-2">
+                      <div className="text-yellow-500 text-xs uppercase font-bold">Parsed Offline</div>
+                      {resumeData.parseDiagnostics && (
+                        <div className="text-sm text-slate-300">
+                          Resume: {resumeData.candidateName} · {resumeData.experienceYears} YOE · {resumeData.skills.length} skills · confidence {(resumeData.parseDiagnostics.confidence * 100).toFixed(0)}%
+                          {resumeData.parseDiagnostics.missingFields.length > 0 && (
+                            <div className="text-xs text-yellow-400">Could not extract: {resumeData.parseDiagnostics.missingFields.join(', ')}</div>
+                          )}
+                        </div>
+                      )}
+                      {jdData.parseDiagnostics && (
+                        <div className="text-sm text-slate-300">
+                          JD: {jdData.primarySkills.length} primary · {jdData.secondarySkills.length} secondary skills · confidence {(jdData.parseDiagnostics.confidence * 100).toFixed(0)}%
+                          {jdData.parseDiagnostics.missingFields.length > 0 && (
+                            <div className="text-xs text-yellow-400">Could not extract: {jdData.parseDiagnostics.missingFields.join(', ')}</div>
+                          )}
+                        </div>
+                      )}
+                   </div>
+                 )}
+                 <div className="bg-slate-950 p-4 rounded-lg border border-slate-800 col-span-2">
+                    <div className="text-slate-500 text-xs uppercase font-bold mb-1">Policy</div>
+                    <div className="font-semibold text-slate-200">{engineState.policy?.name}</div>
+                    <div className="text-xs text-slate-500 font-mono">
+                      {engineState.policy?.id}@{engineState.policy?.version} · {engineState.config.maxQuestions} questions · {engineState.config.timeLimitPerQuestion}s each · {engineState.config.strikeLimit} strikes
+                    </div>
+                 </div>
                  <div className="bg-slate-950 p-4 rounded-lg border border-slate-800 col-span-2">
                     <div className="flex justify-between items-center mb-1">
                         <div className="text-slate-500 text-xs uppercase font-bold">Detected Gaps</div>
@@ -237,16 +496,39 @@ const App: React.FC = () => {
                       <div className="flex flex-wrap gap-2">
                         {engineState.detectedSkillGaps.map(g => (
                           <span key={g.skill} className={`text-xs px-2 py-1 rounded border ${g.type === 'PRIMARY' ? 'bg-red-900/30 border-red-800 text-red-400' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>
-                            {g.skill}
+                            {g.skill}{g.credit > 0 && ` (${(g.credit * 100).toFixed(0)}% covered)`}
                           </span>
                         ))}
                       </div>
                     ) : (
                        <div className="text-sm text-slate-500">Candidate profile matches all required skills.</div>
                     )}
+                    {engineState.skillMatches.some(m => m.relation !== 'EXACT' && m.relation !== 'NONE') && (
+                      <div className="mt-3 pt-2 border-t border-slate-800 space-y-1">
+                        <div className="text-slate-500 text-xs uppercase font-bold">Matched via Taxonomy</div>
+                        {engineState.skillMatches.filter(m => m.relation !== 'EXACT' && m.relation !== 'NONE').map(m => (
+                          <div key={m.skill} className="text-xs text-slate-400">
+                            <span className="text-slate-200">{m.skill}</span> {describeMatch(m)}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                  </div>
               </div>
 
+              {renderCoverage(jdData)}
+
+              {sessionId && observerToken && <SessionLinks sessionId={sessionId} observerToken={observerToken} />}
+
+              {!requisition && (
+                <button
+                  onClick={handleCreateRequisition}
+                  className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 text-sm"
+                >
+                  <Users size={14} /> Save JD as requisition
+                </button>
+              )}
+
               <button 
                 onClick={handleBeginSession}
                 className="px-8 py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg transition-all flex items-center gap-2 text-lg shadow-lg shadow-indigo-900/20"
@@ -260,6 +542,25 @@ const App: React.FC = () => {
         // --- SETUP SCREEN ---
         return (
             <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 flex-1 flex flex-col gap-6 animate-fade-in">
+              {resumable && (
+                <div className="bg-indigo-900/20 border border-indigo-800 rounded-lg p-4 flex justify-between items-center">
+                  <div className="text-sm">
+                    <div className="font-bold text-indigo-300">Unfinished session found</div>
+                    <div className="text-slate-400">
+                      {resumable.resume.candidateName} · {resumable.jd.roleTitle} · {resumable.state.turns.length} answered · {resumable.state.consecutiveWeakAnswers} strikes
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={handleDiscardResumable} className="px-3 py-2 text-xs text-slate-400 hover:text-slate-200">Discard</button>
+                    <button
+                      onClick={() => handleResumeSession(resumable)}
+                      className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg text-sm flex items-center gap-2"
+                    >
+                      <RotateCcw size={14} /> Resume Session
+                    </button>
+                  </div>
+                </div>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 flex-1">
                 <div className="flex flex-col gap-2">
                   <label className="flex items-center gap-2 font-semibold text-slate-300">
@@ -274,20 +575,88 @@ const App: React.FC = () => {
                 <div className="flex flex-col gap-2">
                   <label className="flex items-center gap-2 font-semibold text-slate-300">
                     <BookOpen size={18} /> Job Description (Text)
+                    {requisition && <span className="text-[10px] bg-slate-800 text-slate-400 border border-slate-700 px-1 rounded uppercase">From requisition</span>}
                   </label>
                   <textarea 
-                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-4 text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none resize-none scrollbar-thin"
+                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-4 text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none resize-none scrollbar-thin disabled:text-slate-500"
                     value={jdText}
+                    disabled={!!requisition}
                     onChange={(e) => setJdText(e.target.value)}
                   />
                 </div>
               </div>
+              <div className="flex items-center gap-3">
+                <label htmlFor="requisition-select" className="flex items-center gap-2 font-semibold text-slate-300 text-sm shrink-0">
+                  <Users size={16} /> Requisition
+                </label>
+                <select
+                  id="requisition-select"
+                  className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  value={requisitionId ?? ''}
+                  onChange={(e) => handleSelectRequisition(e.target.value || null)}
+                >
+                  <option value="">None (single candidate)</option>
+                  {requisitions.map(r => (
+                    <option key={r.id} value={r.id}>{r.title} ({r.sessionIds.length} candidates)</option>
+                  ))}
+                </select>
+                {requisition && (
+                  <button
+                    onClick={() => setShowRequisition(true)}
+                    className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 text-sm"
+                  >
+                    <Users size={14} /> Dashboard
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <label htmlFor="policy-select" className="flex items-center gap-2 font-semibold text-slate-300 text-sm shrink-0">
+                  <ShieldCheck size={16} /> Interview Policy
+                </label>
+                <select
+                  id="policy-select"
+                  className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  value={policyId}
+                  onChange={(e) => setPolicyId(e.target.value)}
+                >
+                  {policyRegistry.latest().map(doc => (
+                    <option key={doc.id} value={doc.id}>{doc.name} ({doc.id}@{doc.version})</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setShowPolicyEditor(true)}
+                  className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 text-sm"
+                >
+                  <Settings size={14} /> Edit Policy
+                </button>
+              </div>
               <button 
                 onClick={handleStartAnalysis}
                 className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg transition-all flex justify-center items-center gap-2 text-lg shadow-lg shadow-indigo-900/20"
               >
                 <Play size={20} /> Initialize Policy Engine
               </button>
+
+              {pastSessions.length > 0 && (
+                <div className="border-t border-slate-800 pt-4">
+                  <h3 className="text-slate-400 text-sm uppercase font-bold mb-3 flex items-center gap-2"><History size={14} /> Past Sessions</h3>
+                  <ul className="space-y-2 max-h-48 overflow-y-auto scrollbar-thin">
+                    {pastSessions.map(s => (
+                      <li key={s.id} className="flex justify-between items-center text-sm bg-slate-950 border border-slate-800 rounded px-3 py-2">
+                        <div>
+                          <span className="text-slate-200 font-semibold">{s.candidateName}</span>
+                          <span className="text-slate-500"> · {s.roleTitle} · {new Date(s.updatedAt).toLocaleString()}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-xs font-mono text-slate-500">{s.status}</span>
+                          {s.averageScore !== null && <ScoreBadge score={s.averageScore} />}
+                          <button onClick={() => handleOpenPastSession(s.id)} className="text-xs text-indigo-400 hover:text-indigo-300 underline">Open</button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
         );
 
@@ -330,30 +699,83 @@ const App: React.FC = () => {
               <div className="flex justify-between items-start border-b border-slate-800 pb-4">
                 <div>
                   <div className="flex items-center gap-3 mb-2">
-                    <span className="text-sm font-mono text-slate-500">QUESTION {engineState.turns.length + 1}</span>
+                    <span className="text-sm font-mono text-slate-500">
+                      QUESTION {engineState.turns.length + 1}
+                      {activeQuestion.followUpOf && ` · FOLLOW-UP ${engineState.pendingSubTurns.length}`}
+                    </span>
                     <DifficultyBadge difficulty={activeQuestion.difficulty} />
                     <span className="text-xs bg-slate-800 px-2 py-1 rounded text-slate-400 border border-slate-700">
                       Target: {activeQuestion.targetSkill}
                     </span>
+                    {activeQuestion.coding && (
+                      <span className="text-xs bg-indigo-900/30 text-indigo-300 px-2 py-1 rounded border border-indigo-800 font-mono uppercase">
+                        Coding · {activeQuestion.coding.language}
+                      </span>
+                    )}
                     {/* GAP BADGE */}
-                    {engineState.detectedSkillGaps.some(g => g.skill.toLowerCase() === activeQuestion.targetSkill.toLowerCase()) && (
+                    {engineState.detectedSkillGaps.some(g => skillTaxonomy.same(g.skill, activeQuestion.targetSkill)) && (
                        <span className="text-xs bg-red-900/30 text-red-400 px-2 py-1 rounded border border-red-800 font-bold">
                          SKILL GAP
                        </span>
                     )}
                   </div>
+                  {engineState.pendingSubTurns.length > 0 && (
+                    <p className="text-sm text-slate-500 mb-2">
+                      Following up on: {engineState.pendingSubTurns[0].question.text}
+                    </p>
+                  )}
                   <h2 className="text-xl font-medium text-slate-100 leading-relaxed">
                     {activeQuestion.text}
                   </h2>
                 </div>
-                {renderTimer()}
+                <div className="flex flex-col items-end gap-2">
+                  {renderTimer()}
+                  {pausedBy ? (
+                    <button onClick={handleResumeQuestion} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1">
+                      <Play size={12} /> Resume
+                    </button>
+                  ) : !pauseRequest && (
+                    <button onClick={() => setPauseRequest({ approvedBy: '', reason: '' })} className="text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1">
+                      <Pause size={12} /> Pause
+                    </button>
+                  )}
+                </div>
               </div>
 
+              {sessionId && observerToken && <SessionLinks sessionId={sessionId} observerToken={observerToken} compact />}
+
+              {/* Interviewer-approved pause */}
+              {pausedBy && (
+                <div className="bg-yellow-900/20 border border-yellow-800 rounded-lg px-4 py-2 text-sm text-yellow-400">
+                  Question paused by {pausedBy}. The clock is stopped and answers cannot be submitted until it is resumed.
+                </div>
+              )}
+              {!pausedBy && pauseRequest && (
+                <div className="bg-slate-950 border border-slate-800 rounded-lg p-3 flex gap-2 items-center">
+                  <input
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none w-48"
+                    placeholder="Approving interviewer"
+                    value={pauseRequest.approvedBy}
+                    onChange={e => setPauseRequest({ ...pauseRequest, approvedBy: e.target.value })}
+                  />
+                  <input
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none flex-1"
+                    placeholder="Reason (e.g. connection dropped)"
+                    value={pauseRequest.reason}
+                    onChange={e => setPauseRequest({ ...pauseRequest, reason: e.target.value })}
+                  />
+                  <button onClick={handlePause} disabled={!pauseRequest.approvedBy.trim()} className="px-3 py-1 bg-yellow-700 hover:bg-yellow-600 disabled:opacity-50 text-white text-sm font-bold rounded">Pause Clock</button>
+                  <button onClick={() => setPauseRequest(null)} className="text-slate-400 hover:text-slate-200"><X size={16} /></button>
+                </div>
+              )}
+
               {/* Input Area */}
               <div className="flex-1 relative group">
                 <textarea 
-                  className="w-full h-full bg-slate-950 border border-slate-700 rounded-lg p-4 text-base font-sans focus:ring-2 focus:ring-indigo-500 outline-none resize-none leading-relaxed"
+                  className={`w-full h-full bg-slate-950 border border-slate-700 rounded-lg p-4 focus:ring-2 focus:ring-indigo-500 outline-none resize-none leading-relaxed ${activeQuestion.coding ? 'text-sm font-mono' : 'text-base font-sans'}`}
                   placeholder="Type your technical answer here..."
+                  spellCheck={!activeQuestion.coding}
+                  disabled={!!pausedBy}
                   value={userAnswer}
                   onChange={(e) => setUserAnswer(e.target.value)}
                   onKeyDown={(e) => {
@@ -367,6 +789,20 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {/* Sample Test Results (coding questions) */}
+              {activeQuestion.coding && sampleRun && (
+                <div className="bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs font-mono space-y-1">
+                  <div className="text-slate-400">Sample tests: {describeRun(sampleRun)}</div>
+                  {sampleRun.cases.map((c, i) => (
+                    <div key={i} className={`flex items-start gap-2 ${c.passed ? 'text-green-400' : 'text-red-400'}`}>
+                      {c.passed ? <CheckCircle size={12} className="mt-0.5 shrink-0" /> : <XCircle size={12} className="mt-0.5 shrink-0" />}
+                      <span>{c.name}{c.error ? ` · ${c.error}` : ''}</span>
+                    </div>
+                  ))}
+                  <div className="text-slate-600">Hidden test cases run when you submit.</div>
+                </div>
+              )}
+
               {/* Action Bar */}
               <div className="flex justify-between items-center pt-2">
                 <div className="flex gap-2">
@@ -383,12 +819,24 @@ const App: React.FC = () => {
                       [Dev] Force Weak
                     </button>
                 </div>
-                <button 
-                  onClick={handleManualSubmit}
-                  className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg transition-all flex items-center gap-2"
-                >
-                  Submit Answer <ChevronRight size={18} />
-                </button>
+                <div className="flex gap-2">
+                  {activeQuestion.coding && (
+                    <button
+                      onClick={handleRunSamples}
+                      disabled={isRunningSamples}
+                      className="px-4 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 font-bold rounded-lg transition-all flex items-center gap-2"
+                    >
+                      <Code2 size={18} /> {isRunningSamples ? 'Running...' : 'Run Sample Tests'}
+                    </button>
+                  )}
+                  <button 
+                    onClick={handleManualSubmit}
+                    disabled={!!pausedBy}
+                    className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-lg transition-all flex items-center gap-2"
+                  >
+                    Submit Answer <ChevronRight size={18} />
+                  </button>
+                </div>
               </div>
             </div>
         );
@@ -396,67 +844,7 @@ const App: React.FC = () => {
       case 'COMPLETED':
       case 'TERMINATED':
         // --- RESULTS SCREEN ---
-        return (
-            <div className="bg-slate-900 border border-slate-800 rounded-xl p-8 flex flex-col gap-6 flex-1 overflow-y-auto">
-              <div className={`p-4 rounded-lg border ${engineState.status === 'COMPLETED' ? 'bg-green-900/20 border-green-800' : 'bg-red-900/20 border-red-800'} flex items-start gap-4`}>
-                {engineState.status === 'COMPLETED' ? <CheckCircle className="text-green-500 shrink-0" size={32} /> : <AlertTriangle className="text-red-500 shrink-0" size={32} />}
-                <div>
-                  <h2 className={`text-xl font-bold ${engineState.status === 'COMPLETED' ? 'text-green-400' : 'text-red-400'}`}>
-                    Interview {engineState.status === 'COMPLETED' ? 'Completed' : 'Terminated Early'}
-                  </h2>
-                  <p className="text-slate-400 text-sm mt-1">
-                    {engineState.terminationReason || "Standard question limit reached successfully."}
-                  </p>
-                  {engineState.status === 'TERMINATED' && (
-                     <div className="mt-2 inline-block px-2 py-1 bg-red-950 border border-red-900 rounded text-xs text-red-300 font-mono uppercase tracking-wide">
-                       Policy Triggered: System Intervention
-                     </div>
-                  )}
-                </div>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                 <div className="bg-slate-950 p-4 rounded-lg border border-slate-800">
-                    <h3 className="text-slate-400 text-sm uppercase font-bold mb-4">Performance Trend</h3>
-                    <div className="h-40">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <AreaChart data={getScoreData()}>
-                          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-                          <XAxis dataKey="name" stroke="#94a3b8" fontSize={10} />
-                          <YAxis domain={[0, 10]} stroke="#94a3b8" fontSize={10} />
-                          <Tooltip 
-                            contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155' }}
-                            itemStyle={{ color: '#e2e8f0' }}
-                          />
-                          <Area type="monotone" dataKey="score" stroke="#818cf8" fill="#4f46e5" fillOpacity={0.3} />
-                        </AreaChart>
-                      </ResponsiveContainer>
-                    </div>
-                 </div>
-
-                 <div className="bg-slate-950 p-4 rounded-lg border border-slate-800 overflow-y-auto max-h-60 scrollbar-thin">
-                    <h3 className="text-slate-400 text-sm uppercase font-bold mb-4">Feedback Summary</h3>
-                    <ul className="space-y-3">
-                      {engineState.turns.map((turn, i) => (
-                        <li key={i} className="text-sm border-b border-slate-800 pb-2 last:border-0">
-                          <div className="flex justify-between mb-1">
-                            <span className="font-bold text-slate-300">Q{i+1}: {turn.question.targetSkill}</span>
-                            <div className="flex gap-2">
-                                {turn.evaluation.isFallback && <span className="text-[10px] bg-yellow-900/30 text-yellow-500 border border-yellow-800 px-1 rounded flex items-center">FB</span>}
-                                {turn.evaluation.timePenalty > 0 && <span className="text-xs text-red-400 font-mono">[-TIME]</span>}
-                                {turn.evaluation.skillGapPenalty && turn.evaluation.skillGapPenalty > 0 && <span className="text-xs text-red-400 font-mono">[-GAP]</span>}
-                                <ScoreBadge score={turn.evaluation.finalScore} />
-                            </div>
-                          </div>
-                          <p className="text-slate-500">{turn.evaluation.feedback}</p>
-                          {turn.criticalFailure && <span className="text-red-500 text-xs font-bold">[CRITICAL FAIL +2 Strikes]</span>}
-                        </li>
-                      ))}
-                    </ul>
-                 </div>
-              </div>
-            </div>
-        );
+        return renderResults(engineState, true);
 
       default:
         return <div className="p-8 text-slate-500">System State Unknown: {engineState.status}</div>;
@@ -466,25 +854,261 @@ const App: React.FC = () => {
 
   // --- Render Helpers ---
 
-  const getScoreData = () => {
-    return engineState.scoreHistory.map((score, index) => ({
+  const getScoreData = (result: InterviewState) => {
+    return result.scoreHistory.map((score, index) => ({
       name: `Q${index + 1}`,
       score: score,
     }));
   };
 
+  // Overrides are applied to the live session only; past sessions are read-only
+  const renderResults = (result: InterviewState, editable: boolean) => (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-8 flex flex-col gap-6 flex-1 overflow-y-auto">
+      <div className={`p-4 rounded-lg border ${result.status === 'COMPLETED' ? 'bg-green-900/20 border-green-800' : 'bg-red-900/20 border-red-800'} flex items-start gap-4`}>
+        {result.status === 'COMPLETED' ? <CheckCircle className="text-green-500 shrink-0" size={32} /> : <AlertTriangle className="text-red-500 shrink-0" size={32} />}
+        <div>
+          <h2 className={`text-xl font-bold ${result.status === 'COMPLETED' ? 'text-green-400' : 'text-red-400'}`}>
+            Interview {result.status === 'COMPLETED' ? 'Completed' : 'Terminated Early'}
+          </h2>
+          <p className="text-slate-400 text-sm mt-1">
+            {result.terminationReason || "Standard question limit reached successfully."}
+          </p>
+          {result.policy && (
+            <p className="text-slate-500 text-xs font-mono mt-1">Policy: {result.policy.name} ({result.policy.id}@{result.policy.version})</p>
+          )}
+          {result.status === 'TERMINATED' && (
+             <div className="mt-2 inline-block px-2 py-1 bg-red-950 border border-red-900 rounded text-xs text-red-300 font-mono uppercase tracking-wide">
+               Policy Triggered: System Intervention
+             </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+         <div className="bg-slate-950 p-4 rounded-lg border border-slate-800">
+            <h3 className="text-slate-400 text-sm uppercase font-bold mb-4">Performance Trend</h3>
+            <div className="h-40">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={getScoreData(result)}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="name" stroke="#94a3b8" fontSize={10} />
+                  <YAxis domain={[0, 10]} stroke="#94a3b8" fontSize={10} />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155' }}
+                    itemStyle={{ color: '#e2e8f0' }}
+                  />
+                  <Area type="monotone" dataKey="score" stroke="#818cf8" fill="#4f46e5" fillOpacity={0.3} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+         </div>
+
+         <div className="bg-slate-950 p-4 rounded-lg border border-slate-800 overflow-y-auto max-h-60 scrollbar-thin">
+            <h3 className="text-slate-400 text-sm uppercase font-bold mb-4">Feedback Summary</h3>
+            <ul className="space-y-3">
+              {result.turns.map((turn, i) => (
+                <li key={i} className="text-sm border-b border-slate-800 pb-2 last:border-0">
+                  <div className="flex justify-between mb-1">
+                    <span className="font-bold text-slate-300">Q{i+1}: {turn.question.targetSkill}</span>
+                    <div className="flex gap-2">
+                        <span className="text-[10px] bg-slate-800 text-slate-400 border border-slate-700 px-1 rounded flex items-center" title="Scoring backend">{turn.evaluation.provider}</span>
+                        {turn.evaluation.isFallback && <span className="text-[10px] bg-yellow-900/30 text-yellow-500 border border-yellow-800 px-1 rounded flex items-center" title={turn.evaluation.llmError ? describeFailure(turn.evaluation.llmError) : undefined}>FB{turn.evaluation.llmError && ` · ${turn.evaluation.llmError.kind}`}</span>}
+                        {turn.subTurns.length > 1 && <span className="text-[10px] bg-indigo-900/30 text-indigo-300 border border-indigo-800 px-1 rounded flex items-center" title="Follow-up questions in this turn">+{turn.subTurns.length - 1} FOLLOW-UP</span>}
+                        {turn.evaluation.codeRun && <span className="text-[10px] bg-slate-800 text-slate-300 border border-slate-700 px-1 rounded flex items-center font-mono" title={describeRun(turn.evaluation.codeRun)}>TESTS {testsRan(turn.evaluation.codeRun) ? `${turn.evaluation.codeRun.passed}/${turn.evaluation.codeRun.total}` : 'N/A'}</span>}
+                        {turn.evaluation.timePenalty > 0 && <span className="text-xs text-red-400 font-mono">[-TIME]</span>}
+                        {turn.evaluation.skillGapPenalty && turn.evaluation.skillGapPenalty > 0 && <span className="text-xs text-red-400 font-mono">[-GAP]</span>}
+                        {turn.evaluation.injectionPenalty > 0 && <span className="text-xs text-red-400 font-mono" title={turn.evaluation.injectionSignals?.join(', ')}>[-INJECTION]</span>}
+                        {turn.override && <span className="text-[10px] bg-indigo-900/30 text-indigo-300 border border-indigo-800 px-1 rounded flex items-center" title={`Automated ${turn.override.original.finalScore.toFixed(1)}`}>OVERRIDDEN</span>}
+                        <ScoreBadge score={turn.evaluation.finalScore} />
+                        {editable && (
+                          <button onClick={() => setOverridingTurn(i)} className="text-slate-500 hover:text-indigo-300" title="Override score">
+                            <PenLine size={12} />
+                          </button>
+                        )}
+                    </div>
+                  </div>
+                  {turn.override && (
+                    <p className="text-xs text-indigo-300 mb-1">
+                      Overridden by {turn.override.interviewer} (automated {turn.override.original.finalScore.toFixed(2)}): {turn.override.justification}
+                    </p>
+                  )}
+                  <p className="text-slate-500 whitespace-pre-line">{turn.evaluation.feedback}</p>
+                  {turn.criticalFailure && <span className="text-red-500 text-xs font-bold">[CRITICAL FAIL +2 Strikes]</span>}
+                </li>
+              ))}
+            </ul>
+         </div>
+      </div>
+
+      {editable && overridingTurn !== null && result.turns[overridingTurn] && (
+        <OverrideForm
+          key={overridingTurn}
+          turnIndex={overridingTurn}
+          turn={result.turns[overridingTurn]}
+          onSubmit={handleOverride}
+          onCancel={() => setOverridingTurn(null)}
+        />
+      )}
+      {renderSkillMatrix(result)}
+      {renderReportExports(result)}
+      {renderAuditTrail(result)}
+    </div>
+  );
+
+  const renderSkillMatrix = (result: InterviewState) => {
+    if (result.skillMatrix.length === 0) return null;
+    return (
+      <div className="bg-slate-950 p-4 rounded-lg border border-slate-800">
+        <h3 className="text-slate-400 text-sm uppercase font-bold mb-1">Skill Matrix</h3>
+        <p className="text-slate-500 text-xs mb-3">Resume claims vs. measured level. Bars show the confidence interval on a 0-10 scale; a claim is flagged only when the whole interval misses it.</p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] uppercase text-slate-500">
+              <th className="pb-2 font-bold">Skill</th>
+              <th className="pb-2 font-bold">Claimed</th>
+              <th className="pb-2 font-bold">Measured</th>
+              <th className="pb-2 font-bold w-1/3">Interval</th>
+              <th className="pb-2 font-bold">Verdict</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.skillMatrix.map(row => (
+              <tr key={row.skill} className="border-t border-slate-800">
+                <td className="py-2 text-slate-300 font-bold">{row.skill}</td>
+                <td className="py-2 text-slate-400">{row.claimed ?? '-'}</td>
+                <td className="py-2 text-slate-400">
+                  {row.measured ? <>{row.measured.level} <ScoreBadge score={row.measured.estimate} /> <span className="text-slate-600 text-xs">({row.measured.evidence})</span></> : '-'}
+                </td>
+                <td className="py-2">
+                  {row.measured && (
+                    <div className="relative h-2 bg-slate-800 rounded" title={`${row.measured.low}-${row.measured.high}`}>
+                      <div className="absolute h-2 bg-indigo-700/60 rounded" style={{ left: `${row.measured.low * 10}%`, width: `${(row.measured.high - row.measured.low) * 10}%` }} />
+                      <div className="absolute h-2 w-0.5 bg-indigo-300" style={{ left: `${row.measured.estimate * 10}%` }} />
+                    </div>
+                  )}
+                </td>
+                <td className="py-2"><VerdictBadge verdict={row.verdict} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const renderReportExports = (result: InterviewState) => {
+    const baseName = `report-${result.sessionId}`;
+    const exportAs = (format: 'markdown' | 'json' | 'html') => {
+      const report = buildReport(result);
+      if (format === 'markdown') downloadFile(`${baseName}.md`, ReportFormatter.markdown(report), 'text/markdown');
+      if (format === 'json') downloadFile(`${baseName}.json`, ReportFormatter.json(report), 'application/json');
+      if (format === 'html') downloadFile(`${baseName}.html`, ReportFormatter.html(report), 'text/html');
+    };
+    const printReport = () => {
+      const win = window.open('', '_blank');
+      if (!win) return;
+      win.document.write(ReportFormatter.html(buildReport(result)));
+      win.document.close();
+      win.focus();
+      win.print();
+    };
+    const buttonClass = 'flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-xs';
+
+    return (
+      <div className="flex justify-between items-center bg-slate-950 p-4 rounded-lg border border-slate-800 text-sm">
+        <div className="flex items-center gap-2 text-slate-300">
+          <FileText size={16} className="text-indigo-400" /> Candidate Report
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => exportAs('markdown')} className={buttonClass}><Download size={14} /> Markdown</button>
+          <button onClick={() => exportAs('json')} className={buttonClass}><Download size={14} /> JSON</button>
+          <button onClick={() => exportAs('html')} className={buttonClass}><Download size={14} /> HTML</button>
+          <button onClick={printReport} className={buttonClass}><Printer size={14} /> Print</button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderAuditTrail = (result: InterviewState) => {
+    // Sessions saved before the event stream (or its policy stamp) existed cannot be replayed
+    let replayed: InterviewState | null = null;
+    try {
+      replayed = result.events.length > 0 ? replay(result.events) : null;
+    } catch {
+      replayed = null;
+    }
+    const verified = replayed !== null &&
+      JSON.stringify(replayed.scoreHistory) === JSON.stringify(result.scoreHistory) &&
+      replayed.terminationReason === result.terminationReason &&
+      replayed.status === result.status;
+
+    return (
+      <div className="flex justify-between items-center bg-slate-950 p-4 rounded-lg border border-slate-800 text-sm">
+        <div className="flex items-center gap-2">
+          {replayed === null
+            ? <History size={16} className="text-slate-500" />
+            : verified
+              ? <ShieldCheck size={16} className="text-green-400" />
+              : <AlertTriangle size={16} className="text-red-400" />}
+          <span className="text-slate-300">
+            {result.events.length} recorded events · {replayed === null
+              ? 'Not replayable (saved by an older version)'
+              : `Replay ${verified ? 'reproduces this result' : 'DIVERGES from this result'}`}
+          </span>
+        </div>
+        <button
+          onClick={() => downloadFile(`session-${result.sessionId}-events.json`, JSON.stringify(result.events, null, 2), 'application/json')}
+          className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-xs"
+        >
+          <Download size={14} /> Event Stream
+        </button>
+      </div>
+    );
+  };
+
+  const renderCoverage = (jd: JobDescriptionData) => {
+    const coverage = questionBank.coverage(jd);
+    const uncovered = coverage.filter(c => c.total === 0);
+
+    return (
+      <div className="bg-slate-950 p-4 rounded-lg border border-slate-800 w-full max-w-lg">
+        <div className="flex justify-between items-center mb-2">
+          <div className="text-slate-500 text-xs uppercase font-bold">Offline Question Coverage</div>
+          <span className={`text-xs ${uncovered.length > 0 ? 'text-yellow-500' : 'text-green-500'}`}>
+            {coverage.length - uncovered.length}/{coverage.length} skills covered
+          </span>
+        </div>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs font-mono">
+          {coverage.map(c => (
+            <div key={c.skill} className="flex justify-between">
+              <span className={c.total === 0 ? 'text-yellow-400' : 'text-slate-300'}>{c.skill}</span>
+              <span className="text-slate-500" title="Easy / Medium / Hard">
+                {c.byDifficulty[Difficulty.Easy]}/{c.byDifficulty[Difficulty.Medium]}/{c.byDifficulty[Difficulty.Hard]}
+              </span>
+            </div>
+          ))}
+        </div>
+        {uncovered.length > 0 && (
+          <div className="text-xs text-yellow-400 mt-2">
+            No offline questions for: {uncovered.map(c => c.skill).join(', ')}. Fallback mode will draw questions for other skills instead.
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderTimer = () => {
-    const color = timeLeft < 10 ? 'text-red-500 animate-pulse' : timeLeft < 20 ? 'text-yellow-500' : 'text-slate-300';
+    const color = pausedBy ? 'text-slate-500' : timeLeft < 10 ? 'text-red-500 animate-pulse' : timeLeft < 20 ? 'text-yellow-500' : 'text-slate-300';
     
     return (
       <div className={`flex items-center gap-2 font-mono text-xl font-bold ${color}`}>
-        <Clock size={20} />
+        {pausedBy ? <Pause size={20} /> : <Clock size={20} />}
         {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
       </div>
     );
   };
 
-  const strikeLimit = INTERVIEW_POLICY.TERMINATION.STRIKE_LIMIT;
+  const strikeLimit = engineState.config.strikeLimit;
   const currentStrikes = engineState.consecutiveWeakAnswers;
   const isStrikeExceeded = currentStrikes >= strikeLimit;
 
@@ -582,7 +1206,7 @@ const App: React.FC = () => {
                 <div className="space-y-2">
                     {engineState.detectedSkillGaps.map(g => (
                         <div key={g.skill} className="flex justify-between items-center border-b border-yellow-800/30 pb-1">
-                            <span className="text-yellow-200">{g.skill}</span>
+                            <span className="text-yellow-200">{g.skill}{g.credit > 0 && <span className="text-yellow-600"> · {(g.credit * 100).toFixed(0)}%</span>}</span>
                             <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${g.type === 'PRIMARY' ? 'bg-red-900 text-red-300' : 'bg-slate-800 text-slate-400'}`}>
                                 {g.type}
                             </span>
@@ -594,7 +1218,7 @@ const App: React.FC = () => {
            
            {/* Live Logs */}
            <div className="flex-1 min-h-0">
-             <LogViewer logs={engineState.logs} />
+             <LogViewer logs={engineState.logs} sessionId={engineState.sessionId} />
            </div>
         </div>
 
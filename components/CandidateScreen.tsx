@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrainCircuit, CheckCircle, ChevronRight, Clock, Code2, Pause, XCircle } from 'lucide-react';
+import { InterviewClient } from '../services/apiClient';
+import { CandidateView } from '../services/candidateView';
+import { questionElapsedSeconds } from '../services/interviewState';
+import { runCode, describeRun } from '../services/codeSandbox';
+import { CodeRunResult } from '../types';
+
+interface CandidateScreenProps {
+  api: InterviewClient;
+  sessionId: string;
+}
+
+const DRAFT_DEBOUNCE_MS = 300;
+
+// The candidate's page: only what toCandidateView exposes. Scores and logs never reach it.
+export const CandidateScreen: React.FC<CandidateScreenProps> = ({ api, sessionId }) => {
+  const [view, setView] = useState<CandidateView | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [sampleRun, setSampleRun] = useState<CodeRunResult | null>(null);
+  const [isRunningSamples, setIsRunningSamples] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clockOffsetRef = useRef(0); // Server time minus local time
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const answerRef = useRef(answer);
+  answerRef.current = answer;
+  const sendDraftRef = useRef<(questionId: string, text: string) => void>(() => {});
+  const draftTimerRef = useRef<any>(null);
+  const submittingRef = useRef(false);
+
+  const question = view?.phase === 'ANSWERING' ? view.question : null;
+  const paused = view?.questionClock?.pausedAt != null;
+
+  useEffect(() => {
+    const { close, sendDraft } = api.watchAsCandidate(sessionId, {
+      onView: (next, clockOffsetMs) => {
+        clockOffsetRef.current = clockOffsetMs;
+        setView(next);
+      },
+      onError: setError,
+    });
+    sendDraftRef.current = sendDraft;
+    return close;
+  }, [api, sessionId]);
+
+  // Every question starts blank, or with its starter code
+  useEffect(() => {
+    setSampleRun(null);
+    setAnswer(question?.coding?.starterCode ?? '');
+  }, [question?.id]);
+
+  const submit = async (text: string) => {
+    const current = viewRef.current;
+    if (!current?.question || submittingRef.current) return;
+    submittingRef.current = true;
+    setSubmitting(true);
+    clearTimeout(draftTimerRef.current);
+    try {
+      const clock = current.questionClock;
+      const elapsed = clock ? questionElapsedSeconds(clock, Date.now() + clockOffsetRef.current) : undefined;
+      setView(await api.submitAnswer(sessionId, { answerText: text, timeTakenSeconds: elapsed }));
+    } catch (e: any) {
+      setError("Submission Error: " + e.message);
+    } finally {
+      submittingRef.current = false;
+      setSubmitting(false);
+    }
+  };
+
+  // Countdown from the engine's clock; the server measures the real answer time
+  useEffect(() => {
+    if (!question) return;
+    const tick = () => {
+      const current = viewRef.current;
+      const clock = current?.questionClock;
+      if (!current || !clock) return;
+      const left = Math.max(0, Math.ceil(current.timeLimitSec - questionElapsedSeconds(clock, Date.now() + clockOffsetRef.current)));
+      setTimeLeft(left);
+      if (left === 0 && clock.pausedAt === null) {
+        clearInterval(timer);
+        void submit(answerRef.current);
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [question?.id]);
+
+  const handleChange = (text: string) => {
+    setAnswer(text);
+    if (!question) return;
+    const questionId = question.id;
+    clearTimeout(draftTimerRef.current);
+    draftTimerRef.current = setTimeout(() => sendDraftRef.current(questionId, text), DRAFT_DEBOUNCE_MS);
+  };
+
+  const handleRunSamples = async () => {
+    if (!question?.coding) return;
+    setIsRunningSamples(true);
+    try {
+      setSampleRun(await runCode(question.coding, answer, undefined, { includeHidden: false }));
+    } catch (e: any) {
+      setError("Sandbox Error: " + e.message);
+    } finally {
+      setIsRunningSamples(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (!view) {
+      return <p className="text-slate-400 font-mono text-center">Connecting...</p>;
+    }
+    switch (view.phase) {
+      case 'WAITING':
+        return <p className="text-slate-400 text-center">Your interview has not started yet. This page updates when the first question is ready.</p>;
+      case 'PROCESSING':
+        return (
+          <div className="flex flex-col items-center gap-4">
+            <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-slate-400 font-mono">Preparing the next question...</p>
+          </div>
+        );
+      case 'FINISHED':
+        return (
+          <div className="text-center space-y-2">
+            <CheckCircle className="text-green-500 mx-auto" size={48} />
+            <h2 className="text-2xl font-bold text-white">Thank you{view.candidateName ? `, ${view.candidateName}` : ''}</h2>
+            <p className="text-slate-400">The interview is over. Your interviewer will be in touch.</p>
+          </div>
+        );
+      case 'ANSWERING':
+        if (!question) return null;
+        return (
+          <div className="flex flex-col gap-6 w-full">
+            <div className="flex justify-between items-start border-b border-slate-800 pb-4">
+              <div>
+                <span className="text-sm font-mono text-slate-500">
+                  QUESTION {view.questionNumber}{question.isFollowUp && ' · FOLLOW-UP'}
+                </span>
+                <h2 className="text-xl font-medium text-slate-100 leading-relaxed mt-2">{question.text}</h2>
+              </div>
+              <div className={`flex items-center gap-2 font-mono text-xl font-bold ${paused ? 'text-slate-500' : timeLeft < 10 ? 'text-red-500 animate-pulse' : timeLeft < 20 ? 'text-yellow-500' : 'text-slate-300'}`}>
+                {paused ? <Pause size={20} /> : <Clock size={20} />}
+                {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
+              </div>
+            </div>
+
+            {paused && (
+              <div className="bg-yellow-900/20 border border-yellow-800 rounded-lg px-4 py-2 text-sm text-yellow-400">
+                Your interviewer has paused this question. The clock is stopped.
+              </div>
+            )}
+
+            <textarea
+              className={`w-full min-h-[300px] bg-slate-950 border border-slate-700 rounded-lg p-4 focus:ring-2 focus:ring-indigo-500 outline-none resize-none leading-relaxed ${question.coding ? 'text-sm font-mono' : 'text-base font-sans'}`}
+              placeholder="Type your answer here..."
+              spellCheck={!question.coding}
+              disabled={paused || submitting}
+              value={answer}
+              onChange={e => handleChange(e.target.value)}
+            />
+
+            {question.coding && sampleRun && (
+              <div className="bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs font-mono space-y-1">
+                <div className="text-slate-400">Sample tests: {describeRun(sampleRun)}</div>
+                {sampleRun.cases.map((c, i) => (
+                  <div key={i} className={`flex items-start gap-2 ${c.passed ? 'text-green-400' : 'text-red-400'}`}>
+                    {c.passed ? <CheckCircle size={12} className="mt-0.5 shrink-0" /> : <XCircle size={12} className="mt-0.5 shrink-0" />}
+                    <span>{c.name}{c.error ? ` · ${c.error}` : ''}</span>
+                  </div>
+                ))}
+                <div className="text-slate-600">Hidden test cases run when you submit.</div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {question.coding && (
+                <button
+                  onClick={handleRunSamples}
+                  disabled={isRunningSamples}
+                  className="px-4 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 font-bold rounded-lg transition-all flex items-center gap-2"
+                >
+                  <Code2 size={18} /> {isRunningSamples ? 'Running...' : 'Run Sample Tests'}
+                </button>
+              )}
+              <button
+                onClick={() => submit(answer)}
+                disabled={paused || submitting}
+                className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-lg transition-all flex items-center gap-2"
+              >
+                {submitting ? 'Submitting...' : 'Submit Answer'} <ChevronRight size={18} />
+              </button>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-200 p-4 md:p-8">
+      <header className="max-w-4xl mx-auto mb-8 flex items-center gap-3 border-b border-slate-800 pb-4">
+        <div className="p-2 bg-indigo-600 rounded-lg">
+          <BrainCircuit size={24} className="text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-white">Technical Interview</h1>
+      </header>
+      <main className="max-w-4xl mx-auto">
+        {error && (
+          <div className="mb-4 bg-red-900/20 border border-red-800 text-red-400 rounded-lg px-4 py-2 text-sm flex justify-between">
+            {error}
+            <button onClick={() => setError(null)} className="text-red-300 hover:text-red-100">Dismiss</button>
+          </div>
+        )}
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-8 flex justify-center min-h-[400px] items-center">
+          {renderBody()}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -1,35 +1,123 @@
-import React, { useEffect, useRef } from 'react';
-import { Terminal } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Terminal, Search, Download } from 'lucide-react';
+import { LogCategory, LogEntry, LogSeverity } from '../types';
+import { downloadFile } from '../services/download';
 
 interface LogViewerProps {
-  logs: string[];
+  logs: LogEntry[];
+  sessionId?: string | null;
 }
 
-export const LogViewer: React.FC<LogViewerProps> = ({ logs }) => {
+const SEVERITIES: LogSeverity[] = ['INFO', 'WARN', 'ERROR'];
+
+const SEVERITY_STYLE: Record<LogSeverity, string> = {
+  INFO: 'text-slate-300',
+  WARN: 'text-yellow-300',
+  ERROR: 'text-red-400',
+};
+
+const formatTime = (timestamp: number | null) =>
+  timestamp === null ? '--:--:--' : new Date(timestamp).toLocaleTimeString();
+
+/**
+ * One JSON object per line, in chronological order, so logs can be piped into jq or a log store.
+ */
+export const toJSONL = (logs: LogEntry[]) => logs.map(entry => JSON.stringify(entry)).join('\n');
+
+export const LogViewer: React.FC<LogViewerProps> = ({ logs, sessionId }) => {
   const endRef = useRef<HTMLDivElement>(null);
+  const [hiddenCategories, setHiddenCategories] = useState<Set<LogCategory>>(new Set());
+  const [minSeverity, setMinSeverity] = useState<LogSeverity>('INFO');
+  const [query, setQuery] = useState('');
+
+  // Only offer chips for categories that actually occurred
+  const categories = useMemo(() => Array.from(new Set(logs.map(l => l.category))), [logs]);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const floor = SEVERITIES.indexOf(minSeverity);
+    return logs.filter(l =>
+      !hiddenCategories.has(l.category) &&
+      SEVERITIES.indexOf(l.severity) >= floor &&
+      (needle === '' || l.message.toLowerCase().includes(needle) || l.category.toLowerCase().includes(needle))
+    );
+  }, [logs, hiddenCategories, minSeverity, query]);
 
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+  }, [visible]);
+
+  const toggleCategory = (category: LogCategory) => {
+    setHiddenCategories(prev => {
+      const next = new Set(prev);
+      if (next.has(category)) next.delete(category); else next.add(category);
+      return next;
+    });
+  };
+
+  const handleExport = () =>
+    downloadFile(`session-${sessionId ?? 'unsaved'}-logs.jsonl`, toJSONL(visible), 'application/x-ndjson');
 
   return (
     <div className="bg-slate-900 border border-slate-700 rounded-lg p-4 h-full flex flex-col font-mono text-xs">
       <div className="flex items-center gap-2 text-slate-400 mb-2 border-b border-slate-700 pb-2">
         <Terminal size={14} />
         <span className="font-semibold uppercase tracking-wider">System Engine Logs</span>
+        <span className="text-slate-600">{visible.length}/{logs.length}</span>
+        <button
+          onClick={handleExport}
+          disabled={visible.length === 0}
+          title="Export visible entries as JSONL"
+          className="ml-auto flex items-center gap-1 text-slate-400 hover:text-slate-200 disabled:text-slate-700"
+        >
+          <Download size={12} /> JSONL
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-2 mb-2">
+        <div className="flex items-center gap-1 flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1">
+          <Search size={12} className="text-slate-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search logs..."
+            className="bg-transparent outline-none flex-1 text-slate-300 placeholder:text-slate-600"
+          />
+        </div>
+        <select
+          value={minSeverity}
+          onChange={(e) => setMinSeverity(e.target.value as LogSeverity)}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-slate-300 outline-none"
+        >
+          {SEVERITIES.map(s => <option key={s} value={s}>{s}+</option>)}
+        </select>
       </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {categories.map(c => (
+          <button
+            key={c}
+            onClick={() => toggleCategory(c)}
+            className={`px-1.5 py-0.5 rounded text-[10px] font-bold border ${hiddenCategories.has(c) ? 'border-slate-800 text-slate-600' : 'border-blue-900 bg-blue-950 text-blue-300'}`}
+          >
+            {c}
+          </button>
+        ))}
+      </div>
+
       <div className="flex-1 overflow-y-auto scrollbar-thin space-y-1 pr-2">
         {logs.length === 0 && <span className="text-slate-600 italic">No logs yet...</span>}
-        {logs.map((log, i) => (
-          <div key={i} className="text-slate-300 break-words">
-            <span className="text-blue-500 mr-2">{log.substring(0, log.indexOf(']') + 1)}</span>
-            <span className={log.includes('TERMINATION') || log.includes('WARNING') ? 'text-red-400' : 'text-slate-300'}>
-              {log.substring(log.indexOf(']') + 1)}
-            </span>
+        {logs.length > 0 && visible.length === 0 && <span className="text-slate-600 italic">No entries match the current filters.</span>}
+        {visible.map(log => (
+          <div key={log.seq} className="text-slate-300 break-words" title={log.payload ? JSON.stringify(log.payload) : undefined}>
+            <span className="text-slate-500 mr-2">[{formatTime(log.timestamp)}]</span>
+            <span className="text-blue-500 mr-2">[{log.category}]</span>
+            {log.turnIndex !== null && <span className="text-slate-600 mr-2">Q{log.turnIndex + 1}</span>}
+            <span className={SEVERITY_STYLE[log.severity]}>{log.message}</span>
           </div>
         ))}
         <div ref={endRef} />
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
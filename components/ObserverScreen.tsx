@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Clock, Eye, Pause, PenLine } from 'lucide-react';
+import { InterviewState } from '../types';
+import { InterviewClient } from '../services/apiClient';
+import { AnswerDraft } from '../services/candidateView';
+import { createInitialState, questionElapsedSeconds } from '../services/interviewState';
+import { LogViewer } from './LogViewer';
+import { DifficultyBadge, ScoreBadge } from './StatusBadge';
+
+interface ObserverScreenProps {
+  api: InterviewClient;
+  sessionId: string;
+  token: string;
+}
+
+// Read-only interviewer view: the candidate's typing as it happens, every score and the log
+export const ObserverScreen: React.FC<ObserverScreenProps> = ({ api, sessionId, token }) => {
+  const [state, setState] = useState<InterviewState>(createInitialState);
+  const [draft, setDraft] = useState<AnswerDraft | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const clockOffsetRef = useRef(0); // Server time minus local time
+
+  useEffect(() => {
+    api.authorize(sessionId, token);
+    return api.watch(sessionId, {
+      onState: (next, clockOffsetMs) => {
+        clockOffsetRef.current = clockOffsetMs;
+        setState(next);
+        void api.runPendingCode(next); // Coding answers are tested here, not on the server
+      },
+      onDraft: setDraft,
+      onError: setError,
+    });
+  }, [api, sessionId, token]);
+
+  useEffect(() => {
+    const clock = state.questionClock;
+    if (!clock) return;
+    const tick = () => setElapsed(questionElapsedSeconds(clock, Date.now() + clockOffsetRef.current));
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [state.questionClock]);
+
+  const question = state.activeQuestion;
+  const limit = question?.coding?.timeBudgetSec ?? state.config.timeLimitPerQuestion;
+  const left = Math.max(0, Math.ceil(limit - elapsed));
+  const liveDraft = question && draft?.questionId === question.id ? draft : null;
+  const average = state.turns.length > 0
+    ? state.turns.reduce((sum, t) => sum + t.evaluation.finalScore, 0) / state.turns.length
+    : null;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-200 p-4 md:p-8">
+      <header className="max-w-7xl mx-auto mb-8 flex justify-between items-center border-b border-slate-800 pb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-slate-800 rounded-lg">
+            <Eye size={24} className="text-indigo-400" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Live Observer</h1>
+            <p className="text-slate-400 text-sm font-mono">{sessionId} · {state.status}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 flex flex-col gap-6">
+          {error && (
+            <div className="bg-red-900/20 border border-red-800 text-red-400 rounded-lg px-4 py-2 text-sm">{error}</div>
+          )}
+
+          {/* Active question and live draft */}
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-4">
+            {question ? (
+              <>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="flex items-center gap-3 mb-2">
+                      <span className="text-sm font-mono text-slate-500">
+                        QUESTION {state.turns.length + 1}{question.followUpOf && ' · FOLLOW-UP'}
+                      </span>
+                      <DifficultyBadge difficulty={question.difficulty} />
+                      <span className="text-xs bg-slate-800 px-2 py-1 rounded text-slate-400 border border-slate-700">
+                        Target: {question.targetSkill}
+                      </span>
+                    </div>
+                    <h2 className="text-lg text-slate-100">{question.text}</h2>
+                  </div>
+                  <div className="flex items-center gap-2 font-mono text-xl font-bold text-slate-300">
+                    {state.questionClock?.pausedBy ? <Pause size={20} /> : <Clock size={20} />}
+                    {Math.floor(left / 60)}:{(left % 60).toString().padStart(2, '0')}
+                  </div>
+                </div>
+                {state.questionClock?.pausedBy && (
+                  <div className="text-sm text-yellow-400">Paused by {state.questionClock.pausedBy}.</div>
+                )}
+                <div>
+                  <div className="text-slate-500 text-xs uppercase font-bold mb-1 flex items-center gap-2">
+                    <PenLine size={12} /> Candidate is typing
+                    {liveDraft && <span className="font-normal normal-case text-slate-600">updated {new Date(liveDraft.at).toLocaleTimeString()}</span>}
+                  </div>
+                  <pre className="bg-slate-950 border border-slate-800 rounded-lg p-4 text-sm whitespace-pre-wrap min-h-[160px] text-slate-300">
+                    {liveDraft?.text || <span className="text-slate-600">Nothing typed yet.</span>}
+                  </pre>
+                </div>
+              </>
+            ) : (
+              <p className="text-slate-500 text-sm">No question on screen ({state.status}).</p>
+            )}
+          </div>
+
+          {/* Score breakdown */}
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+            <h3 className="text-slate-500 text-xs uppercase font-bold mb-3">Scores</h3>
+            {state.turns.length === 0 ? (
+              <p className="text-slate-500 text-sm">No answers scored yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 text-left">
+                  <tr>
+                    <th className="pb-2">#</th><th className="pb-2">Skill</th><th className="pb-2">Base</th>
+                    <th className="pb-2">Time</th><th className="pb-2">Gap</th><th className="pb-2">Injection</th><th className="pb-2">Final</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {state.turns.map((turn, i) => (
+                    <tr key={i} className="border-t border-slate-800">
+                      <td className="py-2 text-slate-500">Q{i + 1}</td>
+                      <td className="py-2 font-sans">{turn.question.targetSkill}{turn.override && <span className="ml-2 text-xs text-indigo-400">overridden</span>}</td>
+                      <td className="py-2">{turn.evaluation.totalScore.toFixed(2)}</td>
+                      <td className="py-2 text-red-400">{turn.evaluation.timePenalty > 0 ? `-${turn.evaluation.timePenalty.toFixed(2)}` : '—'}</td>
+                      <td className="py-2 text-red-400">{turn.evaluation.skillGapPenalty ? `-${turn.evaluation.skillGapPenalty.toFixed(2)}` : '—'}</td>
+                      <td className="py-2 text-red-400" title={turn.evaluation.injectionSignals?.join(', ')}>{turn.evaluation.injectionPenalty ? `-${turn.evaluation.injectionPenalty.toFixed(2)}` : '—'}</td>
+                      <td className="py-2"><ScoreBadge score={turn.evaluation.finalScore} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {/* Telemetry and log */}
+        <div className="flex flex-col gap-6">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="bg-slate-900 p-3 rounded-lg border border-slate-800">
+              <div className="text-slate-500 text-xs uppercase font-bold mb-1">Difficulty</div>
+              <DifficultyBadge difficulty={state.currentDifficulty} />
+            </div>
+            <div className="bg-slate-900 p-3 rounded-lg border border-slate-800">
+              <div className="text-slate-500 text-xs uppercase font-bold mb-1">Strikes</div>
+              <div className="font-mono">{state.consecutiveWeakAnswers}/{state.config.strikeLimit}</div>
+            </div>
+            <div className="bg-slate-900 p-3 rounded-lg border border-slate-800">
+              <div className="text-slate-500 text-xs uppercase font-bold mb-1">Average</div>
+              {average !== null ? <ScoreBadge score={average} /> : <span className="text-slate-600">—</span>}
+            </div>
+          </div>
+          {state.detectedSkillGaps.length > 0 && (
+            <div className="bg-slate-900 p-3 rounded-lg border border-slate-800 flex flex-wrap gap-2">
+              {state.detectedSkillGaps.map(g => (
+                <span key={g.skill} className={`text-xs px-2 py-1 rounded border ${g.type === 'PRIMARY' ? 'bg-red-900/30 border-red-800 text-red-400' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>
+                  {g.skill}
+                </span>
+              ))}
+            </div>
+          )}
+          <LogViewer logs={state.logs} sessionId={state.sessionId} />
+        </div>
+      </main>
+    </div>
+  );
+};
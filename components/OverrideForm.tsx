@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { PenLine, X } from 'lucide-react';
+import { InterviewTurn, ScoreAdjustment } from '../types';
+import { TurnOverrideRequest } from '../services/engine';
+
+interface OverrideFormProps {
+  turnIndex: number;
+  turn: InterviewTurn;
+  onSubmit: (request: TurnOverrideRequest) => Promise<void>; // Rejects with the engine's validation message
+  onCancel: () => void;
+}
+
+const DIMENSIONS = ['accuracy', 'clarity', 'depth', 'relevance'] as const;
+
+export const OverrideForm: React.FC<OverrideFormProps> = ({ turnIndex, turn, onSubmit, onCancel }) => {
+  // Starts from the current values; only fields that differ from the automated evaluation are sent
+  const automated = turn.override?.original ?? turn.evaluation;
+  const [scores, setScores] = useState<Record<typeof DIMENSIONS[number], string>>(() => ({
+    accuracy: String(turn.evaluation.accuracy),
+    clarity: String(turn.evaluation.clarity),
+    depth: String(turn.evaluation.depth),
+    relevance: String(turn.evaluation.relevance),
+  }));
+  const [finalScore, setFinalScore] = useState(turn.override?.adjustment.finalScore?.toString() ?? '');
+  const [interviewer, setInterviewer] = useState(turn.override?.interviewer ?? '');
+  const [justification, setJustification] = useState('');
+  const [recomputePath, setRecomputePath] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    const adjustment: ScoreAdjustment = {};
+    DIMENSIONS.forEach(d => {
+      const value = Number(scores[d]);
+      if (scores[d] !== '' && value !== automated[d]) adjustment[d] = value;
+    });
+    if (finalScore !== '') adjustment.finalScore = Number(finalScore);
+    try {
+      await onSubmit({ turnIndex, adjustment, justification, interviewer, recomputePath });
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div className="bg-slate-950 p-4 rounded-lg border border-indigo-800 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-indigo-300 text-sm uppercase font-bold flex items-center gap-2">
+          <PenLine size={14} /> Override Q{turnIndex + 1}: {turn.question.targetSkill}
+        </h3>
+        <button onClick={onCancel} className="text-slate-400 hover:text-slate-200"><X size={16} /></button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Automated: base {automated.totalScore.toFixed(2)} · final {automated.finalScore.toFixed(2)}. Changed dimensions recompute the base score (time and gap penalties still apply); a final score replaces the result outright.
+      </p>
+      <div className="grid grid-cols-5 gap-2">
+        {DIMENSIONS.map(d => (
+          <label key={d} className="text-[10px] uppercase text-slate-500 font-bold flex flex-col gap-1">
+            {d} <span className="font-normal normal-case text-slate-600">(was {automated[d]})</span>
+            <input type="number" min={0} max={10} step={0.5} className={inputClass} value={scores[d]} onChange={e => setScores(s => ({ ...s, [d]: e.target.value }))} />
+          </label>
+        ))}
+        <label className="text-[10px] uppercase text-slate-500 font-bold flex flex-col gap-1">
+          Final <span className="font-normal normal-case text-slate-600">(optional)</span>
+          <input type="number" min={0} max={10} step={0.1} className={inputClass} value={finalScore} onChange={e => setFinalScore(e.target.value)} />
+        </label>
+      </div>
+      <input className={`${inputClass} w-full`} placeholder="Interviewer name" value={interviewer} onChange={e => setInterviewer(e.target.value)} />
+      <textarea
+        className={`${inputClass} w-full h-20 resize-none`}
+        placeholder="Justification (required): why the automated score is wrong"
+        value={justification}
+        onChange={e => setJustification(e.target.value)}
+      />
+      <label className="flex items-center gap-2 text-xs text-slate-400">
+        <input type="checkbox" checked={recomputePath} onChange={e => setRecomputePath(e.target.checked)} />
+        Recompute difficulty transitions and strikes from the corrected score
+      </label>
+      {error && <div className="text-xs text-red-400 whitespace-pre-line">{error}</div>}
+      <div className="flex justify-end">
+        <button onClick={submit} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg text-sm">Apply Override</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Settings, Save, X, GitCompare, AlertTriangle } from 'lucide-react';
+import { Difficulty } from '../types';
+import { DEFAULT_POLICY_DOCUMENT, PolicyDocument } from '../services/policy';
+import { POLICY_SCHEMA, FieldSpec, PolicyValidationError, readPath, validatePolicyDocument } from '../services/policyValidator';
+import { diffPolicies, formatChange, labelForPath } from '../services/policyDiff';
+import { policyRegistry } from '../services/policyRegistry';
+
+interface PolicyEditorProps {
+  initial: PolicyDocument;
+  onSave: (doc: PolicyDocument) => void;
+  onCancel: () => void;
+}
+
+const SECTIONS = ['SCORING', 'TIMING', 'DIFFICULTY', 'RESUME_JD_LOGIC', 'TERMINATION', 'FOLLOW_UP', 'CODING', 'PROFICIENCY', 'INJECTION', 'FALLBACK_SCORING', 'EDGE_CASES'];
+
+const bumpPatch = (version: string) => {
+  const [major, minor, patch] = version.split('.').map(Number);
+  return `${major}.${minor}.${patch + 1}`;
+};
+
+const writePath = <T,>(obj: T, path: string, value: unknown): T => {
+  const clone = structuredClone(obj);
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce<Record<string, unknown>>((node, key) => node[key] as Record<string, unknown>, clone as Record<string, unknown>);
+  parent[last] = value;
+  return clone;
+};
+
+/**
+ * Starts a draft from an existing policy. The shipped default is never edited in place.
+ */
+const toDraft = (base: PolicyDocument): PolicyDocument => ({
+  ...structuredClone(base),
+  id: base.id === DEFAULT_POLICY_DOCUMENT.id ? 'custom' : base.id,
+  version: base.id === DEFAULT_POLICY_DOCUMENT.id ? '1.0.0' : bumpPatch(base.version),
+  name: `${base.name} (Edited)`,
+});
+
+export const PolicyEditor: React.FC<PolicyEditorProps> = ({ initial, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<PolicyDocument>(() => toDraft(initial));
+
+  const errors = useMemo<PolicyValidationError[]>(() => {
+    const result = validatePolicyDocument(draft);
+    const found = [...result.errors];
+    if (policyRegistry.has(draft.id, draft.version)) {
+      found.push({ path: 'version', message: `${draft.id}@${draft.version} already exists. Bump the version to save changes.` });
+    }
+    return found;
+  }, [draft]);
+
+  const changes = useMemo(() => diffPolicies(DEFAULT_POLICY_DOCUMENT.policy, draft.policy), [draft]);
+
+  const fieldError = (path: string) => errors.find(e => e.path === path)?.message;
+  const sectionErrors = (section: string) =>
+    errors.filter(e => e.path.startsWith(`policy.${section}`) && !(e.path.slice('policy.'.length) in POLICY_SCHEMA));
+
+  const updatePolicy = (path: string, value: unknown) => setDraft(d => writePath(d, `policy.${path}`, value));
+
+  const renderInput = (path: string, spec: FieldSpec) => {
+    const value = readPath(draft.policy, path);
+    const base = 'w-full bg-slate-950 border rounded px-2 py-1 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500';
+    const border = fieldError(`policy.${path}`) ? 'border-red-700' : 'border-slate-700';
+
+    if (spec.kind === 'difficulty') {
+      return (
+        <select className={`${base} ${border}`} value={String(value)} onChange={(e) => updatePolicy(path, e.target.value)}>
+          {Object.values(Difficulty).map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+      );
+    }
+    if (spec.kind === 'string') {
+      return <input className={`${base} ${border}`} value={String(value ?? '')} onChange={(e) => updatePolicy(path, e.target.value)} />;
+    }
+    return (
+      <input
+        type="number"
+        step={spec.integer ? 1 : 0.05}
+        className={`${base} ${border}`}
+        value={typeof value === 'number' && Number.isFinite(value) ? value : ''}
+        onChange={(e) => updatePolicy(path, e.target.value === '' ? NaN : Number(e.target.value))}
+      />
+    );
+  };
+
+  const metaField = (key: 'id' | 'version' | 'name', label: string) => (
+    <div className="flex flex-col gap-1">
+      <label className="text-xs text-slate-500 uppercase font-bold">{label}</label>
+      <input
+        className={`bg-slate-950 border rounded px-2 py-1 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500 ${fieldError(key) ? 'border-red-700' : 'border-slate-700'}`}
+        value={draft[key]}
+        onChange={(e) => setDraft(d => ({ ...d, [key]: e.target.value }))}
+      />
+      {fieldError(key) && <span className="text-xs text-red-400">{fieldError(key)}</span>}
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 flex-1 flex flex-col gap-4 animate-fade-in min-h-0">
+      <div className="flex justify-between items-center border-b border-slate-800 pb-3">
+        <h2 className="flex items-center gap-2 text-lg font-bold text-white">
+          <Settings size={18} /> Policy Editor
+          <span className="text-xs text-slate-500 font-mono font-normal">based on {initial.id}@{initial.version}</span>
+        </h2>
+        <button onClick={onCancel} className="text-slate-400 hover:text-slate-200"><X size={18} /></button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {metaField('id', 'Policy Id')}
+        {metaField('version', 'Version')}
+        {metaField('name', 'Name')}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-4 flex-1 min-h-0">
+        <div className="xl:col-span-2 overflow-y-auto scrollbar-thin pr-2 space-y-4 max-h-[520px]">
+          {SECTIONS.map(section => {
+            const paths = Object.keys(POLICY_SCHEMA).filter(p => p.startsWith(`${section}.`));
+            return (
+              <fieldset key={section} className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+                <legend className="px-1 text-xs uppercase font-bold text-slate-400">{labelForPath(section)}</legend>
+                {sectionErrors(section).map(e => (
+                  <div key={e.path} className="text-xs text-red-400 flex items-center gap-1 mb-2">
+                    <AlertTriangle size={12} /> {labelForPath(e.path.slice('policy.'.length))}: {e.message}
+                  </div>
+                ))}
+                <div className="grid grid-cols-2 gap-3">
+                  {paths.map(path => (
+                    <div key={path} className="flex flex-col gap-1">
+                      <label className="text-xs text-slate-400">{labelForPath(path).split(' › ').slice(1).join(' › ')}</label>
+                      {renderInput(path, POLICY_SCHEMA[path])}
+                      {fieldError(`policy.${path}`) && <span className="text-xs text-red-400">{fieldError(`policy.${path}`)}</span>}
+                    </div>
+                  ))}
+                </div>
+              </fieldset>
+            );
+          })}
+        </div>
+
+        <div className="bg-slate-950 border border-slate-800 rounded-lg p-3 flex flex-col min-h-0 max-h-[520px]">
+          <div className="flex items-center gap-2 text-xs uppercase font-bold text-slate-400 mb-2">
+            <GitCompare size={14} /> Diff vs {DEFAULT_POLICY_DOCUMENT.id}@{DEFAULT_POLICY_DOCUMENT.version}
+          </div>
+          <div className="overflow-y-auto scrollbar-thin space-y-1 text-xs font-mono">
+            {changes.length === 0 && <span className="text-slate-600 italic">Identical to the default policy.</span>}
+            {changes.map(c => (
+              <div key={c.path} className="text-slate-300 border-b border-slate-800/50 pb-1">{formatChange(c)}</div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center pt-2 border-t border-slate-800">
+        <span className={`text-xs ${errors.length > 0 ? 'text-red-400' : 'text-green-400'}`}>
+          {errors.length > 0 ? `${errors.length} validation error(s)` : 'Policy is valid'}
+        </span>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={errors.length > 0}
+          className="px-5 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-800 disabled:text-slate-500 text-white font-bold rounded-lg flex items-center gap-2 text-sm"
+        >
+          <Save size={16} /> Save Policy
+        </button>
+      </div>
+    </div>
+  );
+};
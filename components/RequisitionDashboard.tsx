@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { Users, X, GitCompare, Eye } from 'lucide-react';
+import { InterviewState, InterviewTurn } from '../types';
+import { Requisition, pairTurns, rankCandidates } from '../services/requisition';
+import { SessionStore } from '../services/storage';
+import { describeRun } from '../services/codeSandbox';
+import { DifficultyBadge, ScoreBadge } from './StatusBadge';
+
+interface RequisitionDashboardProps {
+  requisition: Requisition;
+  onOpenSession: (id: string) => void;
+  onClose: () => void;
+}
+
+const creditColor = (credit: number) =>
+  credit >= 1 ? 'bg-green-900/30 text-green-400' : credit > 0 ? 'bg-yellow-900/30 text-yellow-400' : 'bg-red-900/30 text-red-400';
+
+const TurnCell: React.FC<{ turn: InterviewTurn | null }> = ({ turn }) => {
+  if (!turn) return <td className="py-2 px-2 align-top text-slate-600 text-xs">Not asked</td>;
+  return (
+    <td className="py-2 px-2 align-top">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="font-bold text-slate-300">{turn.question.targetSkill}</span>
+        <DifficultyBadge difficulty={turn.question.difficulty} />
+        <ScoreBadge score={turn.evaluation.finalScore} />
+        {turn.subTurns.length > 1 && <span className="text-[10px] text-indigo-300">+{turn.subTurns.length - 1} follow-up</span>}
+      </div>
+      <div className="text-xs text-slate-400 mb-1">{turn.question.text}</div>
+      {turn.evaluation.codeRun && <div className="text-[10px] font-mono text-slate-400">{describeRun(turn.evaluation.codeRun)}</div>}
+      <div className="text-xs text-slate-500 whitespace-pre-line line-clamp-4">{turn.answer || <em>No answer</em>}</div>
+    </td>
+  );
+};
+
+export const RequisitionDashboard: React.FC<RequisitionDashboardProps> = ({ requisition, onOpenSession, onClose }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Deleted sessions, and those written by a newer storage version, cannot be loaded
+  const sessions = useMemo(() => {
+    const states = new Map<string, InterviewState>();
+    requisition.sessionIds.forEach(id => {
+      const session = SessionStore.load(id);
+      if (session) states.set(id, session.state);
+    });
+    return states;
+  }, [requisition]);
+
+  const standings = useMemo(() => rankCandidates(requisition, [...sessions.values()]), [requisition, sessions]);
+  const unavailable = requisition.sessionIds.length - sessions.size;
+  const skills = standings[0]?.coverage ?? []; // Same JD skills, in the same order, for every candidate
+
+  const toggleCompare = (id: string) =>
+    setCompareIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id].slice(-2));
+
+  const [leftId, rightId] = compareIds;
+  const nameOf = (id: string) => standings.find(s => s.sessionId === id)?.candidateName ?? id;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 flex-1 flex flex-col gap-6 overflow-y-auto animate-fade-in">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Users size={20} className="text-indigo-400" /> {requisition.title}</h2>
+          <p className="text-slate-500 text-xs mt-1">
+            {requisition.jd.complexityLevel} · {requisition.jd.primarySkills.length} primary · {requisition.jd.secondarySkills.length} secondary skills · {requisition.sessionIds.length} candidate(s)
+            {unavailable > 0 && <span className="text-yellow-500"> · {unavailable} session(s) unavailable</span>}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-200"><X size={18} /></button>
+      </div>
+
+      {standings.length === 0 ? (
+        <div className="text-sm text-slate-500">No candidates interviewed yet. Select this requisition on the setup screen and initialize a session.</div>
+      ) : (
+        <>
+          <div className="bg-slate-950 p-4 rounded-lg border border-slate-800">
+            <h3 className="text-slate-400 text-sm uppercase font-bold mb-3">Ranking</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] uppercase text-slate-500">
+                  <th className="pb-2 font-bold">#</th>
+                  <th className="pb-2 font-bold">Candidate</th>
+                  <th className="pb-2 font-bold">Score</th>
+                  <th className="pb-2 font-bold">Outcome</th>
+                  <th className="pb-2 font-bold" title="Primary / all skill gaps">Gaps</th>
+                  <th className="pb-2 font-bold">Termination</th>
+                  <th className="pb-2 font-bold">Compare</th>
+                  <th className="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map(s => (
+                  <tr key={s.sessionId} className="border-t border-slate-800">
+                    <td className="py-2 font-mono text-slate-400">{s.rank ?? '-'}</td>
+                    <td className="py-2 text-slate-200 font-semibold">{s.candidateName}</td>
+                    <td className="py-2">{s.questionsAnswered > 0 ? <ScoreBadge score={s.averageScore} /> : '-'} <span className="text-slate-600 text-xs">({s.questionsAnswered} Q)</span></td>
+                    <td className="py-2 text-xs">
+                      {s.rank === null
+                        ? <span className="text-slate-500">In progress</span>
+                        : s.passed ? <span className="text-green-400 font-bold">PASS</span> : <span className="text-red-400 font-bold">FAIL</span>}
+                    </td>
+                    <td className="py-2 font-mono text-xs text-slate-400">{s.primaryGapCount} / {s.gapCount}</td>
+                    <td className="py-2 text-xs text-slate-500">{s.terminationReason ?? '-'}</td>
+                    <td className="py-2">
+                      <input type="checkbox" checked={compareIds.includes(s.sessionId)} onChange={() => toggleCompare(s.sessionId)} />
+                    </td>
+                    <td className="py-2">
+                      <button onClick={() => onOpenSession(s.sessionId)} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Eye size={12} /> Open</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-slate-950 p-4 rounded-lg border border-slate-800 overflow-x-auto">
+            <h3 className="text-slate-400 text-sm uppercase font-bold mb-1">Skill Coverage</h3>
+            <p className="text-slate-500 text-xs mb-3">Resume coverage of each JD skill (taxonomy credit) and, where a question targeted it, the measured proficiency.</p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase text-slate-500">
+                  <th className="pb-2 font-bold">Candidate</th>
+                  {skills.map(c => (
+                    <th key={c.skill} className={`pb-2 px-1 font-bold ${c.type === 'PRIMARY' ? 'text-slate-300' : ''}`}>{c.skill}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map(s => (
+                  <tr key={s.sessionId} className="border-t border-slate-800">
+                    <td className="py-2 text-slate-300">{s.candidateName}</td>
+                    {s.coverage.map(c => (
+                      <td key={c.skill} className="py-2 px-1">
+                        <span className={`px-1 rounded font-mono ${creditColor(c.resumeCredit)}`}>{(c.resumeCredit * 100).toFixed(0)}%</span>
+                        {c.measured !== null && <> <ScoreBadge score={c.measured} /></>}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-slate-950 p-4 rounded-lg border border-slate-800">
+            <h3 className="text-slate-400 text-sm uppercase font-bold mb-3 flex items-center gap-2"><GitCompare size={14} /> Side-by-Side</h3>
+            {leftId && rightId ? (
+              <table className="w-full text-sm table-fixed">
+                <thead>
+                  <tr className="text-left text-[10px] uppercase text-slate-500">
+                    <th className="pb-2 w-10 font-bold">Q</th>
+                    <th className="pb-2 px-2 font-bold">{nameOf(leftId)}</th>
+                    <th className="pb-2 px-2 font-bold">{nameOf(rightId)}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pairTurns(sessions.get(leftId)!, sessions.get(rightId)!).map(pair => (
+                    <tr key={pair.index} className="border-t border-slate-800">
+                      <td className="py-2 align-top font-mono text-slate-500">Q{pair.index}</td>
+                      <TurnCell turn={pair.left} />
+                      <TurnCell turn={pair.right} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-sm text-slate-500">Tick two candidates in the ranking to compare their turns.</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
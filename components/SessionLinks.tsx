@@ -0,0 +1,43 @@
+import React from 'react';
+import { Eye, User } from 'lucide-react';
+import { candidateLink, observerLink } from '../services/hashRoutes';
+
+interface SessionLinksProps {
+  sessionId: string;
+  observerToken: string;
+  compact?: boolean; // One line, for the active question screen
+}
+
+// The candidate link carries no token; the observer link grants the full interviewer view
+export const SessionLinks: React.FC<SessionLinksProps> = ({ sessionId, observerToken, compact }) => {
+  const origin = window.location.origin + window.location.pathname.replace(/\/$/, '');
+  const links = [
+    { label: 'Candidate', icon: <User size={12} />, href: candidateLink(origin, sessionId) },
+    { label: 'Observer', icon: <Eye size={12} />, href: observerLink(origin, sessionId, observerToken) },
+  ];
+
+  if (compact) {
+    return (
+      <div className="flex gap-4 text-xs text-slate-500">
+        {links.map(l => (
+          <a key={l.label} href={l.href} target="_blank" rel="noreferrer" className="flex items-center gap-1 hover:text-slate-300">
+            {l.icon} Open {l.label} View
+          </a>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-950 p-4 rounded-lg border border-slate-800 w-full max-w-lg space-y-2">
+      <div className="text-slate-500 text-xs uppercase font-bold">Session Links</div>
+      {links.map(l => (
+        <div key={l.label} className="text-xs">
+          <div className="flex items-center gap-1 text-slate-400 mb-1">{l.icon} {l.label}</div>
+          <input readOnly value={l.href} onFocus={e => e.target.select()} className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300 outline-none" />
+        </div>
+      ))}
+      <div className="text-xs text-slate-600">Share the observer link only with interviewers: it shows scores and live typing.</div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Difficulty } from '../types';
+import { ClaimVerdict, Difficulty } from '../types';
+import { VERDICT_LABELS } from '../services/proficiency';
 
 export const DifficultyBadge: React.FC<{ difficulty: Difficulty }> = ({ difficulty }) => {
   const colors = {
@@ -21,4 +22,21 @@ export const ScoreBadge: React.FC<{ score: number }> = ({ score }) => {
   else if (score < 7) color = 'text-yellow-400';
 
   return <span className={`font-mono font-bold ${color}`}>{score.toFixed(1)}</span>;
-};
\ No newline at end of file
+};
+
+export const VerdictBadge: React.FC<{ verdict: ClaimVerdict }> = ({ verdict }) => {
+  const colors: Record<ClaimVerdict, string> = {
+    CONSISTENT: 'bg-green-900/30 text-green-400 border-green-800',
+    OVER_CLAIMED: 'bg-red-900/30 text-red-400 border-red-800',
+    UNDER_CLAIMED: 'bg-blue-900/30 text-blue-300 border-blue-800',
+    INCONCLUSIVE: 'bg-yellow-900/30 text-yellow-400 border-yellow-800',
+    UNTESTED: 'bg-slate-800 text-slate-500 border-slate-700',
+    UNCLAIMED: 'bg-slate-800 text-slate-400 border-slate-700',
+  };
+
+  return (
+    <span className={`px-1 rounded border text-[10px] font-bold uppercase whitespace-nowrap ${colors[verdict]}`}>
+      {VERDICT_LABELS[verdict]}
+    </span>
+  );
+};
@@ -1,15 +1,40 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { CandidateScreen } from './components/CandidateScreen';
+import { ObserverScreen } from './components/ObserverScreen';
+import { InterviewClient } from './services/apiClient';
+import { parseHashRoute } from './services/hashRoutes';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+const api = new InterviewClient();
+
+// Picks the screen from the URL hash (see services/hashRoutes.ts)
+const Root: React.FC = () => {
+  const [route, setRoute] = useState(() => parseHashRoute(window.location.hash));
+  useEffect(() => {
+    const onChange = () => setRoute(parseHashRoute(window.location.hash));
+    window.addEventListener('hashchange', onChange);
+    return () => window.removeEventListener('hashchange', onChange);
+  }, []);
+
+  switch (route.page) {
+    case 'candidate':
+      return <CandidateScreen key={route.sessionId} api={api} sessionId={route.sessionId} />;
+    case 'observe':
+      return <ObserverScreen key={route.sessionId} api={api} sessionId={route.sessionId} token={route.token} />;
+    default:
+      return <App />;
+  }
+};
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
-);
\ No newline at end of file
+);
@@ -0,0 +1,90 @@
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { createProviderFromConfig } from "../services/llm";
+import {
+  CalibrationEvaluator, CalibrationFormatter, CalibrationRecording,
+  deterministicEvaluator, loadCalibrationDataset, providerEvaluator, recordedEvaluator, runCalibration, toRecording,
+} from "../services/calibration";
+import { loadPolicy, readData } from "./cli";
+
+// ============================================================================
+// CALIBRATION CLI
+//   npm run calibrate                                   deterministic evaluator
+//   npm run calibrate -- --evaluator live --record r.json   configured LLM, saving responses
+//   npm run calibrate -- --evaluator recorded --recording r.json   offline replay
+// The live provider is configured like the interview server (LLM_PROVIDER,
+// API_KEY, OPENAI_*), read from the process environment.
+// ============================================================================
+
+const USAGE = `Usage: npm run calibrate -- [options]
+  --dataset <file>      Labelled answers (default data/calibration/answers.json)
+  --evaluator <kind>    deterministic | live | recorded (default deterministic)
+  --recording <file>    Recorded responses, required for --evaluator recorded
+  --record <file>       Save the evaluator's responses for later offline runs
+  --policy <id|file>    Registered policy id or policy document JSON (default: default)
+  --format <kind>       markdown | json (default markdown)
+  --max-flips <n>       Exit with code 1 when more verdicts flip than this
+                        (default: the dataset's baselineFlips for the evaluator, if any)`;
+
+const pickEvaluator = (kind: string, recording: string | undefined): CalibrationEvaluator => {
+  switch (kind) {
+    case 'deterministic':
+      return deterministicEvaluator;
+    case 'live':
+      return providerEvaluator(createProviderFromConfig());
+    case 'recorded':
+      if (!recording) throw new Error('--evaluator recorded needs --recording <file>.');
+      return recordedEvaluator(readData(recording) as CalibrationRecording);
+    default:
+      throw new Error(`Unknown evaluator '${kind}'.`);
+  }
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string', default: 'data/calibration/answers.json' },
+      evaluator: { type: 'string', default: 'deterministic' },
+      recording: { type: 'string' },
+      record: { type: 'string' },
+      policy: { type: 'string', default: 'default' },
+      format: { type: 'string', default: 'markdown' },
+      'max-flips': { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const dataset = loadCalibrationDataset(readData(values.dataset!));
+  const policyDoc = loadPolicy(values.policy!);
+  const evaluator = pickEvaluator(values.evaluator!, values.recording);
+
+  const report = await runCalibration(dataset, evaluator, policyDoc.policy);
+  console.log(values.format === 'json' ? CalibrationFormatter.json(report) : CalibrationFormatter.markdown(report));
+
+  if (values.record) {
+    writeFileSync(values.record, JSON.stringify(toRecording(report), null, 2) + '\n');
+    console.error(`Recorded ${Object.keys(report.responses).length} responses to ${values.record}.`);
+  }
+
+  const baseline = dataset.baselineFlips?.[evaluator.name];
+  const maxFlips = values['max-flips'] !== undefined ? Number(values['max-flips']) : baseline ?? Infinity;
+  if (report.scored === 0) {
+    console.error('No item could be scored.');
+    process.exitCode = 1;
+  } else if (report.flips.length > maxFlips) {
+    console.error(`${report.flips.length} verdict flips exceed the allowed ${maxFlips}.`);
+    process.exitCode = 1;
+  } else if (baseline !== undefined && report.flips.length < baseline) {
+    console.error(`${report.flips.length} verdict flips, fewer than the dataset's baseline of ${baseline}: lower baselineFlips.${evaluator.name}.`);
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+});
@@ -0,0 +1,31 @@
+import { readFileSync } from "node:fs";
+import { parse as parseYAML } from "yaml";
+import { PolicyDocument } from "../services/policy";
+import { policyRegistry } from "../services/policyRegistry";
+import { formatPolicyErrors, validatePolicyDocument } from "../services/policyValidator";
+
+// ============================================================================
+// SHARED CLI HELPERS
+// ============================================================================
+
+/**
+ * Reads a JSON or YAML file (by extension).
+ */
+export const readData = (path: string): unknown => {
+  const text = readFileSync(path, 'utf8');
+  return /\.ya?ml$/i.test(path) ? parseYAML(text) : JSON.parse(text);
+};
+
+/**
+ * A registered policy id, or the path of a policy document to validate.
+ */
+export const loadPolicy = (ref: string): PolicyDocument => {
+  if (!/\.(json|ya?ml)$/i.test(ref)) {
+    const doc = policyRegistry.get(ref);
+    if (!doc) throw new Error(`Unknown policy '${ref}'. Registered: ${[...new Set(policyRegistry.list().map(d => d.id))].join(', ')}.`);
+    return doc;
+  }
+  const result = validatePolicyDocument(readData(ref));
+  if (result.valid === false) throw new Error(`Invalid policy document '${ref}':\n${formatPolicyErrors(result.errors)}`);
+  return result.document;
+};
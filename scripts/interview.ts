@@ -0,0 +1,92 @@
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { LogEntry } from "../types";
+import { DEFAULT_POLICY_DOCUMENT } from "../services/policy";
+import { buildReport } from "../services/report";
+import { checkExpectations, loadTranscript, runTranscript } from "../services/transcript";
+import { installNodeWorker } from "./nodeWorker";
+import { loadPolicy, readData } from "./cli";
+
+// ============================================================================
+// HEADLESS INTERVIEW RUNNER
+//   npm run interview -- data/transcripts/strong-frontend.yaml
+// Plays a scripted transcript through the engine and prints the verdict, the
+// turns and the engine log. Exits with code 1 when the transcript's `expect`
+// block is not met, so transcripts double as policy regression checks.
+// ============================================================================
+
+const USAGE = `Usage: npm run interview -- <transcript.yaml|json> [options]
+  --policy <id|file>    Overrides the transcript's policy (default: the transcript's, else default)
+  --format <kind>       text | json (default text; json prints the final InterviewState)
+  --out <file>          Also write the final InterviewState (replayable event stream included)
+  --quiet               Omit the engine log from text output
+  --verbose             Show provider fallback warnings`;
+
+const formatLog = (entry: LogEntry) =>
+  `#${String(entry.seq).padStart(3, '0')} ${entry.turnIndex === null ? '  ' : `Q${entry.turnIndex + 1}`} ${entry.severity.padEnd(5)} [${entry.category}] ${entry.message}`;
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      policy: { type: 'string' },
+      format: { type: 'string', default: 'text' },
+      out: { type: 'string' },
+      quiet: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) throw new Error('Expected exactly one transcript file.');
+
+  // Every provider call fails on purpose; its warnings are noise here
+  if (!values.verbose) console.warn = () => {};
+  installNodeWorker();
+
+  const transcript = loadTranscript(readData(positionals[0]));
+  const policyRef = values.policy ?? transcript.policy;
+  const policy = policyRef ? loadPolicy(policyRef) : DEFAULT_POLICY_DOCUMENT;
+
+  const { state, answered, notes } = await runTranscript(transcript, policy);
+  const report = buildReport(state);
+  const failures = checkExpectations(report, transcript.expect);
+
+  if (values.out) writeFileSync(values.out, JSON.stringify(state, null, 2) + '\n');
+
+  if (values.format === 'json') {
+    console.log(JSON.stringify(state, null, 2));
+  } else {
+    const lines = [
+      `# ${transcript.name}`,
+      `Candidate: ${report.candidateName} | Role: ${report.roleTitle} | Policy: ${policy.id}@${policy.version} | Evaluator: ${transcript.evaluator}`,
+      '',
+      ...report.turns.map(t =>
+        `Q${t.index} ${t.targetSkill} (${t.difficulty})${t.followUps.length > 0 ? ` +${t.followUps.length} follow-up` : ''}${t.tests ? ` [${t.tests}]` : ''}: ` +
+        `base ${t.baseScore.toFixed(2)} -time ${t.timePenalty} -gap ${t.gapPenalty}${t.injectionPenalty > 0 ? ` -injection ${t.injectionPenalty}` : ''} = ${t.finalScore.toFixed(2)}`
+      ),
+      '',
+      `Status: ${report.status}${report.terminationReason ? ` (${report.terminationReason})` : ''}`,
+      `Average: ${report.averageScore.toFixed(2)} / passing ${report.passingThreshold}`,
+      `Verdict: ${report.passed ? 'PASS' : 'FAIL'}`,
+      `Answers used: ${answered} of ${transcript.answers.length}`,
+      ...notes.map(n => `Note: ${n}`),
+    ];
+    if (!values.quiet) lines.push('', '## Engine Log', ...state.logs.map(formatLog));
+    console.log(lines.join('\n'));
+  }
+
+  if (failures.length > 0) {
+    console.error(`Expectations not met:\n${failures.map(f => `  - ${f}`).join('\n')}`);
+    process.exitCode = 1;
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+});
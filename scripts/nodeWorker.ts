@@ -0,0 +1,60 @@
+import { Worker as ThreadWorker } from "node:worker_threads";
+
+// ============================================================================
+// WEB WORKER ADAPTER FOR NODE
+// The code sandbox (services/codeSandbox.ts) starts a browser Worker. Node has
+// none, so headless scripts install this adapter: each "Web Worker" is a
+// worker thread that exposes `self`, `postMessage` and `onmessage` like a
+// dedicated worker scope before importing the real entry module. The
+// thread registers the tsx loader first, so the TypeScript entry runs
+// unchanged; messages posted while it loads are queued until `onmessage` is set.
+// A worker thread keeps full Node access (process, env, node:fs, network), so
+// this is for trusted local transcripts only, never for a remote candidate's code.
+// ============================================================================
+
+// CommonJS bootstrap evaluated inside the thread
+const BOOTSTRAP = `
+const { parentPort, workerData } = require('node:worker_threads');
+let handler = null;
+const pending = [];
+const deliver = data => (handler ? handler({ data }) : pending.push(data));
+globalThis.self = globalThis;
+globalThis.postMessage = message => parentPort.postMessage(message);
+Object.defineProperty(globalThis, 'onmessage', {
+  get: () => handler,
+  set: h => { handler = h; pending.splice(0).forEach(deliver); },
+  configurable: true,
+});
+parentPort.on('message', deliver);
+import(workerData.tsxApi).then(tsx => tsx.register()).then(() => import(workerData.url));
+`;
+
+const TSX_API = import.meta.resolve('tsx/esm/api');
+
+class NodeWebWorker {
+  public onmessage: ((event: { data: unknown }) => void) | null = null;
+  public onerror: ((event: { message: string; preventDefault(): void }) => void) | null = null;
+  private thread: ThreadWorker;
+
+  constructor(url: URL | string) {
+    this.thread = new ThreadWorker(BOOTSTRAP, { eval: true, workerData: { url: url.toString(), tsxApi: TSX_API } });
+    this.thread.on('message', data => this.onmessage?.({ data }));
+    this.thread.on('error', err => this.onerror?.({ message: err.message, preventDefault: () => {} }));
+  }
+
+  postMessage(message: unknown) {
+    this.thread.postMessage(message);
+  }
+
+  terminate() {
+    void this.thread.terminate();
+  }
+}
+
+/**
+ * Makes `new Worker(...)` available to the code sandbox. No-op where Worker exists.
+ */
+export const installNodeWorker = () => {
+  if (typeof Worker !== 'undefined') return;
+  (globalThis as { Worker?: unknown }).Worker = NodeWebWorker;
+};
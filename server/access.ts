@@ -0,0 +1,80 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { AnswerDraft } from "../services/candidateView";
+
+// ============================================================================
+// SESSION ACCESS
+// Two capabilities per session. The session id alone is the candidate's: it
+// reaches the candidate view, answer submission and draft relay. The observer
+// token, handed only to whoever created the session, unlocks the full
+// InterviewState, interviewer actions and the candidate's live drafts.
+// Tokens are derived from the session id and a server secret, so a server
+// restarted with the same secret still recognizes them when an interviewer
+// restores a session it lost.
+// ============================================================================
+
+const MAX_DRAFT_CHARS = 50_000;
+
+// Fixed-length digests, so tokens of any length or encoding compare in constant time
+const digest = (token: string) => createHash('sha256').update(token, 'utf8').digest();
+
+export class SessionAccess {
+  private live = new Set<string>(); // Sessions whose tokens are honoured
+  private drafts = new Map<string, AnswerDraft>();
+  private draftListeners = new Map<string, Set<(draft: AnswerDraft) => void>>();
+
+  /**
+   * @param secret Key the tokens are derived from (default: random, so tokens die with the process).
+   */
+  constructor(private readonly secret: string | Buffer = randomBytes(32)) {}
+
+  /**
+   * Issues the observer token for a new (or restored) session.
+   */
+  public grant(sessionId: string): string {
+    this.live.add(sessionId);
+    return this.tokenFor(sessionId);
+  }
+
+  public canObserve(sessionId: string, token: string | null | undefined): boolean {
+    return this.live.has(sessionId) && this.issued(sessionId, token);
+  }
+
+  /**
+   * Whether token is the one this server issues for sessionId, even if the session is gone.
+   */
+  public issued(sessionId: string, token: string | null | undefined): boolean {
+    if (typeof token !== 'string') return false;
+    return timingSafeEqual(digest(token), digest(this.tokenFor(sessionId)));
+  }
+
+  public draft(sessionId: string): AnswerDraft | null {
+    return this.drafts.get(sessionId) ?? null;
+  }
+
+  /**
+   * Stores the candidate's latest draft and relays it to observers. Oversized drafts are ignored.
+   */
+  public setDraft(sessionId: string, questionId: string, text: string, at: number) {
+    if (text.length > MAX_DRAFT_CHARS) return;
+    const draft: AnswerDraft = { questionId, text, at };
+    this.drafts.set(sessionId, draft);
+    this.draftListeners.get(sessionId)?.forEach(cb => cb(draft));
+  }
+
+  public onDraft(sessionId: string, cb: (draft: AnswerDraft) => void) {
+    const listeners = this.draftListeners.get(sessionId) ?? new Set();
+    listeners.add(cb);
+    this.draftListeners.set(sessionId, listeners);
+    return () => { listeners.delete(cb); };
+  }
+
+  public forget(sessionId: string) {
+    this.live.delete(sessionId);
+    this.drafts.delete(sessionId);
+    this.draftListeners.delete(sessionId);
+  }
+
+  private tokenFor(sessionId: string): string {
+    return createHmac('sha256', this.secret).update(sessionId).digest('base64url');
+  }
+}
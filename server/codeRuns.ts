@@ -0,0 +1,133 @@
+import { CodeRunOutcome, CodeRunResult, CodingSpec } from "../types";
+import { CodeRunner } from "../services/codeSandbox";
+
+// ============================================================================
+// CODE RUN RELAY
+// Candidate code never runs on the server: a worker thread there has full
+// Node access (environment, files, network, process). A coding answer waits
+// here instead until an interviewer's browser, which sees every state change
+// and holds the hidden tests, runs it in its Web Worker sandbox and posts the
+// result. Each session has at most one run waiting. With no interviewer
+// watching, or no result in time, the run is UNAVAILABLE: the answer is scored
+// from the code review alone and the reason is its error.
+// ============================================================================
+
+// Allowance on top of the policy's run limit for delivery and the TypeScript compiler download
+const RUN_DELIVERY_MS = 10_000;
+
+const OUTCOMES: CodeRunOutcome[] = ['PASSED', 'FAILED', 'RUNTIME_ERROR', 'TIMEOUT', 'MEMORY_LIMIT', 'COMPILE_ERROR'];
+
+interface PendingRun {
+  spec: CodingSpec;
+  resolve: (result: CodeRunResult) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const notRun = (spec: CodingSpec, error: string): CodeRunResult => ({
+  outcome: 'UNAVAILABLE', passed: 0, total: spec.testCases.length, runtimeErrors: 0, error, cases: [],
+});
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Problems with a posted result, checked against the spec it claims to cover.
+ */
+const checkResult = (result: unknown, spec: CodingSpec): string[] => {
+  if (!result || typeof result !== 'object') return ['result must be an object'];
+  const r = result as Partial<CodeRunResult>;
+  const errors: string[] = [];
+  if (!OUTCOMES.includes(r.outcome as CodeRunOutcome)) errors.push(`outcome must be one of ${OUTCOMES.join(', ')}`);
+  if (r.total !== spec.testCases.length) errors.push(`total must be ${spec.testCases.length}`);
+  if (!isCount(r.passed) || r.passed > spec.testCases.length) errors.push('passed must be a count no larger than total');
+  if (!isCount(r.runtimeErrors)) errors.push('runtimeErrors must be a count');
+  if (r.error !== undefined && typeof r.error !== 'string') errors.push('error must be a string');
+  if (!Array.isArray(r.cases) || r.cases.length > spec.testCases.length) {
+    errors.push('cases must be an array with at most one entry per test case');
+  } else if (r.cases.some(c => !c || typeof c.name !== 'string' || typeof c.passed !== 'boolean' || typeof c.hidden !== 'boolean' || typeof c.durationMs !== 'number')) {
+    errors.push('every case needs name, hidden, passed and durationMs');
+  }
+  return errors;
+};
+
+// Only the known fields reach the engine's event stream
+const copyResult = ({ outcome, passed, total, runtimeErrors, error, cases }: CodeRunResult): CodeRunResult => ({
+  outcome, passed, total, runtimeErrors,
+  ...(error !== undefined ? { error } : {}),
+  cases: cases.map(({ name, hidden, passed, error, durationMs }) => ({ name, hidden, passed, ...(typeof error === 'string' ? { error } : {}), durationMs })),
+});
+
+export class CodeRunRelay {
+  private pending = new Map<string, PendingRun>();
+  private watchers = new Map<string, number>();
+
+  constructor(private readonly deliveryMs = RUN_DELIVERY_MS) {}
+
+  /**
+   * The session's code runner: resolves with the result an interviewer posts,
+   * or at once as UNAVAILABLE when no interviewer browser is watching.
+   */
+  public runnerFor(sessionId: string): CodeRunner {
+    return (spec, _source, policy) => new Promise<CodeRunResult>(resolve => {
+      this.settle(sessionId, 'Replaced by a newer submission');
+      if (!this.watchers.has(sessionId)) {
+        resolve(notRun(spec, 'No interviewer browser was open to run the tests'));
+        return;
+      }
+      const waitMs = policy.CODING.RUN_TIMEOUT_MS + this.deliveryMs;
+      const timer = setTimeout(() => {
+        this.settle(sessionId, `No interviewer browser ran the tests within ${waitMs / 1000}s`);
+      }, waitMs);
+      this.pending.set(sessionId, { spec, resolve, timer });
+    });
+  }
+
+  /**
+   * Registers an interviewer browser watching the session (one per observer
+   * socket). Returns the function that unregisters it; a run still waiting
+   * when the last one leaves is settled as UNAVAILABLE.
+   */
+  public watch(sessionId: string): () => void {
+    this.watchers.set(sessionId, (this.watchers.get(sessionId) ?? 0) + 1);
+    let watching = true;
+    return () => {
+      if (!watching) return;
+      watching = false;
+      const remaining = (this.watchers.get(sessionId) ?? 1) - 1;
+      if (remaining > 0) {
+        this.watchers.set(sessionId, remaining);
+        return;
+      }
+      this.watchers.delete(sessionId);
+      this.settle(sessionId, 'The interviewer browser closed before the tests ran');
+    };
+  }
+
+  public isWaiting(sessionId: string): boolean {
+    return this.pending.has(sessionId);
+  }
+
+  /**
+   * Accepts a result posted by an interviewer's browser. Returns why it was refused, or null.
+   */
+  public complete(sessionId: string, result: unknown): string | null {
+    const run = this.pending.get(sessionId);
+    if (!run) return `No code run is waiting for session '${sessionId}'.`;
+    const errors = checkResult(result, run.spec);
+    if (errors.length > 0) return `Invalid code run: ${errors.join('; ')}.`;
+    this.settle(sessionId, copyResult(result as CodeRunResult));
+    return null;
+  }
+
+  public forget(sessionId: string) {
+    this.settle(sessionId, 'Session closed before the tests ran');
+  }
+
+  // Resolves the waiting run with a result, or as not run for the given reason, and drops it
+  private settle(sessionId: string, result: CodeRunResult | string) {
+    const run = this.pending.get(sessionId);
+    if (!run) return;
+    clearTimeout(run.timer);
+    this.pending.delete(sessionId);
+    run.resolve(typeof result === 'string' ? notRun(run.spec, result) : result);
+  }
+}
@@ -0,0 +1,117 @@
+import { createServer, IncomingMessage } from "node:http";
+import { WebSocketServer, WebSocket } from "ws";
+import { InterviewState } from "../types";
+import { createProviderFromConfig } from "../services/llm";
+import { SessionRegistry } from "../services/sessionRegistry";
+import { toCandidateView } from "../services/candidateView";
+import { API_ROUTES, ClientMessage, ServerMessage } from "../services/apiClient";
+import { SessionAccess } from "./access";
+import { CodeRunRelay } from "./codeRuns";
+import { llmQuestionSource } from "./llmDeps";
+import { handleRequest, ServerContext } from "./routes";
+
+// ============================================================================
+// INTERVIEW SERVER
+//   npm run server              (PORT, default 8787)
+// Owns every session and the LLM credentials, so neither reaches the
+// candidate's browser. The provider is configured from the server's
+// environment (LLM_PROVIDER, API_KEY, OPENAI_BASE_URL, ...). The app
+// connects through the Vite dev server, which proxies /api and /ws here.
+// ============================================================================
+
+const PORT = Number(process.env.PORT ?? 8787);
+const SESSION_IDLE_MS = 2 * 60 * 60 * 1000; // Sessions without events for this long are dropped
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+const provider = createProviderFromConfig();
+const registry = new SessionRegistry({ questions: llmQuestionSource(provider) }); // Evaluators are per session (see routes.ts)
+const access = new SessionAccess(process.env.SESSION_SECRET || undefined); // Set it to restore sessions across restarts
+const codeRuns = new CodeRunRelay();
+const context: ServerContext = { registry, access, provider, codeRuns };
+
+const server = createServer((req, res) => {
+  void handleRequest(req, res, context);
+});
+
+// --- State Push ---
+// One socket per watcher: ws://host/ws?session=<id>&role=observer&token=<token>
+// gets every InterviewState and the candidate's drafts; role=candidate gets the
+// CandidateView and may send drafts.
+
+const sockets = new WebSocketServer({ server, path: API_ROUTES.SOCKET });
+
+const push = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const reject = (socket: WebSocket, error: string) => {
+  push(socket, { type: 'error', error });
+  socket.close();
+};
+
+const connect = (socket: WebSocket, req: IncomingMessage) => {
+  const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+  const id = query.get('session') ?? '';
+  const session = registry.get(id);
+  if (!session) return reject(socket, `Session '${id}' not found.`);
+
+  if (query.get('role') === 'observer') {
+    if (!access.canObserve(id, query.get('token'))) return reject(socket, `Observer token required for session '${id}'.`);
+    const send = (state: InterviewState) => push(socket, { type: 'state', state, serverTime: Date.now() });
+    const unsubscribe = session.engine.subscribe(send);
+    const stopDrafts = access.onDraft(id, draft => push(socket, { type: 'draft', draft }));
+    const unwatch = codeRuns.watch(id);
+    socket.on('close', () => { unsubscribe(); stopDrafts(); unwatch(); });
+    send(session.engine.getState());
+    const draft = access.draft(id);
+    if (draft) push(socket, { type: 'draft', draft });
+    return;
+  }
+
+  const send = (state: InterviewState) => push(socket, { type: 'view', view: toCandidateView(state), serverTime: Date.now() });
+  const unsubscribe = session.engine.subscribe(send);
+  socket.on('close', unsubscribe);
+  // Candidate messages are untrusted: anything malformed is ignored, nothing may throw
+  socket.on('message', data => {
+    let message: unknown;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    if (!message || typeof message !== 'object') return;
+    try {
+      const { type, questionId, text } = message as Partial<ClientMessage>;
+      // Drafts only count for the question on screen
+      const active = session.engine.getState().activeQuestion;
+      if (type === 'draft' && typeof text === 'string' && typeof questionId === 'string' && questionId === active?.id) {
+        access.setDraft(id, questionId, text, Date.now());
+      }
+    } catch (e: any) {
+      console.warn(`Ignored candidate message for session '${id}': ${e?.message ?? e}`);
+    }
+  });
+  send(session.engine.getState());
+};
+
+sockets.on('connection', (socket, req) => {
+  try {
+    connect(socket, req);
+  } catch (e: any) {
+    console.warn(`WebSocket connection failed: ${e?.message ?? e}`);
+    reject(socket, "Connection failed.");
+  }
+});
+
+setInterval(() => {
+  const pruned = registry.prune(SESSION_IDLE_MS);
+  pruned.forEach(id => {
+    access.forget(id);
+    codeRuns.forget(id);
+  });
+  if (pruned.length > 0) console.log(`Pruned ${pruned.length} idle session(s).`);
+}, PRUNE_INTERVAL_MS).unref();
+
+server.listen(PORT, () => {
+  console.log(`Interview server on http://localhost:${PORT} (provider: ${provider.name})`);
+});
@@ -0,0 +1,22 @@
+import { AnswerEvaluator, QuestionSource } from "../services/engineDeps";
+import { evaluateAnswer, generateQuestion } from "../services/llm";
+import { LLMProvider } from "../services/provider";
+import { CodeRunner } from "../services/codeSandbox";
+
+// ============================================================================
+// LLM COLLABORATORS
+// The engine's LLM-backed evaluator and question source (each with its
+// deterministic fallback). Built here only: anything the browser imports
+// must not reach the provider stack or its credentials.
+// ============================================================================
+
+/**
+ * @param runner Runs coding answers (the server relays them to a browser, see codeRuns.ts).
+ */
+export const llmEvaluator = (provider: LLMProvider, runner: CodeRunner): AnswerEvaluator => ({
+  evaluate: (question, answer, policy) => evaluateAnswer(question, answer, policy, provider, runner),
+});
+
+export const llmQuestionSource = (provider: LLMProvider): QuestionSource => ({
+  next: ({ jd, resume, difficulty, previousQuestions, seed }) => generateQuestion(jd, resume, difficulty, previousQuestions, seed, provider),
+});
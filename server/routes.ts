@@ -0,0 +1,310 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { InterviewState } from "../types";
+import { InterviewEngine, replay, SCORE_DIMENSIONS, TurnOverrideRequest } from "../services/engine";
+import { parseJD, parseResume } from "../services/llm";
+import { llmEvaluator } from "./llmDeps";
+import { EngineDependencies } from "../services/engineDeps";
+import { LLMProvider } from "../services/provider";
+import { SessionRegistry } from "../services/sessionRegistry";
+import { formatPolicyErrors, validatePolicyDocument } from "../services/policyValidator";
+import { toCandidateView } from "../services/candidateView";
+import { AnalyzeRequest, AnalyzeResponse, API_ROUTES, CodeRunRequest, CreatedSession, CurrentQuestion, OBSERVER_TOKEN_HEADER, PauseRequest, RestoreSessionRequest, SubmitAnswerRequest } from "../services/apiClient";
+import { SessionAccess } from "./access";
+import { CodeRunRelay } from "./codeRuns";
+
+// ============================================================================
+// REST ROUTES
+// Each route is a thin wrapper over one InterviewEngine call. Engine errors
+// (bad input, wrong status) become 400s with the engine's message; the
+// resulting state is also pushed to every WebSocket watching the session.
+// Interviewer routes need the observer token; candidate routes answer with a
+// CandidateView only.
+// ============================================================================
+
+const MAX_BODY_BYTES = 1_000_000;
+
+interface Reply {
+  status: number;
+  body?: unknown;
+}
+
+export interface ServerContext {
+  registry: SessionRegistry;
+  access: SessionAccess;
+  provider: LLMProvider;
+  codeRuns: CodeRunRelay;
+}
+
+interface RouteContext extends ServerContext {
+  params: string[];
+  body: any;
+  token: string | null; // Observer token sent with the request
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (ctx: RouteContext) => Promise<Reply> | Reply;
+}
+
+const ok = (body?: unknown): Reply => ({ status: body === undefined ? 204 : 200, body });
+const fail = (status: number, error: string): Reply => ({ status, body: { error } });
+
+const SESSION = (suffix = '') => new RegExp(`^${API_ROUTES.SESSIONS}/([^/]+)${suffix}$`);
+
+type EngineHandler = (engine: InterviewEngine, ctx: RouteContext & { id: string }) => Promise<Reply> | Reply;
+
+// Candidate routes: the session id is enough. Unknown sessions 404.
+const asCandidate = (handle: EngineHandler) => (ctx: RouteContext) => {
+  const id = decodeURIComponent(ctx.params[0]);
+  const session = ctx.registry.get(id);
+  return session ? handle(session.engine, { ...ctx, id }) : fail(404, `Session '${id}' not found.`);
+};
+
+// Interviewer routes: also need the session's observer token
+const asObserver = (handle: EngineHandler) => asCandidate((engine, ctx) =>
+  ctx.access.canObserve(ctx.id, ctx.token) ? handle(engine, ctx) : fail(403, `Observer token required for session '${ctx.id}'.`));
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`'${field}' must be a non-empty string.`);
+  return value;
+};
+
+const ADJUSTABLE_SCORES: string[] = [...SCORE_DIMENSIONS, 'finalScore'];
+
+/**
+ * Problems with the shape of a score override. Whether the turn exists and
+ * the session allows overrides is left to the engine.
+ */
+const checkOverride = (body: unknown): string[] => {
+  if (!body || typeof body !== 'object') return ['body must be an object'];
+  const { turnIndex, adjustment, justification, interviewer, recomputePath } = body as Partial<Record<keyof TurnOverrideRequest, unknown>>;
+  const errors: string[] = [];
+  if (!Number.isInteger(turnIndex) || (turnIndex as number) < 0) errors.push("'turnIndex' must be a non-negative integer");
+  if (!adjustment || typeof adjustment !== 'object' || Array.isArray(adjustment)) {
+    errors.push("'adjustment' must be an object of scores");
+  } else {
+    const scores = Object.entries(adjustment);
+    scores.filter(([key]) => !ADJUSTABLE_SCORES.includes(key))
+      .forEach(([key]) => errors.push(`'adjustment.${key}' is not a score (${ADJUSTABLE_SCORES.join(', ')})`));
+    scores.filter(([key, value]) => ADJUSTABLE_SCORES.includes(key) && (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 10))
+      .forEach(([key]) => errors.push(`'adjustment.${key}' must be a number from 0 to 10`));
+    if (scores.length === 0) errors.push("'adjustment' must set at least one score");
+  }
+  if (typeof justification !== 'string' || !justification.trim()) errors.push("'justification' must be a non-empty string");
+  if (typeof interviewer !== 'string' || !interviewer.trim()) errors.push("'interviewer' must be a non-empty string");
+  if (recomputePath !== undefined && typeof recomputePath !== 'boolean') errors.push("'recomputePath' must be a boolean");
+  return errors;
+};
+
+const analyze = async (engine: InterviewEngine, request: AnalyzeRequest, provider: LLMProvider): Promise<AnalyzeResponse> => {
+  const resumeText = requireText(request.resumeText, 'resumeText');
+  if (!request.jd) requireText(request.jdText, 'jdText');
+  const validation = validatePolicyDocument(request.policy);
+  if (validation.valid === false) {
+    throw new Error(`Invalid policy document:\n${formatPolicyErrors(validation.errors)}`);
+  }
+  if (engine.getState().status !== 'IDLE' || engine.getState().sessionId) {
+    throw new Error("Cannot analyze documents: Session already initialized.");
+  }
+
+  engine.startAnalysis();
+  try {
+    const [resume, jd] = await Promise.all([
+      parseResume(resumeText, provider),
+      request.jd ?? parseJD(request.jdText!, provider),
+    ]);
+    engine.initializeSession(jd, resume, validation.document);
+    return { state: engine.getState(), resume, jd };
+  } catch (e) {
+    engine.reset();
+    throw e;
+  }
+};
+
+// Coding answers are run by an interviewer's browser, never on the server
+const sessionDependencies = ({ provider, codeRuns }: ServerContext, sessionId: string): Partial<EngineDependencies> => ({
+  evaluator: llmEvaluator(provider, codeRuns.runnerFor(sessionId)),
+});
+
+// Rebuilds a session the server lost from the interviewer's saved event
+// stream. The state is replayed, not taken as sent, so it is consistent with
+// the events; an interrupted evaluation reopens its question.
+const restore = (ctx: RouteContext, id: string, request: RestoreSessionRequest): InterviewState => {
+  if (!Array.isArray(request.events)) throw new Error("'events' must be an array.");
+  const { elapsedSeconds } = request;
+  if (elapsedSeconds !== undefined && (typeof elapsedSeconds !== 'number' || !Number.isFinite(elapsedSeconds) || elapsedSeconds < 0)) {
+    throw new Error("'elapsedSeconds' must be a non-negative number.");
+  }
+  const snapshot = replay(request.events);
+  if (snapshot.sessionId !== null && snapshot.sessionId !== id) {
+    throw new Error(`Events belong to session '${snapshot.sessionId}', not '${id}'.`);
+  }
+  const { engine } = ctx.registry.restore(id, snapshot, elapsedSeconds, sessionDependencies(ctx, id));
+  ctx.access.grant(id);
+  return engine.getState();
+};
+
+// Moves a session from IDLE or GENERATING to its next question
+const advance = async (engine: InterviewEngine): Promise<InterviewState> => {
+  if (engine.getState().status === 'IDLE') engine.setGenerating();
+  await engine.generateNextQuestion();
+  return engine.getState();
+};
+
+const ROUTES: Route[] = [
+  {
+    method: 'POST', pattern: new RegExp(`^${API_ROUTES.SESSIONS}$`),
+    handle: ctx => {
+      const { registry, access } = ctx;
+      const { id, engine } = registry.create(sessionId => sessionDependencies(ctx, sessionId));
+      const created: CreatedSession = { id, observerToken: access.grant(id), state: engine.getState() };
+      return { status: 201, body: created };
+    },
+  },
+  {
+    method: 'GET', pattern: SESSION(),
+    handle: asObserver(engine => ok({ state: engine.getState(), serverTime: Date.now() })),
+  },
+  {
+    // Reattaches to a live session, or restores one the server no longer holds
+    method: 'PUT', pattern: SESSION(),
+    handle: ctx => {
+      const id = decodeURIComponent(ctx.params[0]);
+      if (!ctx.access.issued(id, ctx.token)) return fail(403, `Observer token required for session '${id}'.`);
+      const state = ctx.registry.get(id)?.engine.getState() ?? restore(ctx, id, (ctx.body ?? {}) as RestoreSessionRequest);
+      return ok({ state, serverTime: Date.now() });
+    },
+  },
+  {
+    method: 'DELETE', pattern: SESSION(),
+    handle: asObserver((_, { registry, access, codeRuns, id }) => {
+      registry.remove(id);
+      access.forget(id);
+      codeRuns.forget(id);
+      return ok();
+    }),
+  },
+  {
+    method: 'POST', pattern: SESSION('/analyze'),
+    handle: asObserver(async (engine, { body, provider }) => ok(await analyze(engine, body ?? {}, provider))),
+  },
+  {
+    method: 'POST', pattern: SESSION('/start'),
+    handle: asObserver(async engine => {
+      const { status } = engine.getState();
+      if (status !== 'IDLE' && status !== 'GENERATING') {
+        return fail(409, `Cannot start: Session is ${status}.`);
+      }
+      return ok(await advance(engine));
+    }),
+  },
+  {
+    method: 'GET', pattern: SESSION('/question'),
+    handle: asCandidate(engine => {
+      const current: CurrentQuestion = { ...toCandidateView(engine.getState()), elapsedSeconds: engine.elapsedSeconds() };
+      return ok(current);
+    }),
+  },
+  {
+    method: 'POST', pattern: SESSION('/answers'),
+    handle: asCandidate(async (engine, { body }) => {
+      const { answerText, timeTakenSeconds } = (body ?? {}) as SubmitAnswerRequest;
+      if (typeof answerText !== 'string') return fail(400, "'answerText' must be a string.");
+      if (engine.getState().status !== 'INTERVIEWING') {
+        return fail(409, `Cannot submit answer: Session is ${engine.getState().status}.`);
+      }
+      if (engine.isPaused()) return fail(409, "Cannot submit answer: The question is paused.");
+
+      await engine.submitAnswer({ answerText, timeTakenSeconds: typeof timeTakenSeconds === 'number' ? timeTakenSeconds : undefined });
+      if (engine.getState().status === 'GENERATING') await advance(engine);
+      return ok(toCandidateView(engine.getState()));
+    }),
+  },
+  {
+    method: 'POST', pattern: SESSION('/code-runs'),
+    handle: asObserver((engine, { body, codeRuns, id }) => {
+      const { questionId, result } = (body ?? {}) as CodeRunRequest;
+      const question = engine.getState().activeQuestion;
+      if (!codeRuns.isWaiting(id) || !question?.coding || question.id !== questionId) {
+        return fail(409, `No coding answer to question '${questionId}' is waiting for its tests.`);
+      }
+      const refused = codeRuns.complete(id, result);
+      return refused ? fail(400, refused) : ok();
+    }),
+  },
+  {
+    method: 'POST', pattern: SESSION('/pause'),
+    handle: asObserver((engine, { body }) => {
+      const { approvedBy, reason } = (body ?? {}) as PauseRequest;
+      engine.pauseQuestion({ approvedBy: requireText(approvedBy, 'approvedBy'), reason: typeof reason === 'string' ? reason : '' });
+      return ok(engine.getState());
+    }),
+  },
+  {
+    method: 'POST', pattern: SESSION('/resume'),
+    handle: asObserver(engine => {
+      engine.resumeQuestion();
+      return ok(engine.getState());
+    }),
+  },
+  {
+    method: 'POST', pattern: SESSION('/overrides'),
+    handle: asObserver((engine, { body }) => {
+      const errors = checkOverride(body);
+      if (errors.length > 0) return fail(400, `Invalid override: ${errors.join('; ')}.`);
+      engine.overrideTurn(body as TurnOverrideRequest);
+      return ok(engine.getState());
+    }),
+  },
+];
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes.`));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    const text = Buffer.concat(chunks).toString('utf8');
+    try {
+      resolve(text ? JSON.parse(text) : undefined);
+    } catch {
+      reject(new Error("Request body is not valid JSON."));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res: ServerResponse, { status, body }: Reply) => {
+  res.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+/**
+ * Routes one HTTP request. Unknown paths get a 404; thrown errors a 400 with their message.
+ */
+export const handleRequest = async (req: IncomingMessage, res: ServerResponse, server: ServerContext) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const candidates = ROUTES.filter(r => r.pattern.test(pathname));
+  const route = candidates.find(r => r.method === req.method);
+  if (!route) {
+    send(res, candidates.length > 0 ? fail(405, `Method ${req.method} not allowed on ${pathname}.`) : fail(404, `No route for ${pathname}.`));
+    return;
+  }
+
+  try {
+    const body = req.method === 'POST' || req.method === 'PUT' ? await readBody(req) : undefined;
+    const params = pathname.match(route.pattern)!.slice(1);
+    const token = req.headers[OBSERVER_TOKEN_HEADER.toLowerCase()];
+    send(res, await route.handle({ ...server, params, body, token: typeof token === 'string' ? token : null }));
+  } catch (e: any) {
+    send(res, fail(400, e.message ?? String(e)));
+  }
+};
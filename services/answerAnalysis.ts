@@ -0,0 +1,209 @@
+// ============================================================================
+// ANSWER ANALYSIS
+// Text features for the deterministic evaluator: stemmed keyword/synonym
+// matching, negation detection ("not reconciliation" is not a hit), and
+// sentence structure. Keywords only count inside real sentences, so a pasted
+// keyword list cannot pass as an answer, even wrapped in filler sentences.
+// ============================================================================
+
+export type ConceptStatus = 'MATCHED' | 'NEGATED' | 'LISTED' | 'MISSED'; // LISTED: only found in a keyword list
+
+export interface ConceptMatch {
+  keyword: string;
+  status: ConceptStatus;
+  matchedAs: string | null; // The keyword or synonym that was found
+}
+
+export interface AnswerAnalysis {
+  wordCount: number;
+  sentenceCount: number;
+  wellFormedSentences: number; // Sentences with enough words and some function words
+  creditedSentences: number;   // Well-formed sentences that are not keyword lists; only their keywords count
+  avgSentenceLength: number;
+  connectorCount: number;      // because, therefore, for example, ...
+  concepts: ConceptMatch[];
+  keywordDensity: number;      // Share of words that belong to expected keywords
+  isKeywordStuffing: boolean;
+}
+
+/**
+ * Alternative phrasings for common expected keywords. Keys and values are
+ * stemmed before matching, so inflections ("batched", "batches") are covered.
+ */
+export const SYNONYMS: Record<string, string[]> = {
+  'diffing': ['diff', 'compare trees', 'comparison'],
+  'reconciliation': ['reconcile', 'reconciler', 'fiber'],
+  'batching': ['batch', 'group updates', 'coalesce'],
+  'memory': ['ram', 'heap', 'allocation'],
+  'scope': ['environment', 'context'],
+  'lexical': ['static scope', 'where it was defined', 'enclosing'],
+  'function': ['callback', 'closure'],
+  'promise': ['future', 'thenable'],
+  'callback': ['continuation', 'handler'],
+  'async': ['asynchronous', 'non-blocking'],
+  'await': ['awaiting'],
+  'expiration': ['expire', 'expiry', 'ttl', 'lifetime'],
+  'server': ['backend', 'http request', 'sent with requests'],
+  'capacity': ['size limit', 'storage limit', 'quota', 'mb', 'kb'],
+  'persistent': ['persist', 'survives', 'durable', 'until cleared'],
+  'cache': ['caching', 'memoize', 'memoization'],
+  'idempotent': ['idempotency', 'safe to retry'],
+  'latency': ['response time', 'delay'],
+  'scaling': ['scale', 'scalability', 'horizontal'],
+  'index': ['indexes', 'indices', 'b-tree'],
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', 'without', 'neither', 'nor', 'cannot', 'isnt', 'arent', 'doesnt', 'dont', 'didnt', 'wont', 'wasnt', 'lacks', 'avoids']);
+// A negator governs the rest of its clause. Words right after it always do; further on, one of
+// these ends its reach ("avoids re-renders by batching", "does not rebuild the tree in memory")
+const NEGATION_NEAR = 3;
+const NEGATION_STOPS = new Set(['by', 'via', 'through', 'using', 'instead', 'then', 'in', 'into', 'on', 'at', 'from', 'for', 'with']);
+
+const FUNCTION_WORDS = new Set(['the', 'a', 'an', 'is', 'are', 'was', 'be', 'to', 'of', 'in', 'it', 'this', 'that', 'which', 'when', 'and', 'so', 'for', 'with', 'by', 'on', 'can', 'will', 'you', 'we', 'i']);
+const CONNECTORS = ['because', 'therefore', 'however', 'so that', 'which means', 'for example', 'for instance', 'such as', 'instead', 'whereas', 'first', 'then', 'finally', 'as a result', 'this means', 'in contrast'];
+
+const MIN_SENTENCE_WORDS = 4;
+const STUFFING_DENSITY = 0.5; // A sentence more than half keywords is a list, not an explanation
+const MAX_LIST_ITEM_WORDS = 2; // "call stack, microtask, promise": most comma-separated parts this short
+
+const SUFFIX_RULES: [RegExp, string][] = [
+  [/ational$/, 'ate'], [/ization$/, 'ize'], [/ation$/, 'ate'], [/tional$/, 'tion'],
+  [/iveness$/, 'ive'], [/fulness$/, 'ful'], [/ously$/, 'ous'], [/ness$/, ''], [/ment$/, ''],
+  [/ingly$/, ''], [/edly$/, ''], [/ing$/, ''], [/ed$/, ''], [/ly$/, ''], [/er$/, ''], [/e$/, ''],
+];
+
+/**
+ * Light suffix-stripping stemmer. It only has to map inflections of the same
+ * word onto one form consistently; it is applied to keywords and answers alike.
+ */
+export const stem = (word: string): string => {
+  let w = word.toLowerCase();
+  if (w.length <= 3) return w;
+
+  // 1. Plurals
+  w = w.replace(/sses$/, 'ss').replace(/ies$/, 'y').replace(/([^s])s$/, '$1');
+
+  // 2. First matching derivational / inflectional suffix
+  const rule = SUFFIX_RULES.find(([pattern]) => pattern.test(w));
+  if (rule) {
+    const next = w.replace(rule[0], rule[1]);
+    if (next.length >= 3) w = next;
+  }
+
+  // 3. Doubled final consonants left behind ("batting" -> "batt" -> "bat")
+  return w.replace(/([^aeiouls])\1$/, '$1');
+};
+
+// Hyphenated words split into parts ("in-memory" -> in, memory); dotted names stay whole ("node.js")
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[’']/g, '').match(/[a-z0-9+#]+(?:\.[a-z0-9+#]+)*/g) ?? [];
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+// Clause boundaries stop negation from leaking across ", but", "and" and the like
+const splitClauses = (sentence: string): string[] =>
+  sentence.split(/[,;:()]|\b(?:but|however|and|because|although|though|while|whereas|which|since|so|unlike)\b/i).filter(Boolean);
+
+// Mostly one- or two-word parts between commas: an enumeration rather than a sentence
+const isList = (sentence: string): boolean => {
+  const parts = sentence.split(/[,;:]/).map(tokenize).filter(p => p.length > 0);
+  return parts.length >= 3 && parts.filter(p => p.length <= MAX_LIST_ITEM_WORDS).length > parts.length / 2;
+};
+
+const findPhrase = (haystack: string[], needle: string[]): number => {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (haystack[i + j] !== needle[j]) continue outer;
+    return i;
+  }
+  return -1;
+};
+
+interface Clause {
+  raw: string[];
+  stems: string[];
+  credited: boolean; // Part of a sentence whose keywords count
+}
+
+const variantsOf = (keyword: string) => [keyword, ...(SYNONYMS[keyword.toLowerCase()] ?? [])];
+
+// Whether a negator earlier in the clause still governs the word at `at`
+const isNegated = (raw: string[], at: number): boolean => {
+  let negator = at - 1;
+  while (negator >= 0 && !NEGATORS.has(raw[negator])) negator--;
+  if (negator < 0) return false;
+  return at - negator <= NEGATION_NEAR || !raw.slice(negator + 1, at).some(w => NEGATION_STOPS.has(w));
+};
+
+const matchConcept = (keyword: string, clauses: Clause[]): ConceptMatch => {
+  let negatedAs: string | null = null;
+  let listedAs: string | null = null;
+
+  for (const variant of variantsOf(keyword)) {
+    const needle = tokenize(variant).map(stem);
+    if (needle.length === 0) continue;
+    for (const clause of clauses) {
+      const at = findPhrase(clause.stems, needle);
+      if (at < 0) continue;
+      if (!clause.credited) {
+        listedAs = listedAs ?? variant;
+      } else if (isNegated(clause.raw, at)) {
+        negatedAs = negatedAs ?? variant;
+      } else {
+        return { keyword, status: 'MATCHED', matchedAs: variant };
+      }
+    }
+  }
+  if (negatedAs) return { keyword, status: 'NEGATED', matchedAs: negatedAs };
+  return listedAs ? { keyword, status: 'LISTED', matchedAs: listedAs } : { keyword, status: 'MISSED', matchedAs: null };
+};
+
+// Words of `stems` that belong to an occurrence of any needle
+const coveredWords = (stems: string[], needles: string[][]): number => {
+  const covered = new Set<number>();
+  needles.forEach(needle => {
+    for (let i = 0; i + needle.length <= stems.length; i++) {
+      if (needle.every((w, j) => stems[i + j] === w)) needle.forEach((_, j) => covered.add(i + j));
+    }
+  });
+  return covered.size;
+};
+
+export const analyzeAnswer = (answer: string, keywords: string[]): AnswerAnalysis => {
+  const words = tokenize(answer);
+  const needles = keywords.flatMap(variantsOf).map(v => tokenize(v).map(stem)).filter(n => n.length > 0);
+
+  // Density and structure are judged per sentence, so filler around a list does not dilute it
+  const sentences = splitSentences(answer).map(text => {
+    const tokens = tokenize(text);
+    const wellFormed = tokens.length >= MIN_SENTENCE_WORDS && tokens.some(t => FUNCTION_WORDS.has(t));
+    const keywordWords = coveredWords(tokens.map(stem), needles);
+    const density = tokens.length > 0 ? keywordWords / tokens.length : 0;
+    return { text, keywordWords, wellFormed, credited: wellFormed && density <= STUFFING_DENSITY && !isList(text) };
+  });
+  const clauses: Clause[] = sentences.flatMap(s => splitClauses(s.text).map(c => {
+    const raw = tokenize(c);
+    return { raw, stems: raw.map(stem), credited: s.credited };
+  }));
+
+  const lower = answer.toLowerCase();
+  const connectorCount = CONNECTORS.filter(c => new RegExp(`\\b${c}\\b`).test(lower)).length;
+
+  const concepts = keywords.map(k => matchConcept(k, clauses));
+  const matched = concepts.filter(c => c.status === 'MATCHED').length;
+  const listed = concepts.filter(c => c.status === 'LISTED').length;
+  const keywordWords = sentences.reduce((sum, s) => sum + s.keywordWords, 0);
+
+  return {
+    wordCount: words.length,
+    sentenceCount: sentences.length,
+    wellFormedSentences: sentences.filter(s => s.wellFormed).length,
+    creditedSentences: sentences.filter(s => s.credited).length,
+    avgSentenceLength: sentences.length > 0 ? words.length / sentences.length : 0,
+    connectorCount,
+    concepts,
+    keywordDensity: words.length > 0 ? keywordWords / words.length : 0,
+    // Most of the concepts it names appear only in lists
+    isKeywordStuffing: listed > 0 && listed >= matched,
+  };
+};
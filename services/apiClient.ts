@@ -0,0 +1,261 @@
+import { CodeRunResult, EngineEvent, InterviewState, JobDescriptionData, ResumeData } from "../types";
+import { INTERVIEW_POLICY, PolicyDocument } from "./policy";
+import { runCode } from "./codeSandbox";
+import { AnswerDraft, CandidateView } from "./candidateView";
+import type { TurnOverrideRequest } from "./engine";
+
+// ============================================================================
+// INTERVIEW SERVER CLIENT
+// The browser's side of server/index.ts. Sessions, scoring and the LLM
+// credentials live on the server; the client sends documents and answers
+// over REST and receives every InterviewState change over a WebSocket.
+// Interviewer calls carry the session's observer token (server/access.ts);
+// the candidate's screen has only the session id and gets a CandidateView.
+// ============================================================================
+
+// --- Wire Protocol ---
+
+export interface AnalyzeRequest {
+  resumeText: string;
+  jdText?: string;          // Parsed on the server...
+  jd?: JobDescriptionData;  // ...unless already parsed (requisitions)
+  policy: PolicyDocument;   // Validated on the server before it is bound
+}
+
+export interface AnalyzeResponse {
+  state: InterviewState;
+  resume: ResumeData;
+  jd: JobDescriptionData;
+}
+
+export interface CreatedSession {
+  id: string;
+  observerToken: string; // Required for every interviewer call on this session
+  state: InterviewState;
+}
+
+// The interviewer's saved copy of a session, for a server that lost it
+export interface RestoreSessionRequest {
+  events: EngineEvent[];
+  elapsedSeconds?: number; // Already spent on the active question
+}
+
+export interface CurrentQuestion extends CandidateView {
+  elapsedSeconds: number | null; // By the server's clock
+}
+
+export interface SubmitAnswerRequest {
+  answerText: string;
+  timeTakenSeconds?: number; // The client's own measurement; only cross-checked
+}
+
+// Test results of the coding answer being evaluated, run in an interviewer's browser
+export interface CodeRunRequest {
+  questionId: string;
+  result: CodeRunResult;
+}
+
+export interface PauseRequest {
+  approvedBy: string;
+  reason: string;
+}
+
+export type SocketRole = 'observer' | 'candidate';
+
+// Pushed on connect and after every engine event; observers also get each draft
+export type ServerMessage =
+  | { type: 'state'; state: InterviewState; serverTime: number }  // Observers
+  | { type: 'view'; view: CandidateView; serverTime: number }     // Candidates
+  | { type: 'draft'; draft: AnswerDraft }                          // Observers
+  | { type: 'error'; error: string };
+
+// Sent by the candidate's screen while they type
+export type ClientMessage = { type: 'draft'; questionId: string; text: string };
+
+export const OBSERVER_TOKEN_HEADER = 'X-Observer-Token';
+
+export const API_ROUTES = {
+  SESSIONS: '/api/sessions',
+  SESSION: (id: string) => `/api/sessions/${encodeURIComponent(id)}`,
+  ANALYZE: (id: string) => `/api/sessions/${encodeURIComponent(id)}/analyze`,
+  START: (id: string) => `/api/sessions/${encodeURIComponent(id)}/start`,
+  QUESTION: (id: string) => `/api/sessions/${encodeURIComponent(id)}/question`,
+  ANSWERS: (id: string) => `/api/sessions/${encodeURIComponent(id)}/answers`,
+  PAUSE: (id: string) => `/api/sessions/${encodeURIComponent(id)}/pause`,
+  RESUME: (id: string) => `/api/sessions/${encodeURIComponent(id)}/resume`,
+  OVERRIDES: (id: string) => `/api/sessions/${encodeURIComponent(id)}/overrides`,
+  CODE_RUNS: (id: string) => `/api/sessions/${encodeURIComponent(id)}/code-runs`,
+  SOCKET: '/ws',
+};
+
+// --- Client ---
+
+export class InterviewClient {
+  /**
+   * @param baseUrl Server origin; empty for the page's own origin (the Vite dev server proxies /api and /ws).
+   */
+  constructor(private readonly baseUrl: string = '') {}
+
+  private tokens = new Map<string, string>(); // Observer tokens by session id
+  private codeRunsStarted = new Set<string>(); // Submissions this client already ran, by session id and event seq
+
+  /**
+   * Makes later calls on this session as its observer (e.g. a token from a shared link).
+   */
+  public authorize(id: string, observerToken: string) {
+    this.tokens.set(id, observerToken);
+  }
+
+  private async request<T>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown, sessionId?: string): Promise<T> {
+    const token = sessionId ? this.tokens.get(sessionId) : undefined;
+    const response = await fetch(this.baseUrl + path, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        ...(token ? { [OBSERVER_TOKEN_HEADER]: token } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const payload = response.status === 204 ? null : await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(payload?.error ?? `Server responded ${response.status} ${response.statusText}`);
+    }
+    return payload as T;
+  }
+
+  public async createSession() {
+    const created = await this.request<CreatedSession>('POST', API_ROUTES.SESSIONS);
+    this.authorize(created.id, created.observerToken);
+    return created;
+  }
+
+  public getSession(id: string) {
+    return this.request<{ state: InterviewState, serverTime: number }>('GET', API_ROUTES.SESSION(id), undefined, id);
+  }
+
+  /**
+   * Reattaches to the session, restoring it on the server first if it was lost (restart, idle pruning).
+   */
+  public restoreSession(id: string, request: RestoreSessionRequest) {
+    return this.request<{ state: InterviewState, serverTime: number }>('PUT', API_ROUTES.SESSION(id), request, id);
+  }
+
+  public removeSession(id: string) {
+    return this.request<null>('DELETE', API_ROUTES.SESSION(id), undefined, id);
+  }
+
+  public analyze(id: string, request: AnalyzeRequest) {
+    return this.request<AnalyzeResponse>('POST', API_ROUTES.ANALYZE(id), request, id);
+  }
+
+  /**
+   * Presents the first question, or retries generation after a failed one.
+   */
+  public start(id: string) {
+    return this.request<InterviewState>('POST', API_ROUTES.START(id), undefined, id);
+  }
+
+  public currentQuestion(id: string) {
+    return this.request<CurrentQuestion>('GET', API_ROUTES.QUESTION(id));
+  }
+
+  /**
+   * Resolves once the answer is scored and, between turns, the next question presented.
+   */
+  public submitAnswer(id: string, request: SubmitAnswerRequest) {
+    return this.request<CandidateView>('POST', API_ROUTES.ANSWERS(id), request);
+  }
+
+  public pause(id: string, request: PauseRequest) {
+    return this.request<InterviewState>('POST', API_ROUTES.PAUSE(id), request, id);
+  }
+
+  public resume(id: string) {
+    return this.request<InterviewState>('POST', API_ROUTES.RESUME(id), undefined, id);
+  }
+
+  public override(id: string, request: TurnOverrideRequest) {
+    return this.request<InterviewState>('POST', API_ROUTES.OVERRIDES(id), request, id);
+  }
+
+  public submitCodeRun(id: string, request: CodeRunRequest) {
+    return this.request<null>('POST', API_ROUTES.CODE_RUNS(id), request, id);
+  }
+
+  /**
+   * Runs the coding answer the server is evaluating, if any, in this browser's
+   * sandbox with the hidden tests and posts the result. Call with every state
+   * an observer receives; each submission is run once per client, and a
+   * result another interviewer already posted is not an error.
+   */
+  public async runPendingCode(state: InterviewState) {
+    const question = state.activeQuestion;
+    const submitted = state.events[state.events.length - 1];
+    if (!state.sessionId || state.status !== 'EVALUATING' || !question?.coding || submitted?.type !== 'ANSWER_SUBMITTED') return;
+    const key = `${state.sessionId}:${submitted.seq}`;
+    if (this.codeRunsStarted.has(key)) return;
+    this.codeRunsStarted.add(key);
+
+    const init = state.events.find(e => e.type === 'SESSION_INITIALIZED');
+    const policy = init?.type === 'SESSION_INITIALIZED' ? init.policy.policy : INTERVIEW_POLICY;
+    try {
+      const result = await runCode(question.coding, submitted.answerText, policy);
+      await this.submitCodeRun(state.sessionId, { questionId: question.id, result });
+    } catch (e: any) {
+      console.warn(`Code run for session ${state.sessionId} not delivered:`, e.message);
+    }
+  }
+
+  private connect(id: string, role: SocketRole, onMessage: (message: ServerMessage) => void) {
+    const token = role === 'observer' ? this.tokens.get(id) : undefined;
+    const query = `session=${encodeURIComponent(id)}&role=${role}${token ? `&token=${encodeURIComponent(token)}` : ''}`;
+    const origin = this.baseUrl || window.location.origin;
+    const socket = new WebSocket(new URL(`${API_ROUTES.SOCKET}?${query}`, origin.replace(/^http/, 'ws')));
+    let closed = false; // Drops messages still queued when the caller stops watching
+    socket.onmessage = event => {
+      if (!closed) onMessage(JSON.parse(event.data) as ServerMessage);
+    };
+    return {
+      socket,
+      close: () => {
+        closed = true;
+        socket.close();
+      },
+    };
+  }
+
+  /**
+   * Streams a session's full state (observer token required). `clockOffsetMs`
+   * is server time minus local time at receipt, for displaying the engine's
+   * question clock. Returns a function that closes the stream.
+   */
+  public watch(id: string, handlers: {
+    onState: (state: InterviewState, clockOffsetMs: number) => void,
+    onDraft?: (draft: AnswerDraft) => void,
+    onError?: (message: string) => void,
+  }) {
+    return this.connect(id, 'observer', message => {
+      if (message.type === 'state') handlers.onState(message.state, message.serverTime - Date.now());
+      else if (message.type === 'draft') handlers.onDraft?.(message.draft);
+      else if (message.type === 'error') handlers.onError?.(message.error);
+    }).close;
+  }
+
+  /**
+   * Streams the candidate's view of a session and relays their drafts to observers.
+   */
+  public watchAsCandidate(id: string, handlers: {
+    onView: (view: CandidateView, clockOffsetMs: number) => void,
+    onError?: (message: string) => void,
+  }) {
+    const { socket, close } = this.connect(id, 'candidate', message => {
+      if (message.type === 'view') handlers.onView(message.view, message.serverTime - Date.now());
+      else if (message.type === 'error') handlers.onError?.(message.error);
+    });
+    const sendDraft = (questionId: string, text: string) => {
+      const message: ClientMessage = { type: 'draft', questionId, text };
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+    return { close, sendDraft };
+  }
+}
@@ -0,0 +1,296 @@
+import { EvaluationCriteria, Question } from "../types";
+import { INTERVIEW_POLICY, InterviewPolicy } from "./policy";
+import { LLMProvider, ProviderEvaluation } from "./provider";
+import { FallbackRegistry, FALLBACK_PROVIDER_NAME } from "./fallback";
+import { QuestionBank, questionBank, toQuestion } from "./questionBank";
+import { LogicCore } from "./engine";
+
+// ============================================================================
+// EVALUATOR CALIBRATION
+// Runs an evaluator over answers that humans already scored and measures how
+// far it is from them: mean absolute error, rank correlation and bias per
+// dimension, plus how many answers land on the other side of the policy's
+// WEAK_SCORE / STRONG_SCORE lines (those are the scores that move difficulty
+// and strikes). Headless; see scripts/calibrate.ts.
+// ============================================================================
+
+export const CALIBRATION_SCHEMA_VERSION = 1;
+
+const DIMENSIONS = ['accuracy', 'clarity', 'depth', 'relevance'] as const;
+
+type Dimension = typeof DIMENSIONS[number];
+
+export interface LabelledAnswer {
+  id: string;
+  questionId: string; // Prose question from the offline bank
+  answer: string;
+  labels: EvaluationCriteria; // Human-assigned, 0-10
+  note?: string;              // Why the labeller scored it this way
+}
+
+export interface CalibrationDataset {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  items: LabelledAnswer[];
+  baselineFlips?: Record<string, number>; // Verdict flips accepted per evaluator name; more fail the run
+}
+
+// Evaluator responses captured from a live run, replayed offline by recordedEvaluator
+export interface CalibrationRecording {
+  schemaVersion: number;
+  evaluator: string;
+  datasetId: string;
+  recordedAt: string;
+  responses: Record<string, ProviderEvaluation>; // By item id
+}
+
+export interface CalibrationEvaluator {
+  readonly name: string;
+  evaluate(item: LabelledAnswer, question: Question, policy: InterviewPolicy): Promise<ProviderEvaluation>;
+}
+
+export type Verdict = 'WEAK' | 'MIDDLE' | 'STRONG';
+
+export interface DimensionStats {
+  dimension: Dimension | 'total';
+  mae: number;
+  bias: number;              // Mean of (evaluator - human); positive = too generous
+  spearman: number | null;   // Null when either side has no variance
+}
+
+export interface CalibrationItemResult {
+  id: string;
+  questionId: string;
+  human: EvaluationCriteria & { total: number };
+  predicted: EvaluationCriteria & { total: number };
+  humanVerdict: Verdict;
+  predictedVerdict: Verdict;
+}
+
+export interface CalibrationReport {
+  datasetId: string;
+  evaluator: string;
+  policy: { weakScore: number; strongScore: number };
+  scored: number;
+  failures: { id: string; error: string }[];
+  dimensions: DimensionStats[];
+  flips: CalibrationItemResult[]; // Verdict differs between human and evaluator
+  items: CalibrationItemResult[];
+  responses: Record<string, ProviderEvaluation>; // Raw evaluator output, for --record
+}
+
+// --- Dataset ---
+
+const isScore = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 10;
+
+/**
+ * Validates a dataset against the question bank. Throws with every violation listed.
+ */
+export const loadCalibrationDataset = (raw: unknown, bank: QuestionBank = questionBank): CalibrationDataset => {
+  const d = (raw && typeof raw === 'object' ? raw : {}) as Partial<CalibrationDataset>;
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  if (d.schemaVersion !== CALIBRATION_SCHEMA_VERSION) errors.push(`schemaVersion must be ${CALIBRATION_SCHEMA_VERSION}`);
+  if (typeof d.id !== 'string' || d.id.length === 0) errors.push('id must be a non-empty string');
+  if (!Array.isArray(d.items) || d.items.length === 0) errors.push('items must be a non-empty array');
+  if (d.baselineFlips !== undefined) {
+    const valid = typeof d.baselineFlips === 'object' && d.baselineFlips !== null
+      && Object.values(d.baselineFlips).every(n => Number.isInteger(n) && n >= 0);
+    if (!valid) errors.push('baselineFlips must map evaluator names to non-negative integers');
+  }
+
+  (d.items ?? []).forEach((item, i) => {
+    const where = `items[${i}]`;
+    if (typeof item.id !== 'string' || item.id.length === 0) errors.push(`${where}.id must be a non-empty string`);
+    else if (seen.has(item.id)) errors.push(`${where}.id '${item.id}' is duplicated`);
+    else seen.add(item.id);
+
+    const question = typeof item.questionId === 'string' ? bank.get(item.questionId) : null;
+    if (!question) errors.push(`${where}.questionId '${item.questionId}' is not in the question bank`);
+    else if (question.coding) errors.push(`${where}.questionId '${item.questionId}' is a coding question; those are scored by tests`);
+
+    if (typeof item.answer !== 'string') errors.push(`${where}.answer must be a string`);
+    DIMENSIONS.forEach(dim => {
+      if (!isScore(item.labels?.[dim])) errors.push(`${where}.labels.${dim} must be a number between 0 and 10`);
+    });
+  });
+
+  if (errors.length > 0) throw new Error(`Invalid calibration dataset '${d.id ?? '<unknown>'}':\n${errors.join('\n')}`);
+  return d as CalibrationDataset;
+};
+
+// --- Evaluators ---
+
+export const deterministicEvaluator: CalibrationEvaluator = {
+  name: FALLBACK_PROVIDER_NAME,
+  evaluate: async (item, question, policy) => FallbackRegistry.evaluate(question, item.answer, policy),
+};
+
+/**
+ * A live provider, without the fallback: failed calls are reported, not hidden.
+ */
+export const providerEvaluator = (provider: LLMProvider): CalibrationEvaluator => ({
+  name: provider.name,
+  evaluate: (item, question, policy) => provider.evaluateAnswer(question, item.answer, policy),
+});
+
+/**
+ * Stand-in for an LLM: replays responses recorded by an earlier live run.
+ */
+export const recordedEvaluator = (recording: CalibrationRecording): CalibrationEvaluator => ({
+  name: `recorded:${recording.evaluator}`,
+  evaluate: async item => {
+    const response = recording.responses[item.id];
+    if (!response) throw new Error(`No recorded response for '${item.id}'.`);
+    return response;
+  },
+});
+
+// --- Statistics ---
+
+const round = (n: number) => Number(n.toFixed(3));
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * 1-based ranks; ties share the average of the ranks they span.
+ */
+const ranks = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].index] = rank;
+    start = end + 1;
+  }
+  return result;
+};
+
+const pearson = (xs: number[], ys: number[]): number | null => {
+  const mx = mean(xs);
+  const my = mean(ys);
+  const cov = xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0);
+  const vx = xs.reduce((sum, x) => sum + (x - mx) ** 2, 0);
+  const vy = ys.reduce((sum, y) => sum + (y - my) ** 2, 0);
+  return vx === 0 || vy === 0 ? null : cov / Math.sqrt(vx * vy);
+};
+
+export const spearman = (xs: number[], ys: number[]): number | null =>
+  xs.length < 2 ? null : pearson(ranks(xs), ranks(ys));
+
+const statsFor = (dimension: DimensionStats['dimension'], human: number[], predicted: number[]): DimensionStats => {
+  const diffs = predicted.map((p, i) => p - human[i]);
+  const rho = spearman(human, predicted);
+  return {
+    dimension,
+    mae: round(mean(diffs.map(Math.abs))),
+    bias: round(mean(diffs)),
+    spearman: rho === null ? null : round(rho),
+  };
+};
+
+export const verdictFor = (score: number, policy: InterviewPolicy = INTERVIEW_POLICY): Verdict => {
+  const { WEAK_SCORE, STRONG_SCORE } = policy.SCORING;
+  return score <= WEAK_SCORE ? 'WEAK' : score >= STRONG_SCORE ? 'STRONG' : 'MIDDLE';
+};
+
+// --- Harness ---
+
+/**
+ * Scores every item sequentially (keeps rate-limited providers happy). Totals
+ * use the policy's dimension weights, exactly as the engine's base score.
+ */
+export const runCalibration = async (
+  dataset: CalibrationDataset,
+  evaluator: CalibrationEvaluator,
+  policy: InterviewPolicy = INTERVIEW_POLICY,
+  bank: QuestionBank = questionBank,
+): Promise<CalibrationReport> => {
+  const items: CalibrationItemResult[] = [];
+  const failures: CalibrationReport['failures'] = [];
+  const responses: CalibrationReport['responses'] = {};
+
+  for (const item of dataset.items) {
+    const question = toQuestion(bank.get(item.questionId)!);
+    try {
+      const response = await evaluator.evaluate(item, question, policy);
+      const predicted: EvaluationCriteria = { accuracy: response.accuracy, clarity: response.clarity, depth: response.depth, relevance: response.relevance };
+      if (!DIMENSIONS.every(dim => isScore(predicted[dim]))) throw new Error('Evaluator returned scores outside 0-10.');
+
+      responses[item.id] = { ...predicted, feedback: response.feedback };
+      const human = { ...item.labels, total: LogicCore.calculateScore(item.labels, policy) };
+      const scored = { ...predicted, total: LogicCore.calculateScore(predicted, policy) };
+      items.push({
+        id: item.id,
+        questionId: item.questionId,
+        human,
+        predicted: scored,
+        humanVerdict: verdictFor(human.total, policy),
+        predictedVerdict: verdictFor(scored.total, policy),
+      });
+    } catch (error) {
+      failures.push({ id: item.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const column = (side: 'human' | 'predicted', key: Dimension | 'total') => items.map(i => i[side][key]);
+  const dimensions = items.length === 0 ? [] : ([...DIMENSIONS, 'total'] as const).map(dim => statsFor(dim, column('human', dim), column('predicted', dim)));
+
+  return {
+    datasetId: dataset.id,
+    evaluator: evaluator.name,
+    policy: { weakScore: policy.SCORING.WEAK_SCORE, strongScore: policy.SCORING.STRONG_SCORE },
+    scored: items.length,
+    failures,
+    dimensions,
+    flips: items.filter(i => i.humanVerdict !== i.predictedVerdict),
+    items,
+    responses,
+  };
+};
+
+export const toRecording = (report: CalibrationReport, recordedAt: number = Date.now()): CalibrationRecording => ({
+  schemaVersion: CALIBRATION_SCHEMA_VERSION,
+  evaluator: report.evaluator,
+  datasetId: report.datasetId,
+  recordedAt: new Date(recordedAt).toISOString(),
+  responses: report.responses,
+});
+
+// --- Formatters ---
+
+const signed = (n: number) => (n > 0 ? `+${n.toFixed(2)}` : n.toFixed(2));
+
+export const CalibrationFormatter = {
+  json: (r: CalibrationReport) => JSON.stringify({ ...r, responses: undefined }, null, 2),
+
+  markdown: (r: CalibrationReport) => {
+    const lines: string[] = [
+      `# Evaluator Calibration: ${r.evaluator}`,
+      '',
+      `- **Dataset:** ${r.datasetId}`,
+      `- **Scored:** ${r.scored} (${r.failures.length} failed)`,
+      `- **Verdict lines:** WEAK <= ${r.policy.weakScore}, STRONG >= ${r.policy.strongScore}`,
+      `- **Verdict flips:** ${r.flips.length} of ${r.scored}`,
+    ];
+
+    if (r.dimensions.length > 0) {
+      lines.push('', '| Dimension | MAE | Bias | Spearman |', '|-----------|-----|------|----------|');
+      r.dimensions.forEach(d => lines.push(`| ${d.dimension} | ${d.mae.toFixed(2)} | ${signed(d.bias)} | ${d.spearman === null ? 'n/a' : d.spearman.toFixed(2)} |`));
+    }
+
+    if (r.flips.length > 0) {
+      lines.push('', '## Verdict Flips', '', '| Item | Human | Evaluator |', '|------|-------|-----------|');
+      r.flips.forEach(f => lines.push(`| ${f.id} | ${f.humanVerdict} (${f.human.total.toFixed(2)}) | ${f.predictedVerdict} (${f.predicted.total.toFixed(2)}) |`));
+    }
+    if (r.failures.length > 0) {
+      lines.push('', '## Failures', '');
+      r.failures.forEach(f => lines.push(`- ${f.id}: ${f.error}`));
+    }
+    return lines.join('\n') + '\n';
+  },
+};
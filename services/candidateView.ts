@@ -0,0 +1,64 @@
+import { CodingSpec, InterviewState, QuestionClock } from "../types";
+
+// ============================================================================
+// CANDIDATE VIEW
+// What the candidate's screen may know about a session: the question without
+// expected keywords, rubric or hidden tests, the question clock and a coarse
+// phase. Scores, logs, skill gaps and the termination reason stay with the
+// interviewer and observers.
+// ============================================================================
+
+export type CandidatePhase = 'WAITING' | 'ANSWERING' | 'PROCESSING' | 'FINISHED';
+
+export interface CandidateQuestion {
+  id: string;
+  text: string;
+  isFollowUp: boolean;
+  coding?: CodingSpec; // Visible test cases only
+}
+
+export interface CandidateView {
+  sessionId: string | null;
+  candidateName: string | null;
+  phase: CandidatePhase;
+  question: CandidateQuestion | null;
+  questionNumber: number;       // 1-based; follow-ups keep their turn's number
+  questionClock: QuestionClock | null;
+  timeLimitSec: number;
+}
+
+// A draft of the answer being typed, relayed to observers (never recorded as an engine event)
+export interface AnswerDraft {
+  questionId: string;
+  text: string;
+  at: number; // Server receipt time
+}
+
+const PHASES: Record<InterviewState['status'], CandidatePhase> = {
+  IDLE: 'WAITING',
+  ANALYZING: 'WAITING',
+  GENERATING: 'PROCESSING',
+  INTERVIEWING: 'ANSWERING',
+  EVALUATING: 'PROCESSING',
+  COMPLETED: 'FINISHED',
+  TERMINATED: 'FINISHED', // An early stop looks like any other ending to the candidate
+};
+
+export const toCandidateView = (state: InterviewState): CandidateView => {
+  const init = state.events.find(e => e.type === 'SESSION_INITIALIZED');
+  const question = state.activeQuestion;
+  return {
+    sessionId: state.sessionId,
+    candidateName: init?.type === 'SESSION_INITIALIZED' ? init.resume.candidateName : null,
+    phase: PHASES[state.status],
+    question: question ? {
+      id: question.id,
+      text: question.text,
+      isFollowUp: !!question.followUpOf,
+      ...(question.coding ? { coding: { ...question.coding, testCases: question.coding.testCases.filter(c => !c.hidden) } } : {}),
+    } : null,
+    questionNumber: state.turns.length + 1,
+    questionClock: state.questionClock,
+    timeLimitSec: question?.coding?.timeBudgetSec ?? state.config.timeLimitPerQuestion,
+  };
+};
@@ -0,0 +1,179 @@
+import { CodingSpec, CodingTestCase, CodeRunOutcome, CodeRunResult, TestCaseResult } from "../types";
+import { INTERVIEW_POLICY, InterviewPolicy } from "./policy";
+
+// ============================================================================
+// CODE SANDBOX (HOST SIDE)
+// Candidate code runs in a dedicated Web Worker (codeWorker.ts) with network
+// and storage globals removed, a wall-clock limit and a best-effort memory
+// limit. The worker script is served with SANDBOX_CSP, which blocks every
+// load the globals do not cover (dynamic import() above all), so test inputs
+// cannot leave the worker. Expected outputs stay here, so hidden cases cannot
+// be faked from inside the sandbox.
+// ============================================================================
+
+export interface SandboxRequest {
+  nonce: string; // Unknown to candidate code; messages without it are ignored
+  code: string;
+  functionName: string;
+  inputs: unknown[][];
+}
+
+export type SandboxMessage =
+  | { nonce: string; type: 'compile-error'; error: string }
+  | { nonce: string; type: 'case'; index: number; ok: true; value: unknown; durationMs: number; heapBytes?: number }
+  | { nonce: string; type: 'case'; index: number; ok: false; error: string; durationMs: number; outOfMemory: boolean }
+  | { nonce: string; type: 'done' };
+
+type CaseReport = Extract<SandboxMessage, { type: 'case' }>;
+
+export interface RunOptions {
+  includeHidden?: boolean; // false for "Run sample tests" before submitting
+}
+
+/**
+ * Content-Security-Policy sent with the worker script (vite.config.ts; set it
+ * on the production host too). No connections, no nested workers, and script
+ * loads only from this origin ('self' covers Vite's dev-time env import).
+ * 'unsafe-eval' is what lets the worker compile candidate code.
+ */
+export const SANDBOX_CSP = "default-src 'none'; script-src 'self' 'unsafe-eval'";
+
+const MB = 1024 * 1024;
+
+// `export` has no meaning inside the sandbox and would break the module-less build
+const EXPORT_KEYWORD = /^(\s*)export\s+(?:default\s+)?/gm;
+
+const NOT_RUN: Partial<Record<CodeRunOutcome, string>> = {
+  TIMEOUT: 'Not run: time limit exceeded',
+  MEMORY_LIMIT: 'Not run: memory limit exceeded',
+  COMPILE_ERROR: 'Not run: code did not compile',
+  RUNTIME_ERROR: 'Not run: sandbox crashed',
+};
+
+const formatValue = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+/**
+ * Structural equality for JSON-like values (test expectations come from JSON).
+ */
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every(k => deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+};
+
+const transpile = async (source: string): Promise<{ code: string } | { error: string }> => {
+  const ts = (await import('typescript')).default; // Loaded on demand; only TypeScript questions need it
+  const output = ts.transpileModule(source, {
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.None },
+  });
+  const errors = (output.diagnostics ?? []).filter(d => d.category === ts.DiagnosticCategory.Error);
+  return errors.length > 0
+    ? { error: `TypeScript: ${ts.flattenDiagnosticMessageText(errors[0].messageText, '\n')}` }
+    : { code: output.outputText };
+};
+
+const summarize = (cases: CodingTestCase[], reports: CaseReport[], stoppedBy: CodeRunOutcome | null, error?: string): CodeRunResult => {
+  const results: TestCaseResult[] = cases.map((c, index) => {
+    const base = { name: c.name, hidden: c.hidden };
+    const report = reports.find(r => r.index === index);
+    if (!report) return { ...base, passed: false, error: NOT_RUN[stoppedBy ?? 'RUNTIME_ERROR'], durationMs: 0 };
+
+    const durationMs = Number(report.durationMs.toFixed(1));
+    if (report.ok === false) return { ...base, passed: false, error: report.error, durationMs };
+
+    const passed = deepEqual(report.value, c.expected);
+    if (passed) return { ...base, passed, durationMs };
+    // Hidden expectations are never revealed, not even in feedback
+    return { ...base, passed, error: c.hidden ? 'Wrong answer' : `Expected ${formatValue(c.expected)}, got ${formatValue(report.value)}`, durationMs };
+  });
+
+  const passed = results.filter(r => r.passed).length;
+  const runtimeErrors = reports.filter(r => !r.ok).length;
+  const outcome: CodeRunOutcome = stoppedBy ?? (runtimeErrors > 0 ? 'RUNTIME_ERROR' : passed === cases.length ? 'PASSED' : 'FAILED');
+
+  return { outcome, passed, total: cases.length, runtimeErrors, ...(error ? { error } : {}), cases: results };
+};
+
+/**
+ * False when the tests never ran (UNAVAILABLE); such a run says nothing about correctness.
+ */
+export const testsRan = (run: CodeRunResult): boolean => run.outcome !== 'UNAVAILABLE';
+
+/**
+ * One-line summary used in feedback and logs.
+ */
+export const describeRun = (run: CodeRunResult): string =>
+  `${testsRan(run) ? `${run.passed}/${run.total} tests passed` : 'Tests not run'} (${run.outcome})${run.error ? `: ${run.error}` : ''}`;
+
+// How a coding answer gets its test results: runCode here, or a relay to a browser that runs it (server/codeRuns.ts)
+export type CodeRunner = (spec: CodingSpec, source: string, policy: InterviewPolicy) => Promise<CodeRunResult>;
+
+/**
+ * Compiles and runs the candidate's code against the question's test cases.
+ * Never rejects for candidate mistakes (those become the outcome); throws only
+ * when the environment has no Web Worker support.
+ */
+export const runCode = async (spec: CodingSpec, source: string, policy: InterviewPolicy = INTERVIEW_POLICY, { includeHidden = true }: RunOptions = {}): Promise<CodeRunResult> => {
+  const cases = spec.testCases.filter(c => includeHidden || !c.hidden);
+
+  // 1. Compile
+  const stripped = source.replace(EXPORT_KEYWORD, '$1');
+  const compiled = spec.language === 'typescript' ? await transpile(stripped) : { code: stripped };
+  if ('error' in compiled) return summarize(cases, [], 'COMPILE_ERROR', compiled.error);
+
+  if (typeof Worker === 'undefined') {
+    throw new Error("Code sandbox requires Web Worker support.");
+  }
+
+  // 2. Run in a fresh worker, killed on completion or when a limit is hit
+  const { RUN_TIMEOUT_MS, MEMORY_LIMIT_MB } = policy.CODING;
+  const nonce = crypto.randomUUID();
+  const worker = new Worker(new URL('./codeWorker.ts', import.meta.url), { type: 'module' });
+  const reports: CaseReport[] = [];
+
+  return new Promise<CodeRunResult>(resolve => {
+    let settled = false;
+    const finish = (stoppedBy: CodeRunOutcome | null, error?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(summarize(cases, reports, stoppedBy, error));
+    };
+
+    const timer = setTimeout(() => finish('TIMEOUT', `Run exceeded ${RUN_TIMEOUT_MS} ms`), RUN_TIMEOUT_MS);
+
+    worker.onmessage = ({ data }: MessageEvent<SandboxMessage>) => {
+      if (!data || data.nonce !== nonce) return;
+      switch (data.type) {
+        case 'compile-error':
+          finish('COMPILE_ERROR', data.error);
+          break;
+        case 'case':
+          reports.push(data);
+          if (data.ok === false && data.outOfMemory) {
+            finish('MEMORY_LIMIT', data.error);
+          } else if (data.ok && data.heapBytes !== undefined && data.heapBytes > MEMORY_LIMIT_MB * MB) {
+            finish('MEMORY_LIMIT', `Heap usage ${(data.heapBytes / MB).toFixed(0)} MB exceeded ${MEMORY_LIMIT_MB} MB`);
+          }
+          break;
+        case 'done':
+          finish(null);
+          break;
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish(/memory/i.test(event.message) ? 'MEMORY_LIMIT' : 'RUNTIME_ERROR', `Sandbox crashed: ${event.message}`);
+    };
+
+    const request: SandboxRequest = { nonce, code: compiled.code, functionName: spec.functionName, inputs: cases.map(c => c.input) };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,75 @@
+import type { SandboxMessage, SandboxRequest } from "./codeSandbox";
+
+// ============================================================================
+// CODE SANDBOX (WORKER SIDE)
+// Entry point of the dedicated worker started by runCode(). Removes network,
+// storage and nested-worker globals, compiles the candidate's code in global
+// scope (so it cannot see this module or the run nonce) and reports the
+// return value of every test input. Comparison happens on the host. Loads
+// that no global covers, like import(), are refused by the CSP this script is
+// served with (SANDBOX_CSP in codeSandbox.ts).
+// ============================================================================
+
+const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts',
+  'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker',
+];
+
+interface WorkerScope {
+  postMessage(message: SandboxMessage): void;
+  onmessage: ((event: MessageEvent<SandboxRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+const post = scope.postMessage.bind(scope); // Bound before candidate code can patch it
+
+const heapBytes = (): number | undefined =>
+  (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory?.usedJSHeapSize;
+
+const describeError = (err: unknown) => (err instanceof Error ? `${err.name}: ${err.message}` : String(err));
+
+const isOutOfMemory = (err: unknown) => err instanceof RangeError && /memory|allocation|array length/i.test(err.message);
+
+scope.onmessage = async ({ data }) => {
+  const { nonce, code, functionName, inputs } = data;
+  scope.onmessage = null; // One run per worker
+
+  BLOCKED_GLOBALS.forEach(name => {
+    try {
+      Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    } catch {
+      // Already non-configurable in this browser; nothing more we can do
+    }
+  });
+
+  // 1. Compile
+  let candidate: unknown;
+  try {
+    candidate = new Function(`"use strict";\n${code}\n;return typeof ${functionName} === 'function' ? ${functionName} : undefined;`)();
+  } catch (err) {
+    post({ nonce, type: 'compile-error', error: describeError(err) });
+    return;
+  }
+  if (typeof candidate !== 'function') {
+    post({ nonce, type: 'compile-error', error: `Function '${functionName}' is not defined.` });
+    return;
+  }
+
+  // 2. Run every input in order
+  for (let index = 0; index < inputs.length; index++) {
+    const start = performance.now();
+    try {
+      const value = await candidate(...inputs[index]);
+      const durationMs = performance.now() - start;
+      try {
+        post({ nonce, type: 'case', index, ok: true, value, durationMs, heapBytes: heapBytes() });
+      } catch {
+        post({ nonce, type: 'case', index, ok: false, error: 'Return value cannot be serialized.', durationMs, outOfMemory: false });
+      }
+    } catch (err) {
+      post({ nonce, type: 'case', index, ok: false, error: describeError(err), durationMs: performance.now() - start, outOfMemory: isOutOfMemory(err) });
+    }
+  }
+
+  post({ nonce, type: 'done' });
+};
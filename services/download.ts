@@ -0,0 +1,11 @@
+/**
+ * Triggers a browser download for in-memory content (exports, audit trails).
+ */
+export const downloadFile = (filename: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
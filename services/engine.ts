@@ -1,7 +1,15 @@
 
-import { Difficulty, InterviewState, InterviewTurn, AnswerEvaluation, JobDescriptionData, ResumeData, EvaluationCriteria, Question } from "../types";
-import { INTERVIEW_POLICY } from "./policy";
-import { evaluateAnswer } from "./gemini";
+import { Difficulty, Skill, InterviewState, InterviewTurn, InterviewSubTurn, AnswerEvaluation, CodeRunResult, JobDescriptionData, ResumeData, EvaluationCriteria, Question, EvaluatorOutput, EngineEvent, EngineEventInput, LogCategory, LogEntry, LogSeverity, ScoreAdjustment } from "../types";
+import { INTERVIEW_POLICY, InterviewPolicy, DEFAULT_POLICY_DOCUMENT, PolicyDocument, toPolicyRef } from "./policy";
+import { defaultDependencies, EngineDependencies } from "./engineDeps";
+import { FALLBACK_PROVIDER_NAME, FallbackRegistry } from "./fallback";
+import { describeFailure } from "./llmErrors";
+import { createInitialState, policyConfig, questionElapsedSeconds } from "./interviewState";
+import { detectInjection } from "./injection";
+import { skillTaxonomy, describeMatch } from "./skills";
+import { buildFollowUp, missedKeywords } from "./followUp";
+import { describeRun, testsRan } from "./codeSandbox";
+import { buildSkillMatrix, describeClaim, estimateProficiency, VERDICT_LABELS } from "./proficiency";
 
 // ============================================================================
 // PURE DETERMINISTIC MECHANISM
@@ -10,12 +18,14 @@ import { evaluateAnswer } from "./gemini";
 
 export const LogicCore = {
   /**
-   * Calculates weighted score based on policy weights.
+   * Calculates weighted score based on policy weights. For coding answers the
+   * accuracy dimension comes from the sandbox test results, not the evaluator.
    */
-  calculateScore: (criteria: EvaluationCriteria): number => {
-    const { DIMENSIONS } = INTERVIEW_POLICY.SCORING;
-    let score = 
-      (criteria.accuracy * DIMENSIONS.ACCURACY.weight) +
+  calculateScore: (criteria: EvaluationCriteria & Pick<AnswerEvaluation, 'codeRun'>, policy: InterviewPolicy = INTERVIEW_POLICY): number => {
+    const { DIMENSIONS } = policy.SCORING;
+    const accuracy = criteria.codeRun && testsRan(criteria.codeRun) ? LogicCore.codeAccuracy(criteria.codeRun, policy) : criteria.accuracy;
+    let score =
+      (accuracy * DIMENSIONS.ACCURACY.weight) +
       (criteria.depth * DIMENSIONS.DEPTH.weight) +
       (criteria.clarity * DIMENSIONS.CLARITY.weight) +
       (criteria.relevance * DIMENSIONS.RELEVANCE.weight);
@@ -23,11 +33,26 @@ export const LogicCore = {
   },
 
   /**
-   * Calculates time penalty and violation flag.
+   * Accuracy of a coding answer: test pass rate on a 0-10 scale, minus penalties
+   * for test cases that threw and for runs killed by the time or memory limit.
    */
-  calculateTimeLogic: (seconds: number): { penalty: number, isViolation: boolean } => {
-    const { PENALTY_START_SEC, PENALTY_STEP_SEC, PENALTY_PER_STEP } = INTERVIEW_POLICY.TIMING;
-    
+  codeAccuracy: (run: CodeRunResult, policy: InterviewPolicy = INTERVIEW_POLICY): number => {
+    if (run.total === 0) return 0;
+    const { RUNTIME_ERROR_PENALTY, LIMIT_PENALTY } = policy.CODING;
+    let accuracy = (10 * run.passed) / run.total;
+    if (run.runtimeErrors > 0) accuracy -= RUNTIME_ERROR_PENALTY;
+    if (run.outcome === 'TIMEOUT' || run.outcome === 'MEMORY_LIMIT') accuracy -= LIMIT_PENALTY;
+    return Number(Math.max(0, accuracy).toFixed(2));
+  },
+
+  /**
+   * Calculates time penalty and violation flag. A question's own time budget
+   * (coding questions) replaces the policy's penalty start.
+   */
+  calculateTimeLogic: (seconds: number, policy: InterviewPolicy = INTERVIEW_POLICY, timeBudgetSec: number | null = null): { penalty: number, isViolation: boolean } => {
+    const { PENALTY_STEP_SEC, PENALTY_PER_STEP } = policy.TIMING;
+    const PENALTY_START_SEC = timeBudgetSec ?? policy.TIMING.PENALTY_START_SEC;
+
     if (seconds <= PENALTY_START_SEC) {
       return { penalty: 0, isViolation: false };
     }
@@ -39,33 +64,79 @@ export const LogicCore = {
   },
 
   /**
-   * Determines if a Resume Gap Penalty applies.
+   * Determines if a Resume Gap Penalty applies. Skills are compared by canonical
+   * name, and partial coverage (e.g. Next.js for React) scales the penalty down.
    */
-  checkSkillGap: (targetSkill: string, gaps: InterviewState['detectedSkillGaps']): { penalty: number, type: string | null } => {
-    const gap = gaps.find(g => g.skill.toLowerCase() === targetSkill.toLowerCase());
-    
+  checkSkillGap: (targetSkill: string, gaps: InterviewState['detectedSkillGaps'], policy: InterviewPolicy = INTERVIEW_POLICY): { penalty: number, type: string | null } => {
+    const gap = gaps.find(g => skillTaxonomy.same(g.skill, targetSkill));
+
     if (!gap) return { penalty: 0, type: null };
 
-    if (gap.type === 'PRIMARY') {
-      return { penalty: INTERVIEW_POLICY.RESUME_JD_LOGIC.PENALTIES.PRIMARY_MISSING, type: 'PRIMARY' };
-    } else {
-      return { penalty: INTERVIEW_POLICY.RESUME_JD_LOGIC.PENALTIES.SECONDARY_MISSING, type: 'SECONDARY' };
+    const { PRIMARY_MISSING, SECONDARY_MISSING } = policy.RESUME_JD_LOGIC.PENALTIES;
+    const base = gap.type === 'PRIMARY' ? PRIMARY_MISSING : SECONDARY_MISSING;
+    return { penalty: Number((base * (1 - gap.credit)).toFixed(2)), type: gap.type };
+  },
+
+  /**
+   * Local edge-case filters applied before any evaluator is called.
+   * Returns the forced evaluation, or null if the answer should be evaluated normally.
+   */
+  preFilter: (answerText: string, timeTakenSeconds: number, policy: InterviewPolicy = INTERVIEW_POLICY): { kind: 'EMPTY' | 'SPAM', evaluation: EvaluatorOutput } | null => {
+    if (!answerText || answerText.trim().length === 0) {
+      const zero = policy.EDGE_CASES.EMPTY_ANSWER_SCORE;
+      return {
+        kind: 'EMPTY',
+        evaluation: {
+          accuracy: zero, depth: zero, clarity: zero, relevance: zero,
+          feedback: "Automatic Failure: No answer provided.",
+          isFallback: true, // Technically a local fallback
+          provider: FALLBACK_PROVIDER_NAME
+        }
+      };
+    }
+
+    if (timeTakenSeconds * 1000 < policy.TIMING.MIN_ANSWER_TIME_MS && answerText.length > 5) {
+      const zero = policy.EDGE_CASES.SPAM_ANSWER_SCORE;
+      return {
+        kind: 'SPAM',
+        evaluation: {
+          accuracy: zero, depth: zero, clarity: zero, relevance: zero,
+          feedback: "Automatic Failure: Response time impossibly fast (Spam detection).",
+          isFallback: true,
+          provider: FALLBACK_PROVIDER_NAME
+        }
+      };
     }
+
+    return null;
+  },
+
+  /**
+   * Scores an injection-flagged answer with the deterministic evaluator. A
+   * flagged answer never scores above that reference, so the LLM's evaluation
+   * is replaced whenever its base score is higher.
+   */
+  crossCheckInjection: (question: Question, answerText: string, evaluation: EvaluatorOutput, policy: InterviewPolicy = INTERVIEW_POLICY): { reference: EvaluatorOutput, excess: number, capped: boolean } => {
+    const reference: EvaluatorOutput = question.coding && evaluation.codeRun
+      ? { ...FallbackRegistry.evaluateCode(question, answerText, evaluation.codeRun), codeRun: evaluation.codeRun }
+      : FallbackRegistry.evaluate(question, answerText, policy);
+    const excess = Number((LogicCore.calculateScore(evaluation, policy) - LogicCore.calculateScore(reference, policy)).toFixed(2));
+    return { reference, excess, capped: excess > 0 };
   },
 
   /**
    * Determines Difficulty Transition.
    */
-  nextDifficulty: (current: Difficulty, score: number, ceiling: Difficulty | null): Difficulty => {
-    const { STRONG_SCORE, WEAK_SCORE } = INTERVIEW_POLICY.SCORING;
-    
+  nextDifficulty: (current: Difficulty, score: number, ceiling: Difficulty | null, policy: InterviewPolicy = INTERVIEW_POLICY): Difficulty => {
+    const { STRONG_SCORE, WEAK_SCORE } = policy.SCORING;
+
     let next = current;
 
     // Escalate
     if (score >= STRONG_SCORE) {
       if (current === Difficulty.Easy) next = Difficulty.Medium;
       else if (current === Difficulty.Medium) next = Difficulty.Hard;
-    } 
+    }
     // Downgrade
     else if (score <= WEAK_SCORE) {
       if (current === Difficulty.Hard) next = Difficulty.Medium;
@@ -84,48 +155,115 @@ export const LogicCore = {
     }
 
     return next;
+  },
+
+  /**
+   * A follow-up is asked when the answer's base score lies in the policy's
+   * middle band, the per-turn limit is not reached and something was missed.
+   */
+  shouldFollowUp: (baseScore: number, followUpsAsked: number, missed: string[], policy: InterviewPolicy = INTERVIEW_POLICY): boolean => {
+    const { MAX_PER_TURN, BAND_MIN, BAND_MAX } = policy.FOLLOW_UP;
+    return followUpsAsked < MAX_PER_TURN && missed.length > 0 && baseScore >= BAND_MIN && baseScore <= BAND_MAX;
+  },
+
+  /**
+   * Combines the main answer and its follow-ups into one turn evaluation.
+   * The main answer weighs 1, each follow-up FOLLOW_UP.WEIGHT.
+   */
+  combineSubTurns: (subTurns: InterviewSubTurn[], policy: InterviewPolicy = INTERVIEW_POLICY): AnswerEvaluation => {
+    const [main, ...followUps] = subTurns;
+    if (followUps.length === 0) return main.evaluation;
+
+    const weights = subTurns.map((_, i) => (i === 0 ? 1 : policy.FOLLOW_UP.WEIGHT));
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    const mean = (pick: (e: AnswerEvaluation) => number) =>
+      Number((subTurns.reduce((sum, s, i) => sum + pick(s.evaluation) * weights[i], 0) / totalWeight).toFixed(2));
+
+    const totalScore = mean(e => e.totalScore);
+    const timePenalty = mean(e => e.timePenalty);
+    const skillGapPenalty = main.evaluation.skillGapPenalty ?? 0;
+    const injectionPenalty = mean(e => e.injectionPenalty ?? 0);
+    const matched = new Set(subTurns.flatMap(s => s.evaluation.matchedConcepts ?? []));
+    const injectionSignals = [...new Set(subTurns.flatMap(s => s.evaluation.injectionSignals ?? []))];
+    const llmError = subTurns.find(s => s.evaluation.llmError)?.evaluation.llmError;
+
+    return {
+      accuracy: mean(e => e.accuracy),
+      clarity: mean(e => e.clarity),
+      depth: mean(e => e.depth),
+      relevance: mean(e => e.relevance),
+      totalScore,
+      timeTakenSeconds: subTurns.reduce((sum, s) => sum + s.evaluation.timeTakenSeconds, 0),
+      timePenalty,
+      skillGapPenalty,
+      injectionPenalty,
+      finalScore: Math.max(0, Number((totalScore - timePenalty - skillGapPenalty - injectionPenalty).toFixed(2))),
+      feedback: [main.evaluation.feedback, ...followUps.map((s, i) => `Follow-up ${i + 1}: ${s.evaluation.feedback}`)].join('\n'),
+      isFallback: subTurns.some(s => s.evaluation.isFallback),
+      ...(injectionSignals.length > 0 ? { injectionSignals } : {}),
+      ...(llmError ? { llmError } : {}),
+      ...(main.evaluation.matchedConcepts ? {
+        matchedConcepts: [...matched],
+        missedConcepts: (main.evaluation.missedConcepts ?? []).filter(k => !matched.has(k)),
+      } : {}),
+      provider: [...new Set(subTurns.map(s => s.evaluation.provider))].join(', '),
+    };
   }
 };
 
+const MAX_LOG_ENTRIES = 200;
+const CLOCK_DRIFT_TOLERANCE_SEC = 2; // Client-reported vs engine-measured answer time
+
+const DEFAULT_SEVERITY: Record<LogCategory, LogSeverity> = {
+  'SYSTEM': 'INFO', 'STATE': 'INFO', 'ANALYSIS': 'INFO', 'POLICY': 'INFO', 'QUESTION': 'INFO',
+  'EVENT': 'INFO', 'EVAL': 'INFO', 'SCORE': 'INFO', 'ADAPT': 'INFO', 'RECOVERY': 'INFO',
+  'FINAL': 'INFO', 'TERM': 'INFO', 'RISK': 'WARN', 'EDGE CASE': 'WARN', 'WARN': 'WARN', 'OVERRIDE': 'WARN',
+};
+
+export const SCORE_DIMENSIONS = ['accuracy', 'clarity', 'depth', 'relevance'] as const;
+
+export interface TurnOverrideRequest {
+  turnIndex: number;          // 0-based
+  adjustment: ScoreAdjustment;
+  justification: string;
+  interviewer: string;
+  recomputePath?: boolean;    // Re-derive difficulty and strikes from the corrected score
+}
+
 // ============================================================================
 // STATEFUL ENGINE
 // Manages the session state and applies the LogicCore.
+// Public methods only record events; apply() is the single place state changes,
+// so replaying the event stream reproduces the session exactly.
+// Evaluator, question source, clock and ids are injected (services/engineDeps.ts),
+// so any number of engines can run side by side in one process.
 // ============================================================================
 
 export class InterviewEngine {
   private state: InterviewState;
   private subscribers: ((state: InterviewState) => void)[] = [];
+  private pendingSubmission: { answerText: string, timeTakenSeconds: number } | null = null;
+  private eventTime = 0; // Timestamp of the event currently being applied
+  private currentTurn: number | null = null; // Turn the next log entries belong to
+  private logSeq = 1;
+  private policy: InterviewPolicy;
+  private readonly deps: EngineDependencies;
 
-  constructor() {
-    this.state = this.getInitialState();
-  }
-
-  private getInitialState(): InterviewState {
-    return {
-      status: 'IDLE',
-      currentDifficulty: Difficulty.Easy,
-      evaluationMode: 'LLM', // Default to LLM
-      activeQuestion: null,
-      turns: [],
-      scoreHistory: [],
-      consecutiveWeakAnswers: 0,
-      timeViolations: 0,
-      detectedSkillGaps: [],
-      difficultyCeiling: null,
-      terminationReason: null,
-      logs: ['[SYSTEM] Engine Online. Policy: Strict. Mode: Deterministic.'],
-      config: {
-        maxQuestions: INTERVIEW_POLICY.TERMINATION.MAX_QUESTIONS,
-        timeLimitPerQuestion: INTERVIEW_POLICY.TIMING.LIMIT_SEC,
-        passingScoreThreshold: INTERVIEW_POLICY.SCORING.PASSING_THRESHOLD,
-        maxViolations: INTERVIEW_POLICY.TIMING.MAX_VIOLATIONS_ALLOWED,
-      },
-    };
+  /**
+   * @param deps Collaborators; anything omitted uses defaultDependencies().
+   * @param policyOverride Forces a policy regardless of what the session recorded (what-if replays).
+   */
+  constructor(deps: Partial<EngineDependencies> = {}, private readonly policyOverride: InterviewPolicy | null = null) {
+    this.deps = { ...defaultDependencies(), ...deps };
+    this.policy = policyOverride ?? this.deps.policy;
+    this.state = createInitialState(this.policy);
   }
 
   // --- State Access ---
   public getState() { return this.state; }
-  
+
+  public getPolicy() { return this.policy; }
+
   public subscribe(cb: (s: InterviewState) => void) {
     this.subscribers.push(cb);
     return () => { this.subscribers = this.subscribers.filter(s => s !== cb); };
@@ -133,68 +271,168 @@ export class InterviewEngine {
 
   private notify() { this.subscribers.forEach(cb => cb(this.state)); }
 
-  private log(msg: string) {
-    const time = new Date().toLocaleTimeString();
-    this.state.logs = [`[${time}] ${msg}`, ...this.state.logs];
-    if (this.state.logs.length > 200) this.state.logs.pop();
+  private log(category: LogCategory, message: string, payload?: Record<string, unknown>, severity: LogSeverity = DEFAULT_SEVERITY[category]) {
+    const entry: LogEntry = {
+      seq: this.logSeq++,
+      timestamp: this.eventTime,
+      category,
+      severity,
+      turnIndex: this.currentTurn,
+      message,
+      ...(payload ? { payload } : {}),
+    };
+    this.state.logs = [...this.state.logs, entry];
+    if (this.state.logs.length > MAX_LOG_ENTRIES) this.state.logs.shift();
   }
 
-  public startAnalysis() {
-    this.state.status = 'ANALYZING';
-    this.log('[STATE] Analyzing Documents against Policy...');
+  // --- Event Sourcing ---
+
+  private record(input: EngineEventInput) {
+    const event = { ...input, seq: this.state.events.length, at: this.deps.clock.now() } as EngineEvent;
+    this.ingest(event);
     this.notify();
   }
 
+  /**
+   * Appends an already-recorded event and applies it. Used by replay().
+   */
+  public ingest(event: EngineEvent) {
+    if (event.seq !== this.state.events.length) {
+      throw new Error(`Event stream out of order: expected seq ${this.state.events.length}, got ${event.seq}.`);
+    }
+    this.state.events.push(event);
+    this.eventTime = event.at;
+    this.apply(event);
+  }
+
+  private apply(event: EngineEvent) {
+    switch (event.type) {
+      case 'ANALYSIS_STARTED':
+        this.state.status = 'ANALYZING';
+        this.log('STATE', 'Analyzing Documents against Policy...');
+        break;
+      case 'SESSION_INITIALIZED':
+        this.applyInitialization(event.sessionId, event.jd, event.resume, event.policy);
+        break;
+      case 'GENERATION_STARTED':
+        this.state.status = 'GENERATING';
+        break;
+      case 'QUESTION_PRESENTED':
+        this.applyQuestion(event.question);
+        break;
+      case 'ANSWER_SUBMITTED':
+        this.applySubmission(event.answerText, event.timeTakenSeconds, event.reportedSeconds);
+        break;
+      case 'QUESTION_PAUSED':
+        this.applyPause(event.approvedBy, event.reason);
+        break;
+      case 'QUESTION_RESUMED':
+        this.applyResume();
+        break;
+      case 'ANSWER_EVALUATED':
+        this.applyEvaluation(event.evaluation);
+        break;
+      case 'TURN_OVERRIDDEN':
+        this.applyOverride(event.turnIndex, event.adjustment, event.justification, event.interviewer, event.recomputePath);
+        break;
+      case 'SESSION_RESTORED':
+        if (this.state.status === 'EVALUATING' && this.state.activeQuestion) {
+          this.state.status = 'INTERVIEWING';
+          this.pendingSubmission = null;
+          this.log('EDGE CASE', 'Session was interrupted during evaluation. Reopening active question.');
+        }
+        if (this.state.questionClock && event.elapsedSeconds !== undefined) {
+          // Time the session spent unloaded does not count against the candidate
+          const { pausedAt } = this.state.questionClock;
+          this.state.questionClock = {
+            ...this.state.questionClock,
+            presentedAt: this.eventTime - event.elapsedSeconds * 1000,
+            pausedMs: 0,
+            pausedAt: pausedAt === null ? null : this.eventTime,
+          };
+          this.log('STATE', `Question clock resumed at ${event.elapsedSeconds.toFixed(1)}s.`, { elapsedSeconds: event.elapsedSeconds });
+        }
+        this.log('STATE', `Session ${this.state.sessionId} restored from storage (${this.state.turns.length} turns, ${this.state.consecutiveWeakAnswers} strikes).`, {
+          turns: this.state.turns.length, strikes: this.state.consecutiveWeakAnswers
+        });
+        break;
+    }
+  }
+
+  public startAnalysis() {
+    this.record({ type: 'ANALYSIS_STARTED' });
+  }
+
   // --- Initialization Logic ---
-  public initializeSession(jd: JobDescriptionData, resume: ResumeData) {
+  public initializeSession(jd: JobDescriptionData, resume: ResumeData, policy: PolicyDocument = DEFAULT_POLICY_DOCUMENT) {
+    this.record({ type: 'SESSION_INITIALIZED', sessionId: this.deps.ids(), jd, resume, policy });
+  }
+
+  private applyInitialization(sessionId: string, jd: JobDescriptionData, resume: ResumeData, policyDoc: PolicyDocument) {
+    this.state.sessionId = sessionId;
+
+    // 0. Bind Session Policy
+    this.policy = this.policyOverride ?? policyDoc.policy;
+    this.state.policy = toPolicyRef(policyDoc);
+    this.state.config = policyConfig(this.policy);
+    this.log('POLICY', `Session bound to policy '${policyDoc.name}' (${policyDoc.id}@${policyDoc.version}).`, { policyId: policyDoc.id, version: policyDoc.version });
+    if (this.policyOverride) {
+      this.log('WARN', 'Recorded policy overridden for this replay.');
+    }
+
+    ([['Resume', resume.parseDiagnostics], ['JD', jd.parseDiagnostics]] as const).forEach(([doc, diagnostics]) => {
+      if (!diagnostics) return;
+      const { parser, confidence, missingFields } = diagnostics;
+      const missing = missingFields.length > 0 ? ` Missing: ${missingFields.join(', ')}.` : '';
+      this.log('ANALYSIS', `${doc} parsed by '${parser}' (confidence ${confidence.toFixed(2)}).${missing}`, { ...diagnostics }, missingFields.length > 0 ? 'WARN' : 'INFO');
+    });
+
     // 1. JD Complexity -> Initial Difficulty
-    const startDiff = INTERVIEW_POLICY.DIFFICULTY.INITIAL[jd.complexityLevel] || Difficulty.Easy;
+    const startDiff = this.policy.DIFFICULTY.INITIAL[jd.complexityLevel] || Difficulty.Easy;
     this.state.currentDifficulty = startDiff;
-    this.log(`[POLICY] JD Complexity '${jd.complexityLevel}' sets Initial Difficulty to ${startDiff}.`);
-
-    // 2. Skill Gap Analysis (Primary vs Secondary)
-    const resumeSkills = new Set(resume.skills.map(s => s.name.toLowerCase().trim()));
-    const gaps = [];
-
-    // Check Primary
-    let primaryMissing = 0;
-    jd.primarySkills.forEach(skill => {
-      if (!resumeSkills.has(skill.toLowerCase().trim())) {
-        gaps.push({ skill, type: 'PRIMARY' as const });
-        primaryMissing++;
-      }
-    });
+    this.log('POLICY', `JD Complexity '${jd.complexityLevel}' sets Initial Difficulty to ${startDiff}.`, { complexity: jd.complexityLevel, difficulty: startDiff });
 
-    // Check Secondary
-    jd.secondarySkills.forEach(skill => {
-      if (!resumeSkills.has(skill.toLowerCase().trim())) {
-        gaps.push({ skill, type: 'SECONDARY' as const });
-      }
-    });
+    // 2. Skill Gap Analysis (Primary vs Secondary), through the skill taxonomy
+    const resumeSkills = resume.skills.map(s => s.name);
+    const matches = [
+      ...jd.primarySkills.map(skill => ({ ...skillTaxonomy.match(skill, resumeSkills), type: 'PRIMARY' as const })),
+      ...jd.secondarySkills.map(skill => ({ ...skillTaxonomy.match(skill, resumeSkills), type: 'SECONDARY' as const })),
+    ];
+    matches
+      .filter(m => m.relation !== 'EXACT' && m.relation !== 'NONE')
+      .forEach(m => this.log('ANALYSIS', `'${m.skill}' matched ${describeMatch(m)} (credit ${m.credit}).`, { ...m }));
 
+    const gaps = matches.filter(m => m.credit < 1).map(m => ({ skill: m.skill, type: m.type, credit: m.credit }));
+    const primaryMissing = gaps.filter(g => g.type === 'PRIMARY').length;
+    this.state.skillMatches = matches;
     this.state.detectedSkillGaps = gaps;
-    this.log(`[ANALYSIS] Found ${gaps.length} skill gaps (${primaryMissing} Primary).`);
+    this.log('ANALYSIS', `Found ${gaps.length} skill gaps (${primaryMissing} Primary).`, { gaps, primaryMissing });
 
-    // 3. Difficulty Ceiling Logic (Constraint)
+    // 3. Difficulty Ceiling Logic (Constraint). Partial matches count by their credit.
     const primaryCount = jd.primarySkills.length;
-    const primaryMatchRate = primaryCount > 0 ? (primaryCount - primaryMissing) / primaryCount : 1;
-    
-    if (primaryMatchRate < INTERVIEW_POLICY.DIFFICULTY.CEILING.CRITICAL_GAP_MATCH_THRESHOLD) {
-      this.state.difficultyCeiling = INTERVIEW_POLICY.DIFFICULTY.CEILING.CAP_LEVEL;
-      this.log(`[POLICY] Critical Skill Match (${(primaryMatchRate*100).toFixed(0)}%) < 60%. Difficulty Capped at ${this.state.difficultyCeiling}.`);
+    const primaryCredit = matches.filter(m => m.type === 'PRIMARY').reduce((sum, m) => sum + m.credit, 0);
+    const primaryMatchRate = primaryCount > 0 ? primaryCredit / primaryCount : 1;
+    const { CRITICAL_GAP_MATCH_THRESHOLD, CAP_LEVEL } = this.policy.DIFFICULTY.CEILING;
+
+    if (primaryMatchRate < CRITICAL_GAP_MATCH_THRESHOLD) {
+      this.state.difficultyCeiling = CAP_LEVEL;
+      this.log('POLICY', `Critical Skill Match (${(primaryMatchRate*100).toFixed(0)}%) < ${(CRITICAL_GAP_MATCH_THRESHOLD*100).toFixed(0)}%. Difficulty Capped at ${this.state.difficultyCeiling}.`, {
+        matchRate: primaryMatchRate, threshold: CRITICAL_GAP_MATCH_THRESHOLD, ceiling: CAP_LEVEL
+      });
     }
 
+    // 4. Claimed levels, all untested until questions target them
+    this.state.skillMatrix = buildSkillMatrix([], resume.skills, this.policy);
+
     // Transition to IDLE (Ready) instead of implicitly starting
     this.state.status = 'IDLE';
-    this.log('[STATE] Initialization Complete. Waiting for Interview Start.');
-    this.notify();
+    this.log('STATE', 'Initialization Complete. Waiting for Interview Start.');
   }
 
   // --- Explicit Interview Lifecycle ---
 
   public setGenerating() {
-    this.state.status = 'GENERATING';
-    this.notify();
+    this.record({ type: 'GENERATION_STARTED' });
   }
 
   public startInterview(firstQuestion: Question) {
@@ -202,28 +440,136 @@ export class InterviewEngine {
       console.warn("Attempted to start interview from invalid state: " + this.state.status);
       return;
     }
-    
+
     // Explicitly transition to active question via presentQuestion
     // This ensures activeQuestion is set BEFORE status is 'INTERVIEWING'
-    this.log('[STATE] Session Initialized. Transitioning to INTERVIEWING.');
     this.presentQuestion(firstQuestion);
   }
 
   public presentQuestion(q: Question) {
+    this.record({ type: 'QUESTION_PRESENTED', question: q });
+  }
+
+  /**
+   * Asks the question source for the next question and presents it. Used for
+   * the first question (after setGenerating) and between turns.
+   */
+  public async generateNextQuestion() {
+    const init = this.sessionInit();
+    if (!init) {
+      throw new Error("Cannot generate a question: Session not initialized.");
+    }
+    if (this.state.status !== 'GENERATING') {
+      console.warn("Attempted question generation while not GENERATING.");
+      return;
+    }
+
+    const state = this.state;
+    const question = await this.deps.questions.next({
+      jd: init.jd,
+      resume: init.resume,
+      difficulty: state.currentDifficulty,
+      previousQuestions: state.turns.map(t => t.question.text),
+      seed: `${state.sessionId}:${state.turns.length}`,
+    });
+
+    // Session may have been reset or restored while the source was running
+    if (this.state !== state || this.state.status !== 'GENERATING') return;
+    this.presentQuestion(question);
+  }
+
+  private applyQuestion(q: Question) {
+    this.currentTurn = this.state.turns.length;
+    if (this.state.turns.length === 0) {
+      this.log('STATE', 'Session Initialized. Transitioning to INTERVIEWING.');
+    }
+
     // CRITICAL: Order matters for UI determinism
     // 1. Set data
     this.state.activeQuestion = q;
+    this.startClock();
     // 2. Set state
     this.state.status = 'INTERVIEWING';
-    
-    this.log(`[QUESTION] Q${this.state.turns.length + 1} Presented: ${q.targetSkill} (${q.difficulty}).`);
-    this.notify();
+
+    this.log('QUESTION', `Q${this.state.turns.length + 1} Presented: ${q.targetSkill} (${q.difficulty}).`, { questionId: q.id, targetSkill: q.targetSkill, difficulty: q.difficulty });
+    if (q.llmError) {
+      const { kind, attempts, message } = q.llmError;
+      this.log('WARN', `LLM question generation failed (${describeFailure(q.llmError)}). Drawn from the question bank.`, { kind, attempts, message });
+    }
+  }
+
+  // --- Question Timing ---
+
+  private startClock() {
+    this.state.questionClock = { presentedAt: this.eventTime, pausedMs: 0, pausedAt: null, pausedBy: null };
+  }
+
+  /**
+   * Seconds spent on the active question by the engine's clock, excluding
+   * approved pauses. Null when no question is in play.
+   */
+  public elapsedSeconds(at: number = this.deps.clock.now()): number | null {
+    const clock = this.state.questionClock;
+    return clock ? questionElapsedSeconds(clock, at) : null;
+  }
+
+  public isPaused(): boolean {
+    return this.state.questionClock?.pausedAt != null;
+  }
+
+  /**
+   * Stops the question clock. Only an interviewer can approve a pause; the
+   * time until resumeQuestion() is excluded from the answer time.
+   */
+  public pauseQuestion({ approvedBy, reason }: { approvedBy: string, reason: string }) {
+    if (this.state.status !== 'INTERVIEWING' || !this.state.questionClock) {
+      console.warn("Attempted pause while not INTERVIEWING.");
+      return;
+    }
+    if (this.isPaused()) {
+      console.warn("Question is already paused.");
+      return;
+    }
+    if (!approvedBy.trim()) {
+      throw new Error("Cannot pause question: An approving interviewer is required.");
+    }
+    this.record({ type: 'QUESTION_PAUSED', approvedBy: approvedBy.trim(), reason: reason.trim() });
+  }
+
+  public resumeQuestion() {
+    if (!this.isPaused()) {
+      console.warn("Attempted resume while the question is not paused.");
+      return;
+    }
+    this.record({ type: 'QUESTION_RESUMED' });
+  }
+
+  private applyPause(approvedBy: string, reason: string) {
+    const clock = this.state.questionClock;
+    if (!clock) return;
+    const elapsed = this.elapsedSeconds(this.eventTime);
+    this.state.questionClock = { ...clock, pausedAt: this.eventTime, pausedBy: approvedBy };
+    this.log('EVENT', `Question paused at ${elapsed?.toFixed(1)}s, approved by ${approvedBy}${reason ? `: ${reason}` : ''}.`, { approvedBy, reason, elapsedSeconds: elapsed });
+  }
+
+  private applyResume() {
+    const clock = this.state.questionClock;
+    if (!clock || clock.pausedAt === null) return;
+    const pausedMs = this.eventTime - clock.pausedAt;
+    this.state.questionClock = { ...clock, pausedMs: clock.pausedMs + pausedMs, pausedAt: null, pausedBy: null };
+    this.log('EVENT', `Question resumed after ${(pausedMs / 1000).toFixed(1)}s pause (excluded from answer time).`, { pausedMs, approvedBy: clock.pausedBy });
   }
 
   // --- Explicit Submission API ---
-  public async submitAnswer({ answerText, timeTakenSeconds }: { answerText: string, timeTakenSeconds: number }) {
+
+  /**
+   * Submits the answer to the active question. Answer time is measured by the
+   * engine's clock; a client-supplied timeTakenSeconds is only recorded and
+   * compared against it.
+   */
+  public async submitAnswer({ answerText, timeTakenSeconds: reportedSeconds }: { answerText: string, timeTakenSeconds?: number }) {
     const question = this.state.activeQuestion;
-    
+
     if (!question) {
       throw new Error("Cannot submit answer: No active question.");
     }
@@ -233,118 +579,224 @@ export class InterviewEngine {
       return;
     }
 
+    if (this.isPaused()) {
+      console.warn("Attempted submission while the question is paused.");
+      return;
+    }
+
     // 1. FREEZE STATE
-    this.state.status = 'EVALUATING';
-    this.log(`[EVENT] Answer submitted. Time: ${timeTakenSeconds.toFixed(1)}s.`);
-    this.notify(); // Update UI to show loading/locked state
+    const timeTakenSeconds = this.elapsedSeconds() ?? 0;
+    this.record({
+      type: 'ANSWER_SUBMITTED', answerText, timeTakenSeconds,
+      ...(reportedSeconds !== undefined ? { reportedSeconds } : {})
+    }); // Update UI to show loading/locked state
 
     // 2. PRE-EVALUATION (DETERMINISTIC FILTERS)
     // We determine criteria LOCALLY first to handle edge cases without wasting API tokens.
-    let rawEvaluation: AnswerEvaluation | (EvaluationCriteria & { feedback: string; isFallback?: boolean });
-    let isSpamOrEmpty = false;
+    const edgeCase = LogicCore.preFilter(answerText, timeTakenSeconds, this.policy);
 
-    if (!answerText || answerText.trim().length === 0) {
-      isSpamOrEmpty = true;
-      const zero = INTERVIEW_POLICY.EDGE_CASES.EMPTY_ANSWER_SCORE;
-      this.log(`[EDGE CASE] Empty answer detected. Forcing score to ${zero}.`);
-      rawEvaluation = { 
-        accuracy: zero, depth: zero, clarity: zero, relevance: zero, 
-        feedback: "Automatic Failure: No answer provided.",
-        isFallback: true // Technically a local fallback
-      };
-    } 
-    else if (timeTakenSeconds * 1000 < INTERVIEW_POLICY.TIMING.MIN_ANSWER_TIME_MS && answerText.length > 5) {
-      isSpamOrEmpty = true;
-      const zero = INTERVIEW_POLICY.EDGE_CASES.SPAM_ANSWER_SCORE;
-      this.log(`[EDGE CASE] Response time (${timeTakenSeconds}s) below biological threshold. Flagged as Spam.`);
-      rawEvaluation = {
-         accuracy: zero, depth: zero, clarity: zero, relevance: zero,
-         feedback: "Automatic Failure: Response time impossibly fast (Spam detection).",
-         isFallback: true
-      };
+    // 3. API EVALUATION (Only if valid)
+    // The default evaluator is WRAPPED with safe error handling and internal fallback logic
+    const evaluation = edgeCase ? edgeCase.evaluation : await this.deps.evaluator.evaluate(question, answerText, this.policy);
+
+    // Session may have been reset or restored while the evaluator was running
+    if (!this.pendingSubmission || this.state.activeQuestion !== question) return;
+
+    // 4. SCORING & POLICY EXECUTION (recorded together with the raw evaluator output)
+    this.record({ type: 'ANSWER_EVALUATED', evaluation });
+  }
+
+  private applySubmission(answerText: string, timeTakenSeconds: number, reportedSeconds?: number) {
+    this.state.status = 'EVALUATING';
+    this.pendingSubmission = { answerText, timeTakenSeconds };
+    this.log('EVENT', `Answer submitted. Time: ${timeTakenSeconds.toFixed(1)}s.`, { timeTakenSeconds, answerLength: answerText.length });
+
+    if (reportedSeconds !== undefined && Math.abs(reportedSeconds - timeTakenSeconds) > CLOCK_DRIFT_TOLERANCE_SEC) {
+      this.log('EDGE CASE', `Client reported ${reportedSeconds.toFixed(1)}s but the engine measured ${timeTakenSeconds.toFixed(1)}s. Using the measured time.`, {
+        kind: 'CLOCK_MISMATCH', reportedSeconds, timeTakenSeconds
+      });
     }
 
-    // 3. API EVALUATION (Only if valid)
-    if (!isSpamOrEmpty) {
-      // evaluateAnswer is now WRAPPED with safe error handling and internal fallback logic
-      const result = await evaluateAnswer(question, answerText);
-      rawEvaluation = result;
-      
-      // Update System Mode if Fallback was triggered
-      if (result.isFallback && this.state.evaluationMode !== 'FALLBACK_RULE_BASED') {
+    const edgeCase = LogicCore.preFilter(answerText, timeTakenSeconds, this.policy);
+    if (edgeCase?.kind === 'EMPTY') {
+      this.log('EDGE CASE', `Empty answer detected. Forcing score to ${this.policy.EDGE_CASES.EMPTY_ANSWER_SCORE}.`, { kind: 'EMPTY' });
+    } else if (edgeCase?.kind === 'SPAM') {
+      this.log('EDGE CASE', `Response time (${timeTakenSeconds}s) below biological threshold. Flagged as Spam.`, { kind: 'SPAM', timeTakenSeconds });
+    }
+  }
+
+  private applyEvaluation(rawEvaluation: EvaluatorOutput) {
+    const question = this.state.activeQuestion;
+    const submission = this.pendingSubmission;
+    if (!question || !submission) {
+      throw new Error("Cannot apply evaluation: No pending submission.");
+    }
+    const { answerText, timeTakenSeconds } = submission;
+    const edgeCase = LogicCore.preFilter(answerText, timeTakenSeconds, this.policy);
+
+    // Update System Mode if Fallback was triggered (edge cases are local by design)
+    if (!edgeCase) {
+      if (rawEvaluation.isFallback && this.state.evaluationMode !== 'FALLBACK_RULE_BASED') {
         this.state.evaluationMode = 'FALLBACK_RULE_BASED';
-        this.log('[WARN] External AI Unavailable. Switched to Deterministic Fallback Mode.');
+        this.log('WARN', 'External AI Unavailable. Switched to Deterministic Fallback Mode.');
+      }
+      if (rawEvaluation.llmError) {
+        const { kind, attempts, message } = rawEvaluation.llmError;
+        this.log('WARN', `LLM evaluation failed (${describeFailure(rawEvaluation.llmError)}). Scored deterministically.`, { kind, attempts, message });
+      }
+      if (rawEvaluation.clamped) {
+        this.log('EDGE CASE', `LLM returned out-of-range scores (${Object.entries(rawEvaluation.clamped).map(([k, v]) => `${k}=${v}`).join(', ')}). Clamped to 0-10.`, { kind: 'CLAMPED', original: rawEvaluation.clamped });
+      }
+      this.log('EVAL', `Scored by provider '${rawEvaluation.provider}'.`, { provider: rawEvaluation.provider, isFallback: rawEvaluation.isFallback });
+    }
+
+    // B. Prompt-Injection Screen: the LLM may have obeyed the candidate, so its score is cross-checked
+    const injectionSignals = edgeCase ? [] : detectInjection(answerText);
+    const injectionPenalty = injectionSignals.length > 0 ? this.policy.INJECTION.PENALTY : 0;
+    let evaluation = rawEvaluation;
+    if (injectionSignals.length > 0) {
+      this.log('EDGE CASE', `Possible prompt injection (${injectionSignals.join(', ')}). Penalty: -${injectionPenalty}.`, { kind: 'INJECTION', signals: injectionSignals, injectionPenalty });
+      if (!rawEvaluation.isFallback) {
+        const { reference, excess, capped } = LogicCore.crossCheckInjection(question, answerText, rawEvaluation, this.policy);
+        if (capped) {
+          evaluation = { ...reference, feedback: `LLM evaluation capped at the deterministic score (possible prompt injection). ${reference.feedback}` };
+          this.log('EDGE CASE', `LLM score exceeds the deterministic evaluator by ${excess}. Capped to the deterministic evaluation.`, {
+            kind: 'INJECTION_CAPPED', excess, provider: rawEvaluation.provider
+          });
+        } else {
+          this.log('EVAL', `LLM score not above the deterministic evaluator (${excess}). Kept.`, { excess });
+        }
       }
     }
 
-    // 4. SCORING & POLICY EXECUTION
-    
-    // C. Calculate Base Score
-    const baseScore = LogicCore.calculateScore(rawEvaluation!);
+    // C. Calculate Base Score (coding answers: accuracy from test results, when they ran)
+    const { codeRun } = evaluation;
+    const tested = codeRun && testsRan(codeRun);
+    const accuracy = tested ? LogicCore.codeAccuracy(codeRun, this.policy) : evaluation.accuracy;
+    if (codeRun && !tested) {
+      this.log('EDGE CASE', `Code run unavailable (${codeRun.error}). Accuracy ${accuracy} from the code review alone.`, {
+        kind: 'TESTS_UNAVAILABLE', error: codeRun.error, provider: evaluation.provider, accuracy
+      });
+    } else if (codeRun) {
+      this.log('EVAL', `Code run: ${describeRun(codeRun)}. Accuracy set to ${accuracy}.`, {
+        outcome: codeRun.outcome, passed: codeRun.passed, total: codeRun.total, runtimeErrors: codeRun.runtimeErrors, accuracy
+      }, codeRun.outcome === 'PASSED' ? 'INFO' : 'WARN');
+    }
+    const baseScore = LogicCore.calculateScore(evaluation, this.policy);
 
-    // D. Calculate Time Logic
-    const { penalty: timePenalty, isViolation } = LogicCore.calculateTimeLogic(timeTakenSeconds);
+    // D. Calculate Time Logic (every answer is timed, follow-ups included)
+    const { penalty: timePenalty, isViolation } = LogicCore.calculateTimeLogic(timeTakenSeconds, this.policy, question.coding?.timeBudgetSec ?? null);
     if (isViolation) {
       this.state.timeViolations++;
-      this.log(`[POLICY] Time Violation #${this.state.timeViolations} recorded (-${timePenalty} pts).`);
+      this.log('POLICY', `Time Violation #${this.state.timeViolations} recorded (-${timePenalty} pts).`, { violations: this.state.timeViolations, timePenalty }, 'WARN');
     }
 
     // E. Calculate Skill Gap Penalty
-    const { penalty: gapPenalty, type: gapType } = LogicCore.checkSkillGap(question.targetSkill, this.state.detectedSkillGaps);
+    const { penalty: gapPenalty, type: gapType } = LogicCore.checkSkillGap(question.targetSkill, this.state.detectedSkillGaps, this.policy);
     if (gapPenalty > 0) {
-      this.log(`[POLICY] ${gapType} Skill Gap ('${question.targetSkill}') penalty applied: -${gapPenalty}`);
+      this.log('POLICY', `${gapType} Skill Gap ('${question.targetSkill}') penalty applied: -${gapPenalty}`, { gapType, skill: question.targetSkill, gapPenalty });
     }
 
     // F. Final Score
-    const finalScore = Math.max(0, baseScore - timePenalty - gapPenalty);
-    this.log(`[SCORE] Base: ${baseScore} | Time: -${timePenalty} | Gap: -${gapPenalty} | Final: ${finalScore.toFixed(2)}`);
+    const finalScore = Math.max(0, baseScore - timePenalty - gapPenalty - injectionPenalty);
+    this.log('SCORE', `Base: ${baseScore} | Time: -${timePenalty} | Gap: -${gapPenalty}${injectionPenalty > 0 ? ` | Injection: -${injectionPenalty}` : ''} | Final: ${finalScore.toFixed(2)}`, {
+      accuracy, clarity: evaluation.clarity, depth: evaluation.depth, relevance: evaluation.relevance,
+      baseScore, timePenalty, gapPenalty, injectionPenalty, finalScore
+    });
+
+    const subTurn: InterviewSubTurn = {
+      question,
+      answer: answerText,
+      evaluation: {
+        ...evaluation,
+        accuracy,
+        totalScore: baseScore,
+        timeTakenSeconds,
+        timePenalty,
+        finalScore,
+        feedback: evaluation.feedback || "Processed by Policy Engine",
+        skillGapPenalty: gapPenalty,
+        injectionPenalty,
+        ...(injectionSignals.length > 0 ? { injectionSignals } : {}),
+        isFallback: evaluation.isFallback,
+        provider: evaluation.provider
+      },
+      timestamp: this.eventTime,
+    };
+    const subTurns = [...this.state.pendingSubTurns, subTurn];
+    this.pendingSubmission = null;
+
+    // G. Follow-up Probe (partial prose answers stay in the same turn)
+    const missed = edgeCase || question.coding ? [] : missedKeywords(question, answerText, evaluation);
+    const timeExhausted = this.state.timeViolations > this.policy.TIMING.MAX_VIOLATIONS_ALLOWED;
+    if (!timeExhausted && LogicCore.shouldFollowUp(baseScore, subTurns.length - 1, missed, this.policy)) {
+      const followUp = buildFollowUp(subTurns[0].question, missed, subTurns.length);
+      this.state.pendingSubTurns = subTurns;
+      this.state.activeQuestion = followUp;
+      this.startClock();
+      this.state.status = 'INTERVIEWING';
+      this.log('QUESTION', `Follow-up ${subTurns.length} on ${followUp.targetSkill}: probing ${followUp.expectedKeywords.join(', ')}.`, {
+        questionId: followUp.id, followUpOf: followUp.followUpOf, baseScore, probed: followUp.expectedKeywords
+      });
+      return;
+    }
+
+    this.completeTurn(subTurns);
+  }
 
-    // G. Difficulty Adaptation
-    const nextDiff = LogicCore.nextDifficulty(this.state.currentDifficulty, finalScore, this.state.difficultyCeiling);
+  /**
+   * Closes the turn: the combined score of all sub-turns drives difficulty and strikes.
+   */
+  private completeTurn(subTurns: InterviewSubTurn[]) {
+    const evaluation = LogicCore.combineSubTurns(subTurns, this.policy);
+    const finalScore = evaluation.finalScore;
+    if (subTurns.length > 1) {
+      const injection = evaluation.injectionPenalty ? ` | Injection: -${evaluation.injectionPenalty}` : '';
+      this.log('SCORE', `Combined over ${subTurns.length} answers | Base: ${evaluation.totalScore} | Time: -${evaluation.timePenalty} | Gap: -${evaluation.skillGapPenalty}${injection} | Final: ${finalScore.toFixed(2)}`, {
+        answers: subTurns.length, scores: subTurns.map(s => s.evaluation.finalScore), weight: this.policy.FOLLOW_UP.WEIGHT,
+        baseScore: evaluation.totalScore, timePenalty: evaluation.timePenalty, gapPenalty: evaluation.skillGapPenalty, injectionPenalty: evaluation.injectionPenalty, finalScore
+      });
+    }
+
+    // H. Difficulty Adaptation
+    const nextDiff = LogicCore.nextDifficulty(this.state.currentDifficulty, finalScore, this.state.difficultyCeiling, this.policy);
     if (nextDiff !== this.state.currentDifficulty) {
       if (this.state.difficultyCeiling && nextDiff === this.state.difficultyCeiling && this.state.currentDifficulty === this.state.difficultyCeiling) {
-        this.log(`[ADAPT] Adaptation blocked by Policy Ceiling (${this.state.difficultyCeiling}).`);
+        this.log('ADAPT', `Adaptation blocked by Policy Ceiling (${this.state.difficultyCeiling}).`, { ceiling: this.state.difficultyCeiling });
       } else {
-        this.log(`[ADAPT] Difficulty transitioning: ${this.state.currentDifficulty} -> ${nextDiff}`);
+        this.log('ADAPT', `Difficulty transitioning: ${this.state.currentDifficulty} -> ${nextDiff}`, { from: this.state.currentDifficulty, to: nextDiff });
       }
     }
 
-    // H. Strike System
-    const { CRITICAL_FAIL_SCORE, WEAK_SCORE } = INTERVIEW_POLICY.SCORING;
+    // I. Strike System
+    const { CRITICAL_FAIL_SCORE, WEAK_SCORE } = this.policy.SCORING;
     let strikes = 0;
-    
+
     if (finalScore <= CRITICAL_FAIL_SCORE) {
-      strikes = INTERVIEW_POLICY.TERMINATION.CRITICAL_FAIL_STRIKES;
-      this.log(`[RISK] Critical Failure (<= ${CRITICAL_FAIL_SCORE}). +${strikes} Strikes.`);
+      strikes = this.policy.TERMINATION.CRITICAL_FAIL_STRIKES;
+      this.log('RISK', `Critical Failure (<= ${CRITICAL_FAIL_SCORE}). +${strikes} Strikes.`, { finalScore, strikes }, 'ERROR');
     } else if (finalScore <= WEAK_SCORE) {
       strikes = 1;
-      this.log(`[RISK] Weak Answer (<= ${WEAK_SCORE}). +1 Strike.`);
+      this.log('RISK', `Weak Answer (<= ${WEAK_SCORE}). +1 Strike.`, { finalScore, strikes });
     } else {
       if (this.state.consecutiveWeakAnswers > 0) {
-        this.log(`[RECOVERY] Performance stabilized. Resetting consecutive strike counter.`);
+        this.log('RECOVERY', `Performance stabilized. Resetting consecutive strike counter.`);
         this.state.consecutiveWeakAnswers = 0;
       }
     }
-    
+
     this.state.consecutiveWeakAnswers += strikes;
 
-    // I. Record Turn
+    // J. Record Turn
+    const [main] = subTurns;
     const turn: InterviewTurn = {
-      question,
-      answer: answerText,
-      evaluation: {
-        ...rawEvaluation!,
-        totalScore: baseScore,
-        timeTakenSeconds,
-        timePenalty,
-        finalScore,
-        feedback: rawEvaluation!.feedback || "Processed by Policy Engine",
-        skillGapPenalty: gapPenalty,
-        isFallback: rawEvaluation!.isFallback
-      },
+      question: main.question,
+      answer: main.answer,
+      evaluation,
+      subTurns,
       difficultyBefore: this.state.currentDifficulty,
       difficultyAfter: nextDiff,
-      timestamp: Date.now(),
+      timestamp: this.eventTime,
       criticalFailure: finalScore <= CRITICAL_FAIL_SCORE
     };
 
@@ -352,13 +804,170 @@ export class InterviewEngine {
     this.state.scoreHistory.push(finalScore);
     this.state.currentDifficulty = nextDiff;
     this.state.activeQuestion = null; // Clear active question
+    this.state.questionClock = null;
+    this.state.pendingSubTurns = [];
 
-    // J. Check Termination / Transition
+    // K. Skill Proficiency (re-estimated from every turn, so replays agree)
+    const proficiency = this.updateSkillMatrix();
+    const measured = proficiency.find(p => skillTaxonomy.same(p.skill, main.question.targetSkill));
+    if (measured) {
+      this.log('ANALYSIS', `Proficiency '${measured.skill}': ${measured.estimate} (${measured.low}-${measured.high}) -> ${measured.level} over ${measured.evidence} answer(s).`, { ...measured });
+    }
+
+    // L. Check Termination / Transition
     if (!this.checkTermination()) {
       // If not terminated, we are effectively GENERATING waiting for the next question.
-      this.state.status = 'GENERATING'; 
-      this.notify();
+      this.state.status = 'GENERATING';
+    }
+  }
+
+  private updateSkillMatrix() {
+    const proficiency = estimateProficiency(this.state.turns, this.policy);
+    this.state.skillMatrix = buildSkillMatrix(proficiency, this.claimedSkills(), this.policy);
+    return proficiency;
+  }
+
+  // --- Human Overrides ---
+
+  /**
+   * Corrects a scored turn's dimension scores and/or final score. Each override
+   * is taken against the automated evaluation, which stays on the turn, so a
+   * later override replaces an earlier one. A written justification is mandatory.
+   */
+  public overrideTurn({ turnIndex, adjustment, justification, interviewer, recomputePath = false }: TurnOverrideRequest) {
+    const errors: string[] = [];
+    if (!['INTERVIEWING', 'GENERATING', 'COMPLETED', 'TERMINATED'].includes(this.state.status)) {
+      errors.push(`cannot override while ${this.state.status}`);
+    }
+    if (!Number.isInteger(turnIndex) || !this.state.turns[turnIndex]) {
+      errors.push(`no scored turn ${turnIndex + 1} (${this.state.turns.length} scored)`);
     }
+    if (justification.trim().length === 0) errors.push('a written justification is required');
+    if (interviewer.trim().length === 0) errors.push('the interviewer must be named');
+
+    const keys = [...SCORE_DIMENSIONS, 'finalScore'] as const;
+    const given = keys.filter(key => adjustment[key] !== undefined);
+    if (given.length === 0) errors.push('adjust at least one score');
+    given.forEach(key => {
+      const value = adjustment[key]!;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 10) errors.push(`${key} must be between 0 and 10`);
+    });
+
+    if (errors.length > 0) throw new Error(`Cannot override Q${turnIndex + 1}:\n${errors.join('\n')}`);
+
+    const cleaned = Object.fromEntries(given.map(key => [key, adjustment[key]])) as ScoreAdjustment;
+    this.record({ type: 'TURN_OVERRIDDEN', turnIndex, adjustment: cleaned, justification: justification.trim(), interviewer: interviewer.trim(), recomputePath });
+  }
+
+  private applyOverride(turnIndex: number, adjustment: ScoreAdjustment, justification: string, interviewer: string, recomputePath: boolean) {
+    const turn = this.state.turns[turnIndex];
+    if (!turn) {
+      throw new Error(`Cannot apply override: No turn ${turnIndex + 1}.`);
+    }
+    const activeTurn = this.currentTurn;
+    this.currentTurn = turnIndex;
+    const averageBefore = this.calculateFinalAverage();
+
+    // 1. Rescore against the automated evaluation; penalties stay as computed
+    const original = turn.override?.original ?? turn.evaluation;
+    const previous = turn.evaluation.finalScore;
+    const dimensions: EvaluationCriteria = {
+      accuracy: adjustment.accuracy ?? original.accuracy,
+      clarity: adjustment.clarity ?? original.clarity,
+      depth: adjustment.depth ?? original.depth,
+      relevance: adjustment.relevance ?? original.relevance,
+    };
+    const rescored = SCORE_DIMENSIONS.some(d => adjustment[d] !== undefined);
+    const totalScore = rescored ? LogicCore.calculateScore(dimensions, this.policy) : original.totalScore;
+    const penalties = original.timePenalty + (original.skillGapPenalty ?? 0) + (original.injectionPenalty ?? 0);
+    const finalScore = adjustment.finalScore ?? Math.max(0, Number((totalScore - penalties).toFixed(2)));
+
+    turn.evaluation = { ...original, ...dimensions, totalScore, finalScore };
+    turn.override = { original, adjustment, justification, interviewer, at: this.eventTime, recomputedPath: recomputePath };
+    this.state.scoreHistory[turnIndex] = finalScore;
+    this.log('OVERRIDE', `Q${turnIndex + 1} overridden by ${interviewer}: final ${previous.toFixed(2)} -> ${finalScore.toFixed(2)} (automated ${original.finalScore.toFixed(2)}). Justification: ${justification}`, {
+      adjustment, justification, interviewer,
+      original: { accuracy: original.accuracy, clarity: original.clarity, depth: original.depth, relevance: original.relevance, baseScore: original.totalScore, finalScore: original.finalScore },
+      overridden: { ...dimensions, baseScore: totalScore, finalScore },
+    });
+
+    // 2. Derived values
+    this.updateSkillMatrix();
+    if (recomputePath) this.recomputePath(turnIndex);
+
+    if (this.state.status === 'COMPLETED' || this.state.status === 'TERMINATED') {
+      this.log('FINAL', `Interview score revised: ${averageBefore} -> ${this.calculateFinalAverage()} (policy ${this.policyStamp()})`, {
+        before: Number(averageBefore), average: Number(this.calculateFinalAverage()), policy: this.state.policy
+      });
+    }
+    this.currentTurn = activeTurn;
+  }
+
+  /**
+   * Re-derives the difficulty transitions from the corrected turn onwards and
+   * the strike counter over all turns. Questions already asked keep their
+   * difficulty. A live interview that now reaches the strike limit ends; a
+   * finished one is not reopened.
+   */
+  private recomputePath(from: number) {
+    const { CRITICAL_FAIL_SCORE, WEAK_SCORE } = this.policy.SCORING;
+    const { CRITICAL_FAIL_STRIKES, STRIKE_LIMIT } = this.policy.TERMINATION;
+    const turns = this.state.turns;
+
+    turns.slice(from).forEach(turn => {
+      turn.difficultyAfter = LogicCore.nextDifficulty(turn.difficultyBefore, turn.evaluation.finalScore, this.state.difficultyCeiling, this.policy);
+      turn.criticalFailure = turn.evaluation.finalScore <= CRITICAL_FAIL_SCORE;
+    });
+    const difficulty = turns[turns.length - 1].difficultyAfter;
+    if (difficulty !== this.state.currentDifficulty) {
+      this.log('ADAPT', `Difficulty recomputed after override: ${this.state.currentDifficulty} -> ${difficulty}`, { from: this.state.currentDifficulty, to: difficulty });
+      this.state.currentDifficulty = difficulty;
+    }
+
+    const strikes = turns.reduce((count, turn) => {
+      const score = turn.evaluation.finalScore;
+      if (score <= CRITICAL_FAIL_SCORE) return count + CRITICAL_FAIL_STRIKES;
+      return score <= WEAK_SCORE ? count + 1 : 0;
+    }, 0);
+    if (strikes !== this.state.consecutiveWeakAnswers) {
+      this.log('RISK', `Strike counter recomputed after override: ${this.state.consecutiveWeakAnswers} -> ${strikes}.`, { from: this.state.consecutiveWeakAnswers, to: strikes });
+      this.state.consecutiveWeakAnswers = strikes;
+    }
+
+    if (this.state.status === 'COMPLETED' || this.state.status === 'TERMINATED') {
+      this.log('OVERRIDE', `Interview already ${this.state.status}; the recomputed path is recorded but the outcome is not reopened.`, { strikes, strikeLimit: STRIKE_LIMIT }, 'INFO');
+    } else if (strikes >= STRIKE_LIMIT) {
+      this.state.activeQuestion = null;
+      this.state.questionClock = null;
+      this.state.pendingSubTurns = [];
+      this.pendingSubmission = null;
+      this.terminate(`Performance Threshold Reached: ${strikes} consecutive strikes (after override of Q${from + 1}).`);
+    }
+  }
+
+  private policyStamp(): string {
+    return this.state.policy ? `${this.state.policy.id}@${this.state.policy.version}` : 'unbound';
+  }
+
+  private sessionInit() {
+    const init = this.state.events.find(e => e.type === 'SESSION_INITIALIZED');
+    return init?.type === 'SESSION_INITIALIZED' ? init : null;
+  }
+
+  private claimedSkills(): Skill[] {
+    return this.sessionInit()?.resume.skills ?? [];
+  }
+
+  private logFinalScore() {
+    const average = this.calculateFinalAverage();
+    this.log('FINAL', `Interview score finalized: ${average} (policy ${this.policyStamp()})`, {
+      average: Number(average), policy: this.state.policy
+    });
+    this.state.skillMatrix
+      .filter(row => row.verdict === 'OVER_CLAIMED' || row.verdict === 'UNDER_CLAIMED')
+      .forEach(row => this.log('FINAL', `'${row.skill}' ${VERDICT_LABELS[row.verdict].toLowerCase()}: ${describeClaim(row)}.`, {
+        ...row
+      }, row.verdict === 'OVER_CLAIMED' ? 'WARN' : 'INFO'));
   }
 
   private calculateFinalAverage(): string {
@@ -368,8 +977,8 @@ export class InterviewEngine {
   }
 
   private checkTermination(): boolean {
-    const { STRIKE_LIMIT, MAX_QUESTIONS } = INTERVIEW_POLICY.TERMINATION;
-    const { MAX_VIOLATIONS_ALLOWED } = INTERVIEW_POLICY.TIMING;
+    const { STRIKE_LIMIT, MAX_QUESTIONS } = this.policy.TERMINATION;
+    const { MAX_VIOLATIONS_ALLOWED } = this.policy.TIMING;
 
     // 1. Time Violation Termination (PRIORITY ENFORCEMENT)
     if (this.state.timeViolations > MAX_VIOLATIONS_ALLOWED) {
@@ -386,9 +995,8 @@ export class InterviewEngine {
     // 3. Question Limit
     if (this.state.turns.length >= MAX_QUESTIONS) {
       this.state.status = 'COMPLETED';
-      this.log(`[FINAL] Interview score finalized: ${this.calculateFinalAverage()}`);
-      this.log('[TERM] Interview Completed: Maximum question depth reached.');
-      this.notify();
+      this.logFinalScore();
+      this.log('TERM', 'Interview Completed: Maximum question depth reached.');
       return true;
     }
 
@@ -398,15 +1006,45 @@ export class InterviewEngine {
   private terminate(reason: string) {
     this.state.status = 'TERMINATED';
     this.state.terminationReason = reason;
-    this.log(`[FINAL] Interview score finalized: ${this.calculateFinalAverage()}`);
-    this.log(`[TERM] TERMINATION TRIGGERED: ${reason}`);
-    this.notify();
+    this.logFinalScore();
+    this.log('TERM', `TERMINATION TRIGGERED: ${reason}`, { reason }, 'ERROR');
+  }
+
+  /**
+   * Rehydrates a persisted snapshot. A turn interrupted mid-evaluation is
+   * reopened so the candidate can resubmit instead of losing the question.
+   * The question clock continues from elapsedSeconds (default: the time
+   * measured up to the snapshot's last event).
+   */
+  public restore(snapshot: InterviewState, elapsedSeconds?: number) {
+    const init = snapshot.events.find(e => e.type === 'SESSION_INITIALIZED');
+    this.policy = this.policyOverride ?? (init?.type === 'SESSION_INITIALIZED' ? init.policy.policy : this.deps.policy);
+    this.state = snapshot;
+    this.pendingSubmission = null;
+    this.currentTurn = snapshot.activeQuestion ? snapshot.turns.length : (snapshot.turns.length > 0 ? snapshot.turns.length - 1 : null);
+    this.logSeq = (snapshot.logs[snapshot.logs.length - 1]?.seq ?? 0) + 1;
+    const lastEventAt = snapshot.events[snapshot.events.length - 1]?.at;
+    const elapsed = elapsedSeconds ?? (lastEventAt !== undefined ? this.elapsedSeconds(lastEventAt) : null);
+    this.record({ type: 'SESSION_RESTORED', ...(elapsed !== null ? { elapsedSeconds: elapsed } : {}) });
   }
 
   public reset() {
-    this.state = this.getInitialState();
+    this.policy = this.policyOverride ?? this.deps.policy;
+    this.state = createInitialState(this.policy);
+    this.pendingSubmission = null;
+    this.currentTurn = null;
+    this.logSeq = 1;
     this.notify();
   }
 }
 
-export const engine = new InterviewEngine();
+/**
+ * Rebuilds the exact InterviewState from a recorded event stream.
+ * Same events + same policy => same scores, transitions and termination reason.
+ * Omit the policy to use the one recorded at session initialization.
+ */
+export const replay = (events: EngineEvent[], policy: InterviewPolicy | null = null): InterviewState => {
+  const replayEngine = new InterviewEngine({}, policy);
+  events.forEach(event => replayEngine.ingest(event));
+  return replayEngine.getState();
+};
@@ -0,0 +1,65 @@
+import { Difficulty, EvaluatorOutput, JobDescriptionData, Question, ResumeData } from "../types";
+import { INTERVIEW_POLICY, InterviewPolicy } from "./policy";
+import { FallbackRegistry } from "./fallback";
+import { runCode } from "./codeSandbox";
+
+// ============================================================================
+// ENGINE COLLABORATORS
+// Everything InterviewEngine needs from the outside world. The defaults need
+// no LLM: the deterministic evaluator, the offline question bank and the
+// system clock. The engine is part of the browser bundle (replays), so the
+// LLM-backed collaborators are built by the server (server/llmDeps.ts);
+// headless runs and replays inject their own.
+// ============================================================================
+
+export interface AnswerEvaluator {
+  evaluate(question: Question, answer: string, policy: InterviewPolicy): Promise<EvaluatorOutput>;
+}
+
+export interface QuestionRequest {
+  jd: JobDescriptionData;
+  resume: ResumeData;
+  difficulty: Difficulty;
+  previousQuestions: string[];
+  seed: string; // Stable per session and turn, for reproducible offline selection
+}
+
+export interface QuestionSource {
+  next(request: QuestionRequest): Promise<Question>;
+}
+
+export interface Clock {
+  now(): number; // Epoch milliseconds
+}
+
+export type IdGenerator = () => string;
+
+export interface EngineDependencies {
+  evaluator: AnswerEvaluator;
+  questions: QuestionSource;
+  policy: InterviewPolicy; // Used until a session binds its own policy
+  clock: Clock;
+  ids: IdGenerator;        // Session ids
+}
+
+export const deterministicEvaluator: AnswerEvaluator = {
+  evaluate: async (question, answer, policy) => question.coding
+    ? FallbackRegistry.evaluateCode(question, answer, await runCode(question.coding, answer, policy))
+    : FallbackRegistry.evaluate(question, answer, policy),
+};
+
+export const bankQuestionSource: QuestionSource = {
+  next: async ({ jd, difficulty, previousQuestions, seed }) => FallbackRegistry.pickQuestion(jd, difficulty, previousQuestions, seed),
+};
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export const randomIds: IdGenerator = () => crypto.randomUUID();
+
+export const defaultDependencies = (): EngineDependencies => ({
+  evaluator: deterministicEvaluator,
+  questions: bankQuestionSource,
+  policy: INTERVIEW_POLICY,
+  clock: systemClock,
+  ids: randomIds,
+});
@@ -0,0 +1,127 @@
+import { ResumeData, JobDescriptionData, Question, EvaluatorOutput, Difficulty, CodeRunResult } from "../types";
+import { INTERVIEW_POLICY, InterviewPolicy } from "./policy";
+import { parseResumeText } from "./resumeParser";
+import { parseJDText } from "./jdParser";
+import { questionBank, toQuestion } from "./questionBank";
+import { analyzeAnswer } from "./answerAnalysis";
+import { describeRun, testsRan } from "./codeSandbox";
+
+// --- Fallback Registry ---
+// Deterministic data and logic for when LLM is unavailable
+
+export const FALLBACK_PROVIDER_NAME = 'deterministic';
+
+// Accuracy multiplier for answers that list keywords without explaining them
+const STUFFING_MULTIPLIER = 0.5;
+
+const MAX_READABLE_LINE = 100; // Characters; longer code lines cost clarity
+
+const UNTESTED_PASS_RATE = 0.5; // Stands in for the pass rate when the tests never ran
+
+export const FallbackRegistry = {
+  evaluate: (question: Question, answer: string, policy: InterviewPolicy = INTERVIEW_POLICY): EvaluatorOutput & { isFallback: boolean } => {
+    const { FALLBACK_SCORING } = policy;
+
+    // 1. Concept Analysis (stemmed keywords + synonyms, negation-aware, credited only inside real sentences)
+    const analysis = analyzeAnswer(answer, question.expectedKeywords);
+    const matched = analysis.concepts.filter(c => c.status === 'MATCHED').map(c => c.keyword);
+    const negated = analysis.concepts.filter(c => c.status === 'NEGATED').map(c => c.keyword);
+    const listed = analysis.concepts.filter(c => c.status === 'LISTED').map(c => c.keyword);
+    const missed = analysis.concepts.filter(c => c.status !== 'MATCHED').map(c => c.keyword);
+    const coverage = question.expectedKeywords.length > 0 ? matched.length / question.expectedKeywords.length : 0;
+
+    // 2. Length Analysis (only prose earns the length bonus)
+    const isShort = answer.length < FALLBACK_SCORING.LENGTH_THRESHOLD_CHARS;
+    const stuffing = analysis.isKeywordStuffing;
+
+    // 3. Scoring Heuristic
+    let heuristicScore = FALLBACK_SCORING.BASE_SCORE;
+    heuristicScore += (matched.length * FALLBACK_SCORING.KEYWORD_MATCH_VALUE);
+    if (!isShort && !stuffing) heuristicScore += FALLBACK_SCORING.LENGTH_BONUS;
+    if (stuffing) heuristicScore *= STUFFING_MULTIPLIER;
+
+    // Cap Score. A denied concept is a wrong claim, not an omission: it costs a match, after the cap would absorb it
+    heuristicScore = Math.min(heuristicScore, FALLBACK_SCORING.MAX_SCORE);
+    heuristicScore = Math.max(0, heuristicScore - negated.length * FALLBACK_SCORING.KEYWORD_MATCH_VALUE);
+
+    // 4. Structure-derived dimensions
+    const wellFormedRatio = analysis.sentenceCount > 0 ? analysis.wellFormedSentences / analysis.sentenceCount : 0;
+    const readableLength = analysis.avgSentenceLength >= 6 && analysis.avgSentenceLength <= 30;
+    const clarity = 2 + 5 * wellFormedRatio + (readableLength ? 2 : 0) + Math.min(1, analysis.connectorCount);
+    const depth = 1 + 5 * coverage + Math.min(2, analysis.connectorCount) + (isShort ? 0 : 2);
+    const relevance = 2 + 8 * coverage;
+
+    // 5. Construct Feedback
+    let feedback = `[Deterministic Evaluation] `;
+    feedback += matched.length > 0 ? `Matched concepts: ${matched.join(', ')}. ` : `Answer lacked specific expected technical terminology. `;
+    if (missed.length > 0) feedback += `Missed concepts: ${missed.join(', ')}. `;
+    if (negated.length > 0) feedback += `Negated (not credited): ${negated.join(', ')}. `;
+    if (listed.length > 0) feedback += `Only listed, not explained (not credited): ${listed.join(', ')}. `;
+    if (stuffing) feedback += "Keywords were listed without explanation; score reduced. ";
+    if (isShort) feedback += "Response was brief.";
+
+    const round1 = (n: number) => Number(Math.min(10, n).toFixed(1));
+    return {
+      accuracy: round1(heuristicScore),
+      clarity: round1(stuffing ? Math.min(clarity, 3) : clarity),
+      depth: round1(stuffing ? Math.min(depth, 3) : depth),
+      relevance: round1(stuffing ? Math.min(relevance, 4) : relevance),
+      feedback: feedback.trim(),
+      matchedConcepts: matched,
+      missedConcepts: missed,
+      isFallback: true,
+      provider: FALLBACK_PROVIDER_NAME
+    };
+  },
+
+  /**
+   * Code-quality heuristics for coding answers. Accuracy mirrors the pass rate;
+   * the Policy Engine derives the scored accuracy from the test results anyway.
+   */
+  evaluateCode: (question: Question, code: string, codeRun: CodeRunResult): EvaluatorOutput & { isFallback: boolean } => {
+    const lines = code.split('\n').filter(l => l.trim().length > 0);
+    const longLines = lines.filter(l => l.length > MAX_READABLE_LINE).length;
+    const usesVar = /\bvar\s/.test(code);
+    const hasComments = /\/\/|\/\*/.test(code);
+    const definesFunction = new RegExp(`\\b${question.coding?.functionName}\\b`).test(code);
+    const passRate = !testsRan(codeRun) ? (definesFunction ? UNTESTED_PASS_RATE : 0)
+      : codeRun.total > 0 ? codeRun.passed / codeRun.total : 0;
+
+    let feedback = `[Deterministic Evaluation] ${describeRun(codeRun)}. `;
+    if (longLines > 0) feedback += `${longLines} line(s) longer than ${MAX_READABLE_LINE} characters. `;
+    if (usesVar) feedback += "Prefer const/let over var. ";
+    if (!definesFunction) feedback += `Required function '${question.coding?.functionName}' was not found.`;
+
+    const round1 = (n: number) => Number(Math.min(10, n).toFixed(1));
+    return {
+      accuracy: round1(10 * passRate),
+      clarity: round1(6 + (longLines === 0 ? 2 : 0) + (usesVar ? 0 : 1) + (hasComments ? 1 : 0)),
+      depth: round1(2 + 6 * passRate + (codeRun.runtimeErrors === 0 ? 2 : 0)), // Hidden cases probe edge cases
+      relevance: definesFunction ? 10 : 2,
+      feedback: feedback.trim(),
+      codeRun,
+      isFallback: true,
+      provider: FALLBACK_PROVIDER_NAME
+    };
+  },
+
+  /**
+   * Picks the next question from the offline bank (see questionBank.ts).
+   * Throws once every bank question has been asked.
+   */
+  pickQuestion: (jd: JobDescriptionData, difficulty: Difficulty, previousQuestions: string[], seed: string): Question => {
+    const picked = questionBank.select({ jd, difficulty, previousQuestions, seed });
+    if (!picked) throw new Error("Offline question bank exhausted for this session");
+    return toQuestion(picked);
+  },
+
+  /**
+   * Rule-based resume extraction (see resumeParser.ts). Never throws.
+   */
+  parseResume: (text: string): ResumeData => parseResumeText(text),
+
+  /**
+   * Rule-based JD extraction (see jdParser.ts). Never throws.
+   */
+  parseJD: (text: string): JobDescriptionData => parseJDText(text)
+};
@@ -0,0 +1,42 @@
+import { AnswerEvaluation, Question } from "../types";
+import { analyzeAnswer } from "./answerAnalysis";
+
+// ============================================================================
+// FOLLOW-UP PROBES
+// A partial answer is probed on the expected keywords it missed, within the
+// same turn and skill. Follow-ups are built deterministically from the
+// recorded answer and evaluation, so replaying a session asks the same ones.
+// ============================================================================
+
+const MAX_PROBED_KEYWORDS = 3;
+
+/**
+ * Expected keywords the answer did not cover. Uses the evaluator's own list
+ * when it reports one, and the deterministic answer analysis otherwise.
+ */
+export const missedKeywords = (question: Question, answer: string, evaluation: Pick<AnswerEvaluation, 'missedConcepts'>): string[] =>
+  evaluation.missedConcepts ??
+  analyzeAnswer(answer, question.expectedKeywords).concepts.filter(c => c.status !== 'MATCHED').map(c => c.keyword);
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`;
+
+/**
+ * Builds follow-up number `index` (1-based) for `parent`, asking about `missed`.
+ */
+export const buildFollowUp = (parent: Question, missed: string[], index: number): Question => {
+  const probed = missed.slice(0, MAX_PROBED_KEYWORDS);
+  const text = probed.length === 1
+    ? `Your answer did not mention ${probed[0]}. How does it apply here?`
+    : `Your answer did not cover ${joinList(probed)}. How do they apply here?`;
+
+  return {
+    id: `${parent.id}:follow-up-${index}`,
+    text,
+    targetSkill: parent.targetSkill,
+    difficulty: parent.difficulty,
+    expectedKeywords: probed,
+    ...(parent.source ? { source: parent.source } : {}),
+    followUpOf: parent.id,
+  };
+};
@@ -0,0 +1,28 @@
+// ============================================================================
+// PAGE ROUTES
+// The bundle serves three screens, chosen by the URL hash:
+//   #/candidate/<sessionId>                 question, timer and answer box only
+//   #/observe/<sessionId>?token=<token>     live read-only interviewer view
+//   anything else                           the interviewer console (App)
+// ============================================================================
+
+export type PageRoute =
+  | { page: 'candidate'; sessionId: string }
+  | { page: 'observe'; sessionId: string; token: string }
+  | { page: 'console' };
+
+export const parseHashRoute = (hash: string): PageRoute => {
+  const [path, query = ''] = hash.replace(/^#/, '').split('?');
+  const candidate = path.match(/^\/candidate\/([^/]+)$/);
+  if (candidate) return { page: 'candidate', sessionId: decodeURIComponent(candidate[1]) };
+  const observe = path.match(/^\/observe\/([^/]+)$/);
+  const token = new URLSearchParams(query).get('token');
+  if (observe && token) return { page: 'observe', sessionId: decodeURIComponent(observe[1]), token };
+  return { page: 'console' };
+};
+
+export const candidateLink = (origin: string, sessionId: string) =>
+  `${origin}/#/candidate/${encodeURIComponent(sessionId)}`;
+
+export const observerLink = (origin: string, sessionId: string, token: string) =>
+  `${origin}/#/observe/${encodeURIComponent(sessionId)}?token=${encodeURIComponent(token)}`;
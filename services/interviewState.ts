@@ -0,0 +1,52 @@
+import { Difficulty, InterviewState, QuestionClock } from "../types";
+import { INTERVIEW_POLICY, InterviewPolicy } from "./policy";
+
+// ============================================================================
+// INTERVIEW STATE
+// The parts of the engine's state model that clients need without the engine
+// itself: the state before any session exists and the question clock. Nothing
+// here reaches an LLM provider, so it is safe in the browser bundle.
+// ============================================================================
+
+export const policyConfig = (policy: InterviewPolicy): InterviewState['config'] => ({
+  maxQuestions: policy.TERMINATION.MAX_QUESTIONS,
+  timeLimitPerQuestion: policy.TIMING.LIMIT_SEC,
+  passingScoreThreshold: policy.SCORING.PASSING_THRESHOLD,
+  maxViolations: policy.TIMING.MAX_VIOLATIONS_ALLOWED,
+  strikeLimit: policy.TERMINATION.STRIKE_LIMIT,
+});
+
+/**
+ * State of an engine with no session yet (shown until the server has one).
+ */
+export const createInitialState = (policy: InterviewPolicy = INTERVIEW_POLICY): InterviewState => ({
+  sessionId: null,
+  policy: null,
+  status: 'IDLE',
+  currentDifficulty: Difficulty.Easy,
+  evaluationMode: 'LLM', // Default to LLM
+  activeQuestion: null,
+  questionClock: null,
+  pendingSubTurns: [],
+  turns: [],
+  scoreHistory: [],
+  consecutiveWeakAnswers: 0,
+  timeViolations: 0,
+  skillMatches: [],
+  detectedSkillGaps: [],
+  difficultyCeiling: null,
+  skillMatrix: [],
+  terminationReason: null,
+  logs: [{ seq: 0, timestamp: null, category: 'SYSTEM', severity: 'INFO', turnIndex: null, message: 'Engine Online. Policy: Strict. Mode: Deterministic.' }],
+  events: [],
+  config: policyConfig(policy),
+});
+
+/**
+ * Seconds spent on a question at `at`, excluding approved pauses. Shared with
+ * clients that display the engine's clock (see services/apiClient.ts).
+ */
+export const questionElapsedSeconds = (clock: QuestionClock, at: number): number => {
+  const end = clock.pausedAt ?? at;
+  return Math.max(0, Math.round((end - clock.presentedAt - clock.pausedMs) / 100) / 10);
+};
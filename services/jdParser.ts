@@ -0,0 +1,115 @@
+import { JobDescriptionData, ParseDiagnostics } from "../types";
+import { Extraction, ROLE_WORDS, clean, labelled, sectionLines, splitList } from "./textRules";
+
+// ============================================================================
+// DETERMINISTIC JD PARSER
+// Rule-based extraction used when no LLM is reachable. Skills are split into
+// Primary (required) and Secondary (nice-to-have) from labelled lines, section
+// headings with bullet lists, or inline phrases ("Critical: ...", "Bonus: ...").
+// Seniority comes from an explicit level, the title, or required years.
+// ============================================================================
+
+export const JD_PARSER_NAME = 'deterministic-jd';
+
+const FIELD_WEIGHTS: Record<'roleTitle' | 'complexityLevel' | 'primarySkills' | 'secondarySkills', number> = {
+  roleTitle: 0.2,
+  complexityLevel: 0.2,
+  primarySkills: 0.45,
+  secondarySkills: 0.15,
+};
+
+const PRIMARY_LABELS = /^(primary|required|core|critical|must[- ]have|mandatory|key)(\s+(skills?|requirements?|qualifications?|technologies))?$|^requirements?$|^qualifications?$/i;
+const SECONDARY_LABELS = /^(secondary|nice[- ]to[- ]have|bonus|preferred|optional|desired|plus)(\s+(skills?|requirements?|qualifications?|points?))?$|^(bonus|extra)\s+points$/i;
+
+// Inline phrases inside prose, e.g. "Critical: React/TS/GraphQL. Nice to have: AWS."
+const INLINE_PRIMARY = /\b(?:critical|required|must[- ]have)\s*:\s*([^.\n]+)/i;
+const INLINE_SECONDARY = /\b(?:nice[- ]to[- ]have|bonus|preferred)\s*:\s*([^.\n]+)/i;
+
+// Bullet lead-ins that wrap a skill name in a sentence
+const LEAD_IN = /^(?:\d+\+?\s*years?(?:\s+of)?(?:\s+experience)?\s+(?:with|in|using)\s+|(?:strong|solid|deep|hands-on|proven)?\s*(?:experience|knowledge|proficiency|familiarity|expertise)\s+(?:with|in|of)\s+)/i;
+const MAX_SKILL_WORDS = 4;
+
+const COMPLEXITY_WORDS: [RegExp, JobDescriptionData['complexityLevel']][] = [
+  [/\b(senior|sr\.?|staff|principal|lead|architect)\b/i, 'Senior'],
+  [/\b(junior|jr\.?|entry[- ]level|graduate|intern|associate)\b/i, 'Junior'],
+  [/\b(mid|mid[- ]level|intermediate)\b/i, 'Mid'],
+];
+
+const extractRoleTitle = (lines: string[]): Extraction<string> => {
+  const value = labelled(lines, /^(role|title|position|job title|job)$/i);
+  if (value) return { value, certainty: 1 };
+
+  // A short heading or opening sentence that names a role ("# Junior Backend Developer")
+  const sentences = lines.flatMap(l => clean(l).replace(/^#+\s*/, '').split(/(?<=\.)\s+/));
+  const title = sentences.find(l => ROLE_WORDS.test(l) && l.length <= 60 && !l.includes(':'));
+  return title ? { value: title.replace(/\.$/, ''), certainty: 0.5 } : null;
+};
+
+const extractComplexity = (text: string, lines: string[], roleTitle: string | null): Extraction<JobDescriptionData['complexityLevel']> => {
+  const value = labelled(lines, /^(complexity|level|seniority|experience level)$/i);
+  const explicit = value && COMPLEXITY_WORDS.find(([re]) => re.test(value));
+  if (explicit) return { value: explicit[1], certainty: 1 };
+
+  const fromTitle = roleTitle && COMPLEXITY_WORDS.find(([re]) => re.test(roleTitle));
+  if (fromTitle) return { value: fromTitle[1], certainty: 1 };
+
+  const years = text.match(/(\d+)\s*\+?\s*(?:years?|yrs?)/i);
+  if (years) {
+    const n = Number(years[1]);
+    return { value: n >= 5 ? 'Senior' : n >= 2 ? 'Mid' : 'Junior', certainty: 0.5 };
+  }
+  return null;
+};
+
+/**
+ * Turns a bullet like "3+ years of experience with React and Node.js" into ["React", "Node.js"].
+ */
+const skillsFromItem = (item: string): string[] =>
+  splitList(clean(item).replace(LEAD_IN, '').replace(/\.$/, ''), true)
+    .flatMap(part => part.split(/\s+(?:and|or|&)\s+/i))
+    .map(part => clean(part).replace(/\s*\(.*\)$/, ''))
+    .filter(part => part.length > 0 && part.split(/\s+/).length <= MAX_SKILL_WORDS);
+
+const extractSkillGroup = (text: string, lines: string[], labels: RegExp, inline: RegExp): Extraction<string[]> => {
+  const collect = (items: string[]) => Array.from(new Map(items.flatMap(skillsFromItem).map(s => [s.toLowerCase(), s])).values());
+
+  // 1. "Primary Skills: React, TypeScript"
+  const line = labelled(lines, labels);
+  if (line) return { value: collect([line]), certainty: 1 };
+
+  // 2. "Requirements" heading followed by bullets
+  const section = sectionLines(lines, labels);
+  if (section && section.length > 0) return { value: collect(section), certainty: 1 };
+
+  // 3. Inline phrase inside the description
+  const phrase = text.match(inline);
+  if (phrase) return { value: collect([phrase[1]]), certainty: 0.5 };
+  return null;
+};
+
+export const parseJDText = (text: string): JobDescriptionData & { parseDiagnostics: ParseDiagnostics } => {
+  const lines = text.split(/\r?\n/);
+
+  const roleTitle = extractRoleTitle(lines);
+  const complexityLevel = extractComplexity(text, lines, roleTitle?.value ?? null);
+  const primarySkills = extractSkillGroup(text, lines, PRIMARY_LABELS, INLINE_PRIMARY);
+  const secondary = extractSkillGroup(text, lines, SECONDARY_LABELS, INLINE_SECONDARY);
+
+  // A skill listed as required is never also "nice to have"
+  const required = new Set((primarySkills?.value ?? []).map(s => s.toLowerCase()));
+  const secondarySkills = secondary && { ...secondary, value: secondary.value.filter(s => !required.has(s.toLowerCase())) };
+
+  const found = { roleTitle, complexityLevel, primarySkills, secondarySkills };
+  const keys = Object.keys(found) as (keyof typeof found)[];
+  const missingFields = keys.filter(k => found[k] === null);
+  const confidence = keys.reduce((sum, k) => sum + FIELD_WEIGHTS[k] * (found[k]?.certainty ?? 0), 0);
+
+  return {
+    roleTitle: roleTitle?.value ?? 'Unknown Role',
+    complexityLevel: complexityLevel?.value ?? 'Mid',
+    primarySkills: primarySkills?.value ?? [],
+    secondarySkills: secondarySkills?.value ?? [],
+    description: text,
+    parseDiagnostics: { parser: JD_PARSER_NAME, confidence: Number(confidence.toFixed(2)), missingFields },
+  };
+};
@@ -0,0 +1,159 @@
+import { ResumeData, JobDescriptionData, Question, Difficulty, EvaluatorOutput, EvaluationCriteria, LLMFailure } from "../types";
+import { LLMProvider, ProviderEvaluation, ProviderKind } from "./provider";
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai";
+import { ScriptedMockProvider } from "./mockProvider";
+import { FallbackRegistry } from "./fallback";
+import { INTERVIEW_POLICY, InterviewPolicy } from "./policy";
+import { CodeRunner, runCode } from "./codeSandbox";
+import { callLLM, describeFailure, MALFORMED_PREFIX } from "./llmErrors";
+
+// ============================================================================
+// PROVIDER SELECTION
+// The active backend is picked from config (LLM_PROVIDER) and can be
+// swapped at runtime, e.g. by tests installing a ScriptedMockProvider. Every
+// call below also accepts an explicit provider, so sessions that need their
+// own backend do not have to swap the shared one. Server and scripts only:
+// nothing the browser imports may reach this module or its keys.
+// ============================================================================
+
+type EnvLookup = (key: string) => string | undefined;
+
+const processEnv: EnvLookup = key => process.env[key];
+
+/**
+ * @param env Where settings come from (default: the process environment).
+ */
+export const createProviderFromConfig = (env: EnvLookup = processEnv): LLMProvider => {
+  const kind = (env('LLM_PROVIDER') || 'gemini') as ProviderKind;
+
+  switch (kind) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: env('OPENAI_BASE_URL') || 'http://localhost:11434/v1',
+        model: env('OPENAI_MODEL') || 'llama3.1',
+        apiKey: env('OPENAI_API_KEY'),
+      });
+    case 'mock':
+      return new ScriptedMockProvider();
+    case 'gemini':
+      return new GeminiProvider(env('API_KEY'));
+    default:
+      console.warn(`Unknown LLM_PROVIDER '${kind}'. Using Gemini.`);
+      return new GeminiProvider(env('API_KEY'));
+  }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) activeProvider = createProviderFromConfig();
+  return activeProvider;
+};
+
+export const setProvider = (provider: LLMProvider | null) => {
+  activeProvider = provider;
+};
+
+// --- API Calls with Graceful Degradation ---
+// Transient errors are retried (services/llmErrors.ts); any other failure
+// falls back at once, and evaluations and questions record why.
+
+const warn = (provider: LLMProvider, call: string, failure: LLMFailure) =>
+  console.warn(`[${provider.name}] ${call} Failed (${describeFailure(failure)})`);
+
+export const parseResume = async (text: string, provider: LLMProvider = getProvider()): Promise<ResumeData> => {
+  const result = await callLLM(() => provider.parseResume(text));
+  if (result.ok === true) return result.value;
+  warn(provider, 'Resume Parse', result.failure);
+  return FallbackRegistry.parseResume(text);
+};
+
+export const parseJD = async (text: string, provider: LLMProvider = getProvider()): Promise<JobDescriptionData> => {
+  const result = await callLLM(() => provider.parseJD(text));
+  if (result.ok === true) return { ...result.value, description: text };
+  warn(provider, 'JD Parse', result.failure);
+  return FallbackRegistry.parseJD(text);
+};
+
+export const generateQuestion = async (
+  jd: JobDescriptionData,
+  resume: ResumeData,
+  currentDifficulty: Difficulty,
+  previousQuestions: string[],
+  seed: string = previousQuestions.join('|'), // Offline selection is reproducible per seed
+  provider: LLMProvider = getProvider()
+): Promise<Question> => {
+  const result = await callLLM(() => provider.generateQuestion({ jd, resume, currentDifficulty, previousQuestions }));
+  if (result.ok === true) {
+    return { ...result.value, id: crypto.randomUUID(), difficulty: currentDifficulty, source: 'llm' };
+  }
+  warn(provider, 'Question Gen', result.failure);
+  return { ...FallbackRegistry.pickQuestion(jd, currentDifficulty, previousQuestions, seed), llmError: result.failure };
+};
+
+const DIMENSIONS: (keyof EvaluationCriteria)[] = ['accuracy', 'clarity', 'depth', 'relevance'];
+const MIN_SCORE = 0;
+const MAX_SCORE = 10;
+
+/**
+ * Rejects an evaluation with a missing or non-numeric dimension (NaN
+ * included) and clamps finite out-of-range ones to 0-10, keeping the
+ * values the provider returned.
+ */
+export const checkEvaluation = (result: ProviderEvaluation): { ok: true, evaluation: ProviderEvaluation & { clamped?: Partial<EvaluationCriteria> } } | { ok: false, message: string } => {
+  const invalid = DIMENSIONS.filter(d => typeof result?.[d] !== 'number' || !Number.isFinite(result[d]));
+  if (invalid.length > 0) {
+    return { ok: false, message: `${MALFORMED_PREFIX}: ${invalid.map(d => `${d}=${result?.[d] === undefined ? 'missing' : typeof result[d] === 'number' ? result[d] : JSON.stringify(result[d])}`).join(', ')}` };
+  }
+  const clamped: Partial<EvaluationCriteria> = {};
+  const evaluation = { ...result, feedback: typeof result.feedback === 'string' ? result.feedback : '' };
+  DIMENSIONS.forEach(d => {
+    if (result[d] < MIN_SCORE || result[d] > MAX_SCORE) {
+      clamped[d] = result[d];
+      evaluation[d] = Math.min(MAX_SCORE, Math.max(MIN_SCORE, result[d]));
+    }
+  });
+  return { ok: true, evaluation: Object.keys(clamped).length > 0 ? { ...evaluation, clamped } : evaluation };
+};
+
+// Either a checked LLM evaluation or the reason to fall back
+const evaluateWithProvider = async (question: Question, answer: string, policy: InterviewPolicy, provider: LLMProvider): Promise<{ evaluation?: ProviderEvaluation, failure?: LLMFailure }> => {
+  const result = await callLLM(() => provider.evaluateAnswer(question, answer, policy));
+  if (result.ok === false) return { failure: result.failure };
+  const checked = checkEvaluation(result.value);
+  if (checked.ok === false) return { failure: { kind: 'MALFORMED', message: checked.message, attempts: result.attempts } };
+  return { evaluation: checked.evaluation };
+};
+
+export const evaluateAnswer = async (
+  question: Question,
+  answer: string,
+  policy: InterviewPolicy = INTERVIEW_POLICY,
+  provider: LLMProvider = getProvider(),
+  runner: CodeRunner = runCode // Where coding answers are run
+): Promise<EvaluatorOutput> => {
+  if (question.coding) return evaluateCode(question, answer, policy, provider, runner);
+
+  // Try AI first
+  const { evaluation, failure } = await evaluateWithProvider(question, answer, policy, provider);
+  if (evaluation) return { ...evaluation, isFallback: false, provider: provider.name };
+
+  // Switch to Deterministic Fallback
+  warn(provider, 'Evaluation', failure);
+  return { ...FallbackRegistry.evaluate(question, answer, policy), llmError: failure };
+};
+
+/**
+ * Coding answers: hidden tests decide correctness in the sandbox; the LLM (or
+ * the deterministic fallback) only judges code quality.
+ */
+const evaluateCode = async (question: Question, code: string, policy: InterviewPolicy, provider: LLMProvider, runner: CodeRunner): Promise<EvaluatorOutput> => {
+  const codeRun = await runner(question.coding!, code, policy);
+
+  const { evaluation, failure } = await evaluateWithProvider(question, code, policy, provider);
+  if (evaluation) return { ...evaluation, codeRun, isFallback: false, provider: provider.name };
+
+  warn(provider, 'Code Review', failure);
+  return { ...FallbackRegistry.evaluateCode(question, code, codeRun), llmError: failure };
+};
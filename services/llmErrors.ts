@@ -0,0 +1,76 @@
+import { LLMErrorKind, LLMFailure } from "../types";
+
+// ============================================================================
+// LLM CALL FAILURES
+// Sorts provider errors into a few kinds an interviewer can act on (bad key,
+// quota, network, malformed response) and retries the transient ones (HTTP
+// 429 and 503) with exponential backoff before services/llm.ts falls back.
+// ============================================================================
+
+export const RETRY = {
+  ATTEMPTS: 3,          // Including the first call
+  BASE_DELAY_MS: 1000,  // Doubled after every failed attempt
+  TRANSIENT_STATUS: [429, 503],
+};
+
+// Marks errors raised for responses that arrived but cannot be used
+export const MALFORMED_PREFIX = 'Malformed response';
+
+// Errors from SDKs and fetch are not always Error instances
+const messageOf = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') return error.message;
+  return String(error);
+};
+
+/**
+ * HTTP status of a provider error: Gemini's ApiError and the OpenAI-compatible
+ * provider set `status`; otherwise the first status-like number in the message.
+ */
+const statusOf = (error: unknown): number | null => {
+  if (typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number') return error.status;
+  const match = messageOf(error).match(/\b([45]\d\d)\b/);
+  return match ? Number(match[1]) : null;
+};
+
+export const classifyLLMError = (error: unknown): LLMErrorKind => {
+  const status = statusOf(error);
+  const message = messageOf(error);
+  if (status === 401 || status === 403 || /api[_ ]?key|unauthori[sz]ed|permission denied/i.test(message)) return 'AUTH';
+  if (status === 429 || /quota|rate.?limit|resource.?exhausted/i.test(message)) return 'QUOTA';
+  if (error instanceof SyntaxError || message.startsWith(MALFORMED_PREFIX) || /empty response/i.test(message)) return 'MALFORMED';
+  if ((status !== null && status >= 500) || /network|fetch failed|failed to fetch|ECONN|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|timed? ?out|unavailable/i.test(message)) return 'NETWORK';
+  return 'UNKNOWN';
+};
+
+export const isTransient = (error: unknown) => RETRY.TRANSIENT_STATUS.includes(statusOf(error) ?? 0);
+
+export const describeFailure = (failure: LLMFailure) =>
+  `${failure.kind} after ${failure.attempts} attempt${failure.attempts === 1 ? '' : 's'}: ${failure.message}`;
+
+export type LLMResult<T> =
+  | { ok: true; value: T; attempts: number }
+  | { ok: false; failure: LLMFailure };
+
+type Sleep = (ms: number) => Promise<void>;
+
+const sleep: Sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs one provider call, retrying transient errors. Never throws: failures
+ * come back classified so the caller can fall back and record why.
+ */
+export const callLLM = async <T>(call: () => Promise<T>, wait: Sleep = sleep): Promise<LLMResult<T>> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { ok: true, value: await call(), attempts: attempt };
+    } catch (error) {
+      if (attempt < RETRY.ATTEMPTS && isTransient(error)) {
+        await wait(RETRY.BASE_DELAY_MS * 2 ** (attempt - 1));
+        continue;
+      }
+      const message = messageOf(error);
+      return { ok: false, failure: { kind: classifyLLMError(error), message, attempts: attempt } };
+    }
+  }
+};
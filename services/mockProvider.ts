@@ -0,0 +1,63 @@
+import { ResumeData, Question } from "../types";
+import { LLMProvider, ParsedJD, GeneratedQuestion, ProviderEvaluation } from "./provider";
+import { QuestionContext } from "./prompts";
+
+// ============================================================================
+// SCRIPTED MOCK PROVIDER
+// Replays canned responses in order. When a queue runs dry the call throws,
+// which exercises the same fallback path as a real outage.
+// ============================================================================
+
+export interface MockScript {
+  resumes?: ResumeData[];
+  jds?: ParsedJD[];
+  questions?: GeneratedQuestion[];
+  evaluations?: ProviderEvaluation[];
+}
+
+export type MockCall =
+  | { method: 'parseResume'; text: string }
+  | { method: 'parseJD'; text: string }
+  | { method: 'generateQuestion'; ctx: QuestionContext }
+  | { method: 'evaluateAnswer'; question: Question; answer: string };
+
+export class ScriptedMockProvider implements LLMProvider {
+  public readonly name = 'mock';
+  public readonly calls: MockCall[] = [];
+  private script: Required<MockScript>;
+
+  constructor(script: MockScript = {}) {
+    this.script = {
+      resumes: [...(script.resumes || [])],
+      jds: [...(script.jds || [])],
+      questions: [...(script.questions || [])],
+      evaluations: [...(script.evaluations || [])],
+    };
+  }
+
+  private next<T>(queue: T[], label: string): T {
+    const item = queue.shift();
+    if (item === undefined) throw new Error(`Mock script exhausted: no ${label} left`);
+    return item;
+  }
+
+  async parseResume(text: string): Promise<ResumeData> {
+    this.calls.push({ method: 'parseResume', text });
+    return this.next(this.script.resumes, 'resume');
+  }
+
+  async parseJD(text: string): Promise<ParsedJD> {
+    this.calls.push({ method: 'parseJD', text });
+    return this.next(this.script.jds, 'jd');
+  }
+
+  async generateQuestion(ctx: QuestionContext): Promise<GeneratedQuestion> {
+    this.calls.push({ method: 'generateQuestion', ctx });
+    return this.next(this.script.questions, 'question');
+  }
+
+  async evaluateAnswer(question: Question, answer: string): Promise<ProviderEvaluation> {
+    this.calls.push({ method: 'evaluateAnswer', question, answer });
+    return this.next(this.script.evaluations, 'evaluation');
+  }
+}
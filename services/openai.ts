@@ -0,0 +1,78 @@
+import { ResumeData, Question } from "../types";
+import { LLMProvider, ParsedJD, GeneratedQuestion, ProviderEvaluation } from "./provider";
+import { Prompts, QuestionContext } from "./prompts";
+import { InterviewPolicy } from "./policy";
+import { parseResponse, RESPONSE_SCHEMAS, ResponseKind } from "./responseSchemas";
+
+// ============================================================================
+// OPENAI-COMPATIBLE PROVIDER
+// Talks to any server exposing POST /chat/completions (OpenAI, vLLM, Ollama,
+// llama.cpp, LM Studio). JSON mode is requested and the expected shape is
+// spelled out in the prompt, since local servers rarely support full schemas;
+// the reply is still checked against the full schema (responseSchemas.ts).
+// ============================================================================
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;   // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;   // Optional for local servers
+}
+
+const SHAPES: Record<ResponseKind, string> = {
+  resume: `{"candidateName": string, "experienceYears": number, "primaryRole": string, "skills": [{"name": string, "level": "Junior" | "Mid" | "Senior"}]}`,
+  jd: `{"roleTitle": string, "complexityLevel": "Junior" | "Mid" | "Senior", "primarySkills": string[], "secondarySkills": string[]}`,
+  question: `{"text": string, "targetSkill": string, "expectedKeywords": string[]}`,
+  evaluation: `{"accuracy": number, "clarity": number, "depth": number, "relevance": number, "feedback": string}`,
+};
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name: string;
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    this.name = `openai:${config.model}`;
+  }
+
+  private async completeJSON(prompt: string, kind: ResponseKind, temperature = 0) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+
+    const res = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        temperature,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: `Respond ONLY with a JSON object of shape: ${SHAPES[kind]}` },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+
+    if (!res.ok) {
+      // `status` lets services/llmErrors.ts classify the failure and retry 429/503
+      throw Object.assign(new Error(`OpenAI-compatible request failed: ${res.status} ${res.statusText}`), { status: res.status });
+    }
+    const body = await res.json();
+    const content: string | undefined = body?.choices?.[0]?.message?.content;
+    if (!content) throw new Error("Empty response");
+    return parseResponse(content, RESPONSE_SCHEMAS[kind]);
+  }
+
+  async parseResume(text: string): Promise<ResumeData> {
+    return await this.completeJSON(Prompts.resume(text), 'resume') as ResumeData;
+  }
+
+  async parseJD(text: string): Promise<ParsedJD> {
+    return await this.completeJSON(Prompts.jd(text), 'jd') as ParsedJD;
+  }
+
+  async generateQuestion(ctx: QuestionContext): Promise<GeneratedQuestion> {
+    return await this.completeJSON(Prompts.question(ctx), 'question', 0.7) as GeneratedQuestion;
+  }
+
+  async evaluateAnswer(question: Question, answer: string, policy: InterviewPolicy): Promise<ProviderEvaluation> {
+    return await this.completeJSON(Prompts.evaluation(question, answer, policy), 'evaluation') as ProviderEvaluation;
+  }
+}
@@ -1,13 +1,111 @@
 
 import { Difficulty } from "../types";
 
+type Level = 'Junior' | 'Mid' | 'Senior';
+
+interface ScoringDimension {
+  weight: number;
+  label: string;
+}
+
+export interface InterviewPolicy {
+  SCORING: {
+    DIMENSIONS: {
+      ACCURACY: ScoringDimension;
+      DEPTH: ScoringDimension;
+      CLARITY: ScoringDimension;
+      RELEVANCE: ScoringDimension;
+    };
+    STRONG_SCORE: number;
+    WEAK_SCORE: number;
+    CRITICAL_FAIL_SCORE: number;
+    PASSING_THRESHOLD: number;
+  };
+  FALLBACK_SCORING: {
+    KEYWORD_MATCH_VALUE: number;
+    LENGTH_THRESHOLD_CHARS: number;
+    LENGTH_BONUS: number;
+    BASE_SCORE: number;
+    MAX_SCORE: number;
+  };
+  TIMING: {
+    LIMIT_SEC: number;
+    PENALTY_START_SEC: number;
+    PENALTY_STEP_SEC: number;
+    PENALTY_PER_STEP: number;
+    MAX_VIOLATIONS_ALLOWED: number;
+    MIN_ANSWER_TIME_MS: number;
+  };
+  DIFFICULTY: {
+    INITIAL: Record<Level, Difficulty>;
+    CEILING: {
+      CRITICAL_GAP_MATCH_THRESHOLD: number;
+      CAP_LEVEL: Difficulty;
+    };
+  };
+  RESUME_JD_LOGIC: {
+    PENALTIES: {
+      PRIMARY_MISSING: number;
+      SECONDARY_MISSING: number;
+    };
+  };
+  TERMINATION: {
+    MAX_QUESTIONS: number;
+    STRIKE_LIMIT: number;
+    CRITICAL_FAIL_STRIKES: number;
+  };
+  FOLLOW_UP: {
+    MAX_PER_TURN: number;
+    BAND_MIN: number;
+    BAND_MAX: number;
+    WEIGHT: number;
+  };
+  CODING: {
+    RUN_TIMEOUT_MS: number;
+    MEMORY_LIMIT_MB: number;
+    RUNTIME_ERROR_PENALTY: number;
+    LIMIT_PENALTY: number;
+  };
+  PROFICIENCY: {
+    EVIDENCE_WEIGHT: Record<Difficulty, number>;
+    DIFFICULTY_CEILING: Record<Difficulty, number>;
+    LEVEL_MIN: Record<Exclude<Level, 'Junior'>, number>;
+    PRIOR_SD: number;
+    CONFIDENCE_Z: number;
+  };
+  INJECTION: {
+    PENALTY: number;
+  };
+  EDGE_CASES: {
+    EMPTY_ANSWER_SCORE: number;
+    IRRELEVANT_ANSWER_SCORE: number;
+    SPAM_ANSWER_SCORE: number;
+  };
+}
+
+// A named, versioned policy as stored in policies/*.json.
+export const POLICY_SCHEMA_VERSION = 1;
+
+export interface PolicyDocument {
+  schemaVersion: number;
+  id: string;        // Stable slug, e.g. 'backend-senior'
+  version: string;   // Semver; bump on every change so reports stay traceable
+  name: string;
+  description?: string;
+  policy: InterviewPolicy;
+}
+
+export type PolicyRef = Pick<PolicyDocument, 'id' | 'version' | 'name'>;
+
+export const toPolicyRef = (doc: PolicyDocument): PolicyRef => ({ id: doc.id, version: doc.version, name: doc.name });
+
 // ============================================================================
 // THE AUDITABLE POLICY CONFIGURATION
 // This object defines ALL rules. The engine simply executes these rules.
 // Judges can review this file to understand the system's "Constitution".
 // ============================================================================
 
-export const INTERVIEW_POLICY = {
+export const INTERVIEW_POLICY: InterviewPolicy = {
   SCORING: {
     DIMENSIONS: {
       ACCURACY: { weight: 0.40, label: 'Accuracy' },
@@ -68,9 +166,48 @@ export const INTERVIEW_POLICY = {
     CRITICAL_FAIL_STRIKES: 2 // How many strikes a critical fail (<2.0) is worth
   },
 
+  FOLLOW_UP: {
+    // Partial answers (base score inside the band) are probed on the missed keywords
+    MAX_PER_TURN: 1, // 0 disables follow-ups
+    BAND_MIN: 4.0,
+    BAND_MAX: 7.0,
+    WEIGHT: 0.5,     // Weight of each follow-up answer relative to the main answer (1.0)
+  },
+
+  CODING: {
+    // Accuracy of a coding answer = 10 x test pass rate, minus these penalties
+    RUN_TIMEOUT_MS: 3000,       // Wall-clock budget for running all test cases
+    MEMORY_LIMIT_MB: 64,
+    RUNTIME_ERROR_PENALTY: 1.0, // Any test case threw
+    LIMIT_PENALTY: 2.0,         // Run killed for exceeding time or memory
+  },
+
+  PROFICIENCY: {
+    // Per-skill estimate = weighted mean of (base score x difficulty ceiling / 10)
+    EVIDENCE_WEIGHT: { [Difficulty.Easy]: 1.0, [Difficulty.Medium]: 1.5, [Difficulty.Hard]: 2.0 },
+    DIFFICULTY_CEILING: { [Difficulty.Easy]: 7.0, [Difficulty.Medium]: 8.5, [Difficulty.Hard]: 10.0 }, // Best level an answer can show
+    LEVEL_MIN: { Mid: 5.0, Senior: 7.5 }, // Estimate needed to be measured at each level
+    PRIOR_SD: 2.0,      // Assumed spread before evidence; keeps one-answer intervals wide
+    CONFIDENCE_Z: 1.645, // 90% confidence interval
+  },
+
+  INJECTION: {
+    // Answers that try to instruct the LLM grader (see services/injection.ts)
+    PENALTY: 2.0, // Deducted from the final score, like the time penalty
+  },
+
   EDGE_CASES: {
     EMPTY_ANSWER_SCORE: 0,
     IRRELEVANT_ANSWER_SCORE: 0,
     SPAM_ANSWER_SCORE: 0, // Score for impossible completion times
   }
 };
+
+export const DEFAULT_POLICY_DOCUMENT: PolicyDocument = {
+  schemaVersion: POLICY_SCHEMA_VERSION,
+  id: 'default',
+  version: '1.4.0',
+  name: 'Strict Default',
+  description: 'Baseline constitution shipped with the engine.',
+  policy: INTERVIEW_POLICY,
+};
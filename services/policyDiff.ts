@@ -0,0 +1,47 @@
+import { InterviewPolicy } from "./policy";
+import { POLICY_SCHEMA, readPath } from "./policyValidator";
+
+// ============================================================================
+// POLICY DIFF
+// Human-readable comparison of two policies, leaf by leaf in schema order.
+// ============================================================================
+
+export interface PolicyChange {
+  path: string;
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  SCORING: 'Scoring',
+  FALLBACK_SCORING: 'Fallback Scoring',
+  TIMING: 'Timing',
+  DIFFICULTY: 'Difficulty',
+  RESUME_JD_LOGIC: 'Gap Penalties',
+  TERMINATION: 'Termination',
+  FOLLOW_UP: 'Follow-up Probing',
+  CODING: 'Coding Questions',
+  PROFICIENCY: 'Skill Proficiency',
+  INJECTION: 'Prompt Injection',
+  EDGE_CASES: 'Edge Cases',
+};
+
+const humanize = (key: string) =>
+  key.toLowerCase().split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+/**
+ * 'SCORING.DIMENSIONS.ACCURACY.weight' -> 'Scoring › Dimensions › Accuracy › Weight'
+ */
+export const labelForPath = (path: string): string => {
+  const [section, ...rest] = path.split('.');
+  return [SECTION_LABELS[section] || humanize(section), ...rest.map(humanize)].join(' › ');
+};
+
+export const diffPolicies = (base: InterviewPolicy, next: InterviewPolicy): PolicyChange[] =>
+  Object.keys(POLICY_SCHEMA)
+    .map(path => ({ path, label: labelForPath(path), from: readPath(base, path), to: readPath(next, path) }))
+    .filter(change => change.from !== change.to);
+
+export const formatChange = (change: PolicyChange): string =>
+  `${change.label}: ${String(change.from)} → ${String(change.to)}`;
@@ -0,0 +1,98 @@
+import { DEFAULT_POLICY_DOCUMENT, INTERVIEW_POLICY, InterviewPolicy, PolicyDocument } from "./policy";
+import { validatePolicyDocument, formatPolicyErrors } from "./policyValidator";
+import { PolicyStore } from "./storage";
+import backendSenior from "../policies/backend-senior.json";
+import juniorLenient from "../policies/junior-lenient.json";
+
+// ============================================================================
+// POLICY REGISTRY
+// Named policy documents keyed by id@version. Everything entering the
+// registry passes the validator, so the engine never sees a broken policy.
+// ============================================================================
+
+const BUILT_IN: unknown[] = [backendSenior, juniorLenient];
+
+const keyOf = (ref: Pick<PolicyDocument, 'id' | 'version'>) => `${ref.id}@${ref.version}`;
+
+const compareSemver = (a: string, b: string) => {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+};
+
+export class PolicyRegistry {
+  private documents = new Map<string, PolicyDocument>();
+
+  constructor(documents: unknown[] = []) {
+    documents.forEach(doc => this.register(doc));
+  }
+
+  /**
+   * Validates and stores a policy document. Throws with every violation listed.
+   */
+  public register(doc: unknown): PolicyDocument {
+    const result = validatePolicyDocument(doc);
+    if (!result.valid) {
+      const id = (doc as Partial<PolicyDocument>)?.id ?? '<unknown>';
+      throw new Error(`Invalid policy '${id}':\n${formatPolicyErrors(result.errors)}`);
+    }
+    this.documents.set(keyOf(result.document), result.document);
+    return result.document;
+  }
+
+  public has(id: string, version: string): boolean {
+    return this.documents.has(keyOf({ id, version }));
+  }
+
+  public loadJSON(json: string): PolicyDocument {
+    return this.register(JSON.parse(json));
+  }
+
+  /**
+   * Resolves a policy by id, optionally pinned to a version (defaults to the latest).
+   */
+  public get(id: string, version?: string): PolicyDocument | null {
+    if (version) return this.documents.get(keyOf({ id, version })) || null;
+    const versions = this.list().filter(d => d.id === id);
+    return versions.length > 0 ? versions[versions.length - 1] : null;
+  }
+
+  public list(): PolicyDocument[] {
+    return [...this.documents.values()].sort((a, b) => a.id.localeCompare(b.id) || compareSemver(a.version, b.version));
+  }
+
+  /**
+   * Latest version of each policy id, for pickers.
+   */
+  public latest(): PolicyDocument[] {
+    const byId = new Map<string, PolicyDocument>();
+    this.list().forEach(doc => byId.set(doc.id, doc));
+    return [...byId.values()];
+  }
+}
+
+export const policyRegistry = new PolicyRegistry([DEFAULT_POLICY_DOCUMENT, ...BUILT_IN]);
+
+// Sections added after a policy may have been saved. Follow-ups stay off so
+// older saves keep their original behaviour.
+const ADDED_SECTIONS: Partial<InterviewPolicy> = {
+  FOLLOW_UP: { ...INTERVIEW_POLICY.FOLLOW_UP, MAX_PER_TURN: 0 },
+  CODING: INTERVIEW_POLICY.CODING,
+  PROFICIENCY: INTERVIEW_POLICY.PROFICIENCY,
+  INJECTION: INTERVIEW_POLICY.INJECTION,
+};
+
+const upgradeSaved = (doc: PolicyDocument): PolicyDocument =>
+  doc.policy ? { ...doc, policy: { ...ADDED_SECTIONS, ...doc.policy } } : doc;
+
+// Policies saved from the in-app editor
+PolicyStore.list().forEach(doc => {
+  try {
+    policyRegistry.register(upgradeSaved(doc));
+  } catch (e) {
+    console.warn('Skipping saved policy:', e);
+  }
+});
@@ -0,0 +1,206 @@
+import { Difficulty } from "../types";
+import { InterviewPolicy, PolicyDocument, POLICY_SCHEMA_VERSION } from "./policy";
+
+// ============================================================================
+// POLICY SCHEMA & VALIDATOR
+// Policy documents arrive as untrusted JSON. Structure is checked against
+// POLICY_SCHEMA; cross-field rules (weights sum to 1, WEAK < STRONG, ...)
+// are checked afterwards so every violation is reported in one pass.
+// ============================================================================
+
+export interface PolicyValidationError {
+  path: string;
+  message: string;
+}
+
+export type PolicyValidationResult =
+  | { valid: true; document: PolicyDocument; errors: [] }
+  | { valid: false; errors: PolicyValidationError[] };
+
+export type FieldSpec =
+  | { kind: 'number'; min?: number; max?: number; integer?: boolean }
+  | { kind: 'string' }
+  | { kind: 'difficulty' };
+
+const score = { kind: 'number', min: 0, max: 10 } as const;
+const weight = { kind: 'number', min: 0, max: 1 } as const;
+const nonNegative = { kind: 'number', min: 0 } as const;
+const positiveInt = { kind: 'number', min: 1, integer: true } as const;
+const difficulty = { kind: 'difficulty' } as const;
+const label = { kind: 'string' } as const;
+
+/**
+ * Every leaf of InterviewPolicy, keyed by dotted path.
+ */
+export const POLICY_SCHEMA: Record<string, FieldSpec> = {
+  'SCORING.DIMENSIONS.ACCURACY.weight': weight,
+  'SCORING.DIMENSIONS.ACCURACY.label': label,
+  'SCORING.DIMENSIONS.DEPTH.weight': weight,
+  'SCORING.DIMENSIONS.DEPTH.label': label,
+  'SCORING.DIMENSIONS.CLARITY.weight': weight,
+  'SCORING.DIMENSIONS.CLARITY.label': label,
+  'SCORING.DIMENSIONS.RELEVANCE.weight': weight,
+  'SCORING.DIMENSIONS.RELEVANCE.label': label,
+  'SCORING.STRONG_SCORE': score,
+  'SCORING.WEAK_SCORE': score,
+  'SCORING.CRITICAL_FAIL_SCORE': score,
+  'SCORING.PASSING_THRESHOLD': score,
+
+  'FALLBACK_SCORING.KEYWORD_MATCH_VALUE': score,
+  'FALLBACK_SCORING.LENGTH_THRESHOLD_CHARS': { kind: 'number', min: 0, integer: true },
+  'FALLBACK_SCORING.LENGTH_BONUS': score,
+  'FALLBACK_SCORING.BASE_SCORE': score,
+  'FALLBACK_SCORING.MAX_SCORE': score,
+
+  'TIMING.LIMIT_SEC': positiveInt,
+  'TIMING.PENALTY_START_SEC': nonNegative,
+  'TIMING.PENALTY_STEP_SEC': { kind: 'number', min: 1 },
+  'TIMING.PENALTY_PER_STEP': score,
+  'TIMING.MAX_VIOLATIONS_ALLOWED': { kind: 'number', min: 0, integer: true },
+  'TIMING.MIN_ANSWER_TIME_MS': nonNegative,
+
+  'DIFFICULTY.INITIAL.Senior': difficulty,
+  'DIFFICULTY.INITIAL.Mid': difficulty,
+  'DIFFICULTY.INITIAL.Junior': difficulty,
+  'DIFFICULTY.CEILING.CRITICAL_GAP_MATCH_THRESHOLD': weight,
+  'DIFFICULTY.CEILING.CAP_LEVEL': difficulty,
+
+  'RESUME_JD_LOGIC.PENALTIES.PRIMARY_MISSING': score,
+  'RESUME_JD_LOGIC.PENALTIES.SECONDARY_MISSING': score,
+
+  'TERMINATION.MAX_QUESTIONS': positiveInt,
+  'TERMINATION.STRIKE_LIMIT': positiveInt,
+  'TERMINATION.CRITICAL_FAIL_STRIKES': positiveInt,
+
+  'FOLLOW_UP.MAX_PER_TURN': { kind: 'number', min: 0, max: 2, integer: true },
+  'FOLLOW_UP.BAND_MIN': score,
+  'FOLLOW_UP.BAND_MAX': score,
+  'FOLLOW_UP.WEIGHT': weight,
+
+  'CODING.RUN_TIMEOUT_MS': { kind: 'number', min: 100, integer: true },
+  'CODING.MEMORY_LIMIT_MB': positiveInt,
+  'CODING.RUNTIME_ERROR_PENALTY': score,
+  'CODING.LIMIT_PENALTY': score,
+
+  'PROFICIENCY.EVIDENCE_WEIGHT.Easy': { kind: 'number', min: 0.1, max: 10 },
+  'PROFICIENCY.EVIDENCE_WEIGHT.Medium': { kind: 'number', min: 0.1, max: 10 },
+  'PROFICIENCY.EVIDENCE_WEIGHT.Hard': { kind: 'number', min: 0.1, max: 10 },
+  'PROFICIENCY.DIFFICULTY_CEILING.Easy': score,
+  'PROFICIENCY.DIFFICULTY_CEILING.Medium': score,
+  'PROFICIENCY.DIFFICULTY_CEILING.Hard': score,
+  'PROFICIENCY.LEVEL_MIN.Mid': score,
+  'PROFICIENCY.LEVEL_MIN.Senior': score,
+  'PROFICIENCY.PRIOR_SD': { kind: 'number', min: 0.1, max: 10 },
+  'PROFICIENCY.CONFIDENCE_Z': { kind: 'number', min: 0, max: 4 },
+
+  'INJECTION.PENALTY': score,
+
+  'EDGE_CASES.EMPTY_ANSWER_SCORE': score,
+  'EDGE_CASES.IRRELEVANT_ANSWER_SCORE': score,
+  'EDGE_CASES.SPAM_ANSWER_SCORE': score,
+};
+
+const WEIGHT_SUM_TOLERANCE = 0.001;
+const SEMVER = /^\d+\.\d+\.\d+$/;
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+
+export const readPath = (obj: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), obj);
+
+const checkField = (value: unknown, spec: FieldSpec): string | null => {
+  switch (spec.kind) {
+    case 'string':
+      return typeof value === 'string' && value.trim().length > 0 ? null : 'must be a non-empty string';
+    case 'difficulty':
+      return Object.values(Difficulty).includes(value as Difficulty) ? null : `must be one of ${Object.values(Difficulty).join(', ')}`;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a finite number';
+      if (spec.integer && !Number.isInteger(value)) return 'must be an integer';
+      if (spec.min !== undefined && value < spec.min) return `must be >= ${spec.min}`;
+      if (spec.max !== undefined && value > spec.max) return `must be <= ${spec.max}`;
+      return null;
+  }
+};
+
+/**
+ * Cross-field rules that a per-field schema cannot express.
+ */
+const checkInvariants = (p: InterviewPolicy): PolicyValidationError[] => {
+  const errors: PolicyValidationError[] = [];
+  const { DIMENSIONS, STRONG_SCORE, WEAK_SCORE, CRITICAL_FAIL_SCORE, PASSING_THRESHOLD } = p.SCORING;
+
+  const weightSum = DIMENSIONS.ACCURACY.weight + DIMENSIONS.DEPTH.weight + DIMENSIONS.CLARITY.weight + DIMENSIONS.RELEVANCE.weight;
+  if (Math.abs(weightSum - 1) > WEIGHT_SUM_TOLERANCE) {
+    errors.push({ path: 'SCORING.DIMENSIONS', message: `weights must sum to 1 (got ${Number(weightSum.toFixed(4))})` });
+  }
+  if (WEAK_SCORE >= STRONG_SCORE) {
+    errors.push({ path: 'SCORING.WEAK_SCORE', message: `must be below STRONG_SCORE (${STRONG_SCORE})` });
+  }
+  if (CRITICAL_FAIL_SCORE > WEAK_SCORE) {
+    errors.push({ path: 'SCORING.CRITICAL_FAIL_SCORE', message: `must not exceed WEAK_SCORE (${WEAK_SCORE})` });
+  }
+  if (PASSING_THRESHOLD < WEAK_SCORE || PASSING_THRESHOLD > STRONG_SCORE) {
+    errors.push({ path: 'SCORING.PASSING_THRESHOLD', message: `must lie between WEAK_SCORE (${WEAK_SCORE}) and STRONG_SCORE (${STRONG_SCORE})` });
+  }
+  if (p.FALLBACK_SCORING.BASE_SCORE > p.FALLBACK_SCORING.MAX_SCORE) {
+    errors.push({ path: 'FALLBACK_SCORING.BASE_SCORE', message: `must not exceed MAX_SCORE (${p.FALLBACK_SCORING.MAX_SCORE})` });
+  }
+  if (p.TIMING.PENALTY_START_SEC > p.TIMING.LIMIT_SEC) {
+    errors.push({ path: 'TIMING.PENALTY_START_SEC', message: `must not exceed LIMIT_SEC (${p.TIMING.LIMIT_SEC}), or overtime could never be penalized` });
+  }
+  if (p.TIMING.MIN_ANSWER_TIME_MS >= p.TIMING.LIMIT_SEC * 1000) {
+    errors.push({ path: 'TIMING.MIN_ANSWER_TIME_MS', message: 'must be shorter than the question time limit' });
+  }
+  if (p.FOLLOW_UP.BAND_MIN > p.FOLLOW_UP.BAND_MAX) {
+    errors.push({ path: 'FOLLOW_UP.BAND_MIN', message: `must not exceed BAND_MAX (${p.FOLLOW_UP.BAND_MAX})` });
+  }
+  if (p.PROFICIENCY.LEVEL_MIN.Mid >= p.PROFICIENCY.LEVEL_MIN.Senior) {
+    errors.push({ path: 'PROFICIENCY.LEVEL_MIN.Mid', message: `must be below LEVEL_MIN.Senior (${p.PROFICIENCY.LEVEL_MIN.Senior})` });
+  }
+  const { Easy, Medium, Hard } = p.PROFICIENCY.DIFFICULTY_CEILING;
+  if (Easy > Medium || Medium > Hard) {
+    errors.push({ path: 'PROFICIENCY.DIFFICULTY_CEILING', message: 'must not decrease from Easy to Medium to Hard' });
+  }
+  if (p.RESUME_JD_LOGIC.PENALTIES.SECONDARY_MISSING > p.RESUME_JD_LOGIC.PENALTIES.PRIMARY_MISSING) {
+    errors.push({ path: 'RESUME_JD_LOGIC.PENALTIES.SECONDARY_MISSING', message: 'must not exceed PRIMARY_MISSING' });
+  }
+  return errors;
+};
+
+export const validatePolicy = (policy: unknown): PolicyValidationError[] => {
+  const errors: PolicyValidationError[] = [];
+  Object.entries(POLICY_SCHEMA).forEach(([path, spec]) => {
+    const problem = checkField(readPath(policy, path), spec);
+    if (problem) errors.push({ path, message: problem });
+  });
+
+  // Invariants assume a structurally sound policy
+  if (errors.length > 0) return errors;
+  return checkInvariants(policy as InterviewPolicy);
+};
+
+export const validatePolicyDocument = (doc: unknown): PolicyValidationResult => {
+  const errors: PolicyValidationError[] = [];
+  const d = (doc && typeof doc === 'object' ? doc : {}) as Partial<PolicyDocument>;
+
+  if (d.schemaVersion !== POLICY_SCHEMA_VERSION) {
+    errors.push({ path: 'schemaVersion', message: `must be ${POLICY_SCHEMA_VERSION}` });
+  }
+  if (typeof d.id !== 'string' || !SLUG.test(d.id)) {
+    errors.push({ path: 'id', message: 'must be a lowercase slug (a-z, 0-9, -)' });
+  }
+  if (typeof d.version !== 'string' || !SEMVER.test(d.version)) {
+    errors.push({ path: 'version', message: 'must be a semantic version like 1.0.0' });
+  }
+  if (typeof d.name !== 'string' || d.name.trim().length === 0) {
+    errors.push({ path: 'name', message: 'must be a non-empty string' });
+  }
+  validatePolicy(d.policy).forEach(e => errors.push({ path: `policy.${e.path}`, message: e.message }));
+
+  return errors.length === 0
+    ? { valid: true, document: d as PolicyDocument, errors: [] }
+    : { valid: false, errors };
+};
+
+export const formatPolicyErrors = (errors: PolicyValidationError[]) =>
+  errors.map(e => `${e.path}: ${e.message}`).join('\n');
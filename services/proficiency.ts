@@ -0,0 +1,123 @@
+import { ClaimVerdict, InterviewTurn, Skill, SkillMatrixRow, SkillProficiency } from "../types";
+import { INTERVIEW_POLICY, InterviewPolicy } from "./policy";
+import { skillTaxonomy } from "./skills";
+
+// ============================================================================
+// SKILL PROFICIENCY
+// Every turn is evidence about the skill it targeted. An answer can only show
+// as much as its question allows: base scores are scaled by the difficulty's
+// ceiling, and harder questions weigh more. Time and gap penalties are left
+// out because they do not say anything about the skill itself.
+// ============================================================================
+
+type Level = Skill['level'];
+
+const LEVELS: Level[] = ['Junior', 'Mid', 'Senior'];
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const clampScore = (value: number) => Math.min(10, Math.max(0, value));
+
+/**
+ * Lowest estimate that is measured at `level`.
+ */
+const levelMin = (level: Level, policy: InterviewPolicy) =>
+  level === 'Junior' ? 0 : policy.PROFICIENCY.LEVEL_MIN[level];
+
+export const levelFor = (estimate: number, policy: InterviewPolicy = INTERVIEW_POLICY): Level =>
+  [...LEVELS].reverse().find(level => estimate >= levelMin(level, policy)) ?? 'Junior';
+
+/**
+ * Weighted mean of the difficulty-adjusted scores with a confidence interval.
+ * The spread includes PRIOR_SD as one pseudo-deviation so a single answer
+ * never produces a zero-width interval; the standard error then shrinks with
+ * the effective number of answers.
+ */
+const estimate = (skill: string, turns: InterviewTurn[], policy: InterviewPolicy): SkillProficiency => {
+  const { EVIDENCE_WEIGHT, DIFFICULTY_CEILING, PRIOR_SD, CONFIDENCE_Z } = policy.PROFICIENCY;
+  const samples = turns.map(t => ({
+    value: (t.evaluation.totalScore * DIFFICULTY_CEILING[t.question.difficulty]) / 10,
+    weight: EVIDENCE_WEIGHT[t.question.difficulty],
+  }));
+
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  const mean = samples.reduce((sum, s) => sum + s.value * s.weight, 0) / totalWeight;
+  const deviation = samples.reduce((sum, s) => sum + s.weight * (s.value - mean) ** 2, 0);
+  const variance = (deviation + PRIOR_SD ** 2) / totalWeight;
+  const effectiveCount = totalWeight ** 2 / samples.reduce((sum, s) => sum + s.weight ** 2, 0);
+  const margin = CONFIDENCE_Z * Math.sqrt(variance / effectiveCount);
+
+  return {
+    skill,
+    estimate: round(mean),
+    low: round(clampScore(mean - margin)),
+    high: round(clampScore(mean + margin)),
+    evidence: turns.length,
+    level: levelFor(mean, policy),
+  };
+};
+
+/**
+ * One estimate per canonical skill, in the order the skills were first asked.
+ */
+export const estimateProficiency = (turns: InterviewTurn[], policy: InterviewPolicy = INTERVIEW_POLICY): SkillProficiency[] => {
+  const bySkill = new Map<string, InterviewTurn[]>();
+  turns.forEach(turn => {
+    const skill = skillTaxonomy.canonicalize(turn.question.targetSkill);
+    bySkill.set(skill, [...(bySkill.get(skill) ?? []), turn]);
+  });
+  return [...bySkill].map(([skill, skillTurns]) => estimate(skill, skillTurns, policy));
+};
+
+/**
+ * A claim is only flagged when the whole interval lies outside the claimed
+ * level's band; overlapping intervals that disagree are INCONCLUSIVE.
+ */
+const verdictFor = (claimed: Level | null, measured: SkillProficiency | null, policy: InterviewPolicy): ClaimVerdict => {
+  if (!measured) return 'UNTESTED';
+  if (!claimed) return 'UNCLAIMED';
+
+  const next = LEVELS[LEVELS.indexOf(claimed) + 1];
+  if (measured.high < levelMin(claimed, policy)) return 'OVER_CLAIMED';
+  if (next && measured.low >= levelMin(next, policy)) return 'UNDER_CLAIMED';
+  return measured.level === claimed ? 'CONSISTENT' : 'INCONCLUSIVE';
+};
+
+/**
+ * Compares measured proficiency with the levels claimed on the resume.
+ * Tested skills come first, then claimed skills no question covered.
+ */
+export const buildSkillMatrix = (proficiency: SkillProficiency[], claimedSkills: Skill[], policy: InterviewPolicy = INTERVIEW_POLICY): SkillMatrixRow[] => {
+  const claims = new Map<string, Level>();
+  claimedSkills.forEach(s => {
+    const skill = skillTaxonomy.canonicalize(s.name);
+    if (!claims.has(skill)) claims.set(skill, s.level);
+  });
+
+  const tested = proficiency.map(measured => {
+    const claimed = claims.get(measured.skill) ?? null;
+    return { skill: measured.skill, claimed, measured, verdict: verdictFor(claimed, measured, policy) };
+  });
+  const untested = [...claims]
+    .filter(([skill]) => !proficiency.some(p => p.skill === skill))
+    .map(([skill, claimed]) => ({ skill, claimed, measured: null, verdict: verdictFor(claimed, null, policy) }));
+
+  return [...tested, ...untested];
+};
+
+export const VERDICT_LABELS: Record<ClaimVerdict, string> = {
+  CONSISTENT: 'Consistent',
+  OVER_CLAIMED: 'Over-claimed',
+  UNDER_CLAIMED: 'Under-claimed',
+  INCONCLUSIVE: 'Inconclusive',
+  UNTESTED: 'Not tested',
+  UNCLAIMED: 'Not on resume',
+};
+
+/**
+ * e.g. "claimed Senior, measured Mid (6.1, 4.9-7.3)"
+ */
+export const describeClaim = (row: SkillMatrixRow): string => {
+  const measured = row.measured ? `${row.measured.level} (${row.measured.estimate}, ${row.measured.low}-${row.measured.high})` : 'not tested';
+  return `claimed ${row.claimed ?? 'nothing'}, measured ${measured}`;
+};
@@ -0,0 +1,24 @@
+import { ResumeData, JobDescriptionData, Question, EvaluationCriteria } from "../types";
+import { QuestionContext } from "./prompts";
+import { InterviewPolicy } from "./policy";
+
+// ============================================================================
+// LLM PROVIDER CONTRACT
+// Every backend (Gemini, OpenAI-compatible, scripted mock) implements this.
+// Providers throw on any failure; graceful degradation lives in services/llm.ts.
+// ============================================================================
+
+export type ParsedJD = Omit<JobDescriptionData, 'description'>;
+export type GeneratedQuestion = Omit<Question, 'id' | 'difficulty'>;
+export type ProviderEvaluation = EvaluationCriteria & { feedback: string };
+
+export interface LLMProvider {
+  /** Recorded on every AnswerEvaluation this provider produces. */
+  readonly name: string;
+  parseResume(text: string): Promise<ResumeData>;
+  parseJD(text: string): Promise<ParsedJD>;
+  generateQuestion(ctx: QuestionContext): Promise<GeneratedQuestion>;
+  evaluateAnswer(question: Question, answer: string, policy: InterviewPolicy): Promise<ProviderEvaluation>;
+}
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
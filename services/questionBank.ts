@@ -0,0 +1,199 @@
+import { CodingSpec, Difficulty, JobDescriptionData, Question } from "../types";
+import { skillTaxonomy } from "./skills";
+import { seededRandom } from "./random";
+import frontend from "../data/questions/frontend.json";
+import backend from "../data/questions/backend.json";
+import platform from "../data/questions/platform.json";
+import coding from "../data/questions/coding.json";
+
+// ============================================================================
+// OFFLINE QUESTION BANK
+// Questions tagged by skill, difficulty, keywords and rubric, loaded from
+// data/questions/*.json. Selection is seeded (same seed -> same question),
+// never repeats within a session, prefers the JD's primary skills and the
+// requested difficulty, and spreads questions across skills.
+// ============================================================================
+
+export const QUESTION_BANK_SCHEMA_VERSION = 1;
+
+export interface BankQuestion {
+  id: string;
+  skill: string;
+  difficulty: Difficulty;
+  text: string;
+  keywords: string[];
+  rubric: string[]; // Points a strong answer covers
+  coding?: CodingSpec; // Coding questions: starter code and test cases
+}
+
+export interface QuestionBankFile {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  questions: BankQuestion[];
+}
+
+export interface SelectionRequest {
+  jd: JobDescriptionData;
+  difficulty: Difficulty;
+  previousQuestions: string[]; // Texts already asked this session
+  seed: string;
+}
+
+export interface SkillCoverage {
+  skill: string;
+  type: 'PRIMARY' | 'SECONDARY';
+  canonical: string;
+  byDifficulty: Record<Difficulty, number>;
+  total: number;
+}
+
+const BUILT_IN: unknown[] = [frontend, backend, platform, coding];
+
+const DIFFICULTY_ORDER = [Difficulty.Easy, Difficulty.Medium, Difficulty.Hard];
+
+const distance = (a: Difficulty, b: Difficulty) => Math.abs(DIFFICULTY_ORDER.indexOf(a) - DIFFICULTY_ORDER.indexOf(b));
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const validateCoding = (c: Partial<CodingSpec>, where: string): string[] => {
+  const errors: string[] = [];
+  if (c.language !== 'javascript' && c.language !== 'typescript') errors.push(`${where}.language must be javascript or typescript`);
+  if (typeof c.functionName !== 'string' || !IDENTIFIER.test(c.functionName)) errors.push(`${where}.functionName must be a valid identifier`);
+  if (typeof c.starterCode !== 'string') errors.push(`${where}.starterCode must be a string`);
+  if (typeof c.timeBudgetSec !== 'number' || c.timeBudgetSec <= 0) errors.push(`${where}.timeBudgetSec must be a positive number`);
+  if (!Array.isArray(c.testCases) || c.testCases.length === 0) {
+    errors.push(`${where}.testCases must be a non-empty array`);
+  } else {
+    c.testCases.forEach((t, i) => {
+      if (typeof t.name !== 'string' || !Array.isArray(t.input) || typeof t.hidden !== 'boolean' || !('expected' in t)) {
+        errors.push(`${where}.testCases[${i}] needs name, input (array), expected and hidden`);
+      }
+    });
+    if (!c.testCases.some(t => t.hidden)) errors.push(`${where}.testCases must include at least one hidden case`);
+  }
+  return errors;
+};
+
+const validateQuestion = (q: Partial<BankQuestion>, where: string): string[] => {
+  const errors: string[] = [];
+  if (typeof q.id !== 'string' || q.id.length === 0) errors.push(`${where}.id must be a non-empty string`);
+  if (typeof q.skill !== 'string' || q.skill.length === 0) errors.push(`${where}.skill must be a non-empty string`);
+  if (typeof q.text !== 'string' || q.text.length === 0) errors.push(`${where}.text must be a non-empty string`);
+  if (!DIFFICULTY_ORDER.includes(q.difficulty as Difficulty)) errors.push(`${where}.difficulty must be one of ${DIFFICULTY_ORDER.join(', ')}`);
+  if (!Array.isArray(q.keywords) || q.keywords.length === 0 || !q.keywords.every(k => typeof k === 'string')) {
+    errors.push(`${where}.keywords must be a non-empty string array`);
+  }
+  if (!Array.isArray(q.rubric) || !q.rubric.every(r => typeof r === 'string')) errors.push(`${where}.rubric must be a string array`);
+  if (q.coding !== undefined) errors.push(...validateCoding(q.coding, `${where}.coding`));
+  return errors;
+};
+
+export class QuestionBank {
+  private questions = new Map<string, BankQuestion>();
+
+  constructor(files: unknown[] = []) {
+    files.forEach(file => this.register(file));
+  }
+
+  /**
+   * Validates and adds a question file. Throws with every violation listed.
+   */
+  public register(file: unknown): void {
+    const f = (file && typeof file === 'object' ? file : {}) as Partial<QuestionBankFile>;
+    const name = f.id ?? '<unknown>';
+    const errors: string[] = [];
+
+    if (f.schemaVersion !== QUESTION_BANK_SCHEMA_VERSION) errors.push(`schemaVersion must be ${QUESTION_BANK_SCHEMA_VERSION}`);
+    if (!Array.isArray(f.questions)) errors.push('questions must be an array');
+    (f.questions ?? []).forEach((q, i) => {
+      errors.push(...validateQuestion(q, `questions[${i}]`));
+      if (this.questions.has(q.id)) errors.push(`questions[${i}].id '${q.id}' is already registered`);
+    });
+    if (errors.length > 0) throw new Error(`Invalid question bank '${name}':\n${errors.join('\n')}`);
+
+    f.questions!.forEach(q => this.questions.set(q.id, { ...q, skill: skillTaxonomy.canonicalize(q.skill) }));
+  }
+
+  public loadJSON(json: string): void {
+    this.register(JSON.parse(json));
+  }
+
+  public list(): BankQuestion[] {
+    return [...this.questions.values()];
+  }
+
+  public get(id: string): BankQuestion | null {
+    return this.questions.get(id) ?? null;
+  }
+
+  /**
+   * Picks the next question. Preference order:
+   *   1. JD primary skills, then secondary skills, then anything in the bank
+   *   2. Skills asked least often so far in this session
+   *   3. Closest difficulty to the requested one
+   * Remaining ties are broken by the seeded PRNG. Returns null when nothing is left.
+   */
+  public select({ jd, difficulty, previousQuestions, seed }: SelectionRequest): BankQuestion | null {
+    const askedTexts = new Set(previousQuestions.map(t => t.trim().toLowerCase()));
+    const wasAsked = (q: BankQuestion) => askedTexts.has(q.text.trim().toLowerCase());
+    const pool = this.list().filter(q => !wasAsked(q));
+    if (pool.length === 0) return null;
+
+    const askedPerSkill = new Map<string, number>();
+    this.list().filter(wasAsked).forEach(q => askedPerSkill.set(q.skill, (askedPerSkill.get(q.skill) ?? 0) + 1));
+
+    const tiers = [jd.primarySkills, jd.secondarySkills].map(skills => new Set(skills.map(s => skillTaxonomy.canonicalize(s))));
+    const tierOf = (q: BankQuestion) => {
+      const i = tiers.findIndex(t => t.has(q.skill));
+      return i < 0 ? tiers.length : i;
+    };
+
+    const rank = (q: BankQuestion) => [tierOf(q), askedPerSkill.get(q.skill) ?? 0, distance(q.difficulty, difficulty)];
+    const compare = (a: number[], b: number[]) => a.reduce((res, v, i) => res || v - b[i], 0);
+
+    const best = pool.reduce<BankQuestion[]>((acc, q) => {
+      if (acc.length === 0) return [q];
+      const c = compare(rank(q), rank(acc[0]));
+      return c < 0 ? [q] : c === 0 ? [...acc, q] : acc;
+    }, []);
+
+    // Stable order before drawing, so the result depends only on the seed
+    best.sort((a, b) => a.id.localeCompare(b.id));
+    return best[Math.floor(seededRandom(seed)() * best.length)];
+  }
+
+  /**
+   * How many offline questions exist for each JD skill, per difficulty.
+   */
+  public coverage(jd: JobDescriptionData): SkillCoverage[] {
+    const entries = [
+      ...jd.primarySkills.map(skill => ({ skill, type: 'PRIMARY' as const })),
+      ...jd.secondarySkills.map(skill => ({ skill, type: 'SECONDARY' as const })),
+    ];
+    return entries.map(({ skill, type }) => {
+      const canonical = skillTaxonomy.canonicalize(skill);
+      const matching = this.list().filter(q => q.skill === canonical);
+      const byDifficulty = Object.fromEntries(
+        DIFFICULTY_ORDER.map(d => [d, matching.filter(q => q.difficulty === d).length])
+      ) as Record<Difficulty, number>;
+      return { skill, type, canonical, byDifficulty, total: matching.length };
+    });
+  }
+}
+
+/**
+ * Converts a bank entry into an engine Question, keeping the bank id.
+ */
+export const toQuestion = (q: BankQuestion): Question => ({
+  id: q.id,
+  text: q.text,
+  targetSkill: q.skill,
+  difficulty: q.difficulty,
+  expectedKeywords: q.keywords,
+  rubric: q.rubric,
+  source: 'bank',
+  ...(q.coding ? { coding: q.coding } : {}),
+});
+
+export const questionBank = new QuestionBank(BUILT_IN);
@@ -0,0 +1,30 @@
+// ============================================================================
+// SEEDED RANDOMNESS
+// Offline selection must be reproducible: the same seed always yields the
+// same sequence, so a replayed or re-run session asks the same questions.
+// ============================================================================
+
+/**
+ * FNV-1a hash of a string seed into a 32-bit integer.
+ */
+export const hashSeed = (seed: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Mulberry32 PRNG. Returns floats in [0, 1).
+ */
+export const seededRandom = (seed: string): (() => number) => {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,333 @@
+import { Difficulty, EvaluationMode, InterviewState, ScoreAdjustment, SkillMatrixRow } from "../types";
+import { PolicyDocument } from "./policy";
+import { POLICY_SCHEMA, readPath } from "./policyValidator";
+import { labelForPath } from "./policyDiff";
+import { describeRun } from "./codeSandbox";
+import { describeFailure } from "./llmErrors";
+import { VERDICT_LABELS } from "./proficiency";
+
+// ============================================================================
+// CANDIDATE REPORT
+// A finished session is condensed into one CandidateReport, which is then
+// rendered as JSON (machine-readable), Markdown (ATS notes, tickets) or a
+// standalone HTML page meant to be printed / saved as PDF.
+// ============================================================================
+
+export interface ReportFollowUp {
+  question: string;
+  answer: string;
+  timeTakenSeconds: number;
+  finalScore: number;
+}
+
+export interface ReportOverride {
+  interviewer: string;
+  justification: string;
+  at: string;             // ISO timestamp
+  automatedBaseScore: number;
+  automatedFinalScore: number;
+  changes: string[];      // e.g. "accuracy 3 -> 7"
+  recomputedPath: boolean;
+}
+
+export interface ReportTurn {
+  index: number;          // 1-based question number
+  targetSkill: string;
+  difficulty: Difficulty;
+  question: string;
+  answer: string;
+  timeTakenSeconds: number; // Main answer only; follow-ups carry their own
+  followUps: ReportFollowUp[];
+  tests: string | null;   // Sandbox summary for coding questions
+  baseScore: number;      // Weighted dimension score before policy penalties (combined over follow-ups)
+  timePenalty: number;
+  gapPenalty: number;
+  injectionPenalty: number; // Answer addressed the LLM grader (see services/injection.ts)
+  finalScore: number;
+  provider: string;
+  isFallback: boolean;
+  llmError: string | null; // Why the LLM was not used, e.g. "QUOTA after 3 attempts: ..."
+  criticalFailure: boolean;
+  feedback: string;
+  override: ReportOverride | null; // Scores above are the overridden ones
+}
+
+export interface PolicyConstant {
+  path: string;
+  label: string;
+  value: unknown;
+}
+
+export interface CandidateReport {
+  generatedAt: string;    // ISO timestamp
+  sessionId: string | null;
+  candidateName: string;
+  roleTitle: string;
+  status: InterviewState['status'];
+  terminationReason: string | null;
+  averageScore: number;
+  passingThreshold: number;
+  passed: boolean;
+  evaluationMode: EvaluationMode;
+  providers: string[];    // Every backend that scored at least one turn
+  difficultyCeiling: Difficulty | null;
+  skillGaps: InterviewState['detectedSkillGaps'];
+  skillMatrix: SkillMatrixRow[]; // Claimed vs measured level per skill
+  policy: { id: string; version: string; name: string; constants: PolicyConstant[] } | null;
+  turns: ReportTurn[];
+}
+
+const round = (n: number) => Number(n.toFixed(2));
+
+/**
+ * The policy in force is taken from the event stream, so the report shows the
+ * constants the session was actually scored with, not today's registry entry.
+ */
+const policyFromEvents = (state: InterviewState): PolicyDocument | null => {
+  const init = state.events.find(e => e.type === 'SESSION_INITIALIZED');
+  return init?.type === 'SESSION_INITIALIZED' ? init.policy : null;
+};
+
+export const buildReport = (state: InterviewState, generatedAt: number = Date.now()): CandidateReport => {
+  const init = state.events.find(e => e.type === 'SESSION_INITIALIZED');
+  const policyDoc = policyFromEvents(state);
+  const averageScore = state.scoreHistory.length === 0
+    ? 0
+    : round(state.scoreHistory.reduce((a, b) => a + b, 0) / state.scoreHistory.length);
+
+  return {
+    generatedAt: new Date(generatedAt).toISOString(),
+    sessionId: state.sessionId,
+    candidateName: init?.type === 'SESSION_INITIALIZED' ? init.resume.candidateName : 'Unknown',
+    roleTitle: init?.type === 'SESSION_INITIALIZED' ? init.jd.roleTitle : 'Unknown',
+    status: state.status,
+    terminationReason: state.terminationReason,
+    averageScore,
+    passingThreshold: state.config.passingScoreThreshold,
+    passed: state.status === 'COMPLETED' && averageScore >= state.config.passingScoreThreshold,
+    evaluationMode: state.evaluationMode,
+    providers: Array.from(new Set(state.turns.flatMap(t => t.subTurns.map(s => s.evaluation.provider)))),
+    difficultyCeiling: state.difficultyCeiling,
+    skillGaps: state.detectedSkillGaps,
+    skillMatrix: state.skillMatrix,
+    policy: policyDoc && {
+      id: policyDoc.id,
+      version: policyDoc.version,
+      name: policyDoc.name,
+      constants: Object.keys(POLICY_SCHEMA).map(path => ({ path, label: labelForPath(path), value: readPath(policyDoc.policy, path) })),
+    },
+    turns: state.turns.map((turn, i) => ({
+      index: i + 1,
+      targetSkill: turn.question.targetSkill,
+      difficulty: turn.question.difficulty,
+      question: turn.question.text,
+      answer: turn.answer,
+      timeTakenSeconds: turn.subTurns[0].evaluation.timeTakenSeconds,
+      tests: turn.evaluation.codeRun ? describeRun(turn.evaluation.codeRun) : null,
+      followUps: turn.subTurns.slice(1).map(s => ({
+        question: s.question.text,
+        answer: s.answer,
+        timeTakenSeconds: s.evaluation.timeTakenSeconds,
+        finalScore: s.evaluation.finalScore,
+      })),
+      baseScore: turn.evaluation.totalScore,
+      timePenalty: turn.evaluation.timePenalty,
+      gapPenalty: turn.evaluation.skillGapPenalty ?? 0,
+      injectionPenalty: turn.evaluation.injectionPenalty ?? 0,
+      finalScore: turn.evaluation.finalScore,
+      provider: turn.evaluation.provider,
+      isFallback: !!turn.evaluation.isFallback,
+      llmError: turn.evaluation.llmError ? describeFailure(turn.evaluation.llmError) : null,
+      criticalFailure: turn.criticalFailure,
+      feedback: turn.evaluation.feedback,
+      override: turn.override ? {
+        interviewer: turn.override.interviewer,
+        justification: turn.override.justification,
+        at: new Date(turn.override.at).toISOString(),
+        automatedBaseScore: turn.override.original.totalScore,
+        automatedFinalScore: turn.override.original.finalScore,
+        changes: (Object.keys(turn.override.adjustment) as (keyof ScoreAdjustment)[]).map(key =>
+          `${key} ${turn.override!.original[key]} -> ${turn.override!.adjustment[key]}`),
+        recomputedPath: turn.override.recomputedPath,
+      } : null,
+    })),
+  };
+};
+
+// --- Formatters ---
+
+const outcome = (r: CandidateReport) =>
+  r.status === 'TERMINATED' ? 'Terminated early' : r.passed ? 'Passed' : 'Below threshold';
+
+const gapLabel = (g: CandidateReport['skillGaps'][number]) =>
+  `${g.skill} (${g.type}${g.credit > 0 ? `, ${(g.credit * 100).toFixed(0)}% covered` : ''})`;
+
+// Measured level with its estimate and confidence interval, e.g. "Mid (6.10, 4.90-7.30)"
+const measuredLabel = (row: SkillMatrixRow) =>
+  row.measured ? `${row.measured.level} (${row.measured.estimate.toFixed(2)}, ${row.measured.low.toFixed(2)}-${row.measured.high.toFixed(2)})` : '-';
+
+const overrideLabel = (t: ReportTurn) =>
+  `Q${t.index}: final ${t.override!.automatedFinalScore.toFixed(2)} -> ${t.finalScore.toFixed(2)} (${t.override!.changes.join(', ')}) by ${t.override!.interviewer} at ${t.override!.at}` +
+  `${t.override!.recomputedPath ? ', difficulty and strikes recomputed' : ''}. Justification: ${t.override!.justification}`;
+
+const modeLabel = (mode: EvaluationMode) => (mode === 'LLM' ? 'LLM' : 'Deterministic fallback');
+
+// Candidate and LLM text is inserted literally: one line, inline syntax and
+// HTML escaped, and no block marker at its start (also keeps table rows whole)
+const mdText = (value: unknown) => String(value)
+  .replace(/\s*\n\s*/g, ' ')
+  .replace(/[\\`*_[\]<>|~&]/g, '\\$&')
+  .replace(/^(\s*)([#+=-]|\d+[.)])/, '$1\\$2');
+
+// Fenced code: the fence is longer than any backtick run inside, so the code cannot close it
+const codeFence = (code: string) =>
+  '`'.repeat(Math.max(3, ...(code.match(/`+/g) ?? []).map(run => run.length + 1)));
+
+const escapeHtml = (value: unknown) =>
+  String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const ReportFormatter = {
+  json: (r: CandidateReport) => JSON.stringify(r, null, 2),
+
+  markdown: (r: CandidateReport) => {
+    const lines: string[] = [
+      `# Interview Report: ${mdText(r.candidateName)}`,
+      '',
+      `- **Role:** ${mdText(r.roleTitle)}`,
+      `- **Session:** ${r.sessionId ?? 'n/a'}`,
+      `- **Outcome:** ${outcome(r)} (${r.status})`,
+      `- **Average Score:** ${r.averageScore.toFixed(2)} / 10 (passing ${r.passingThreshold})`,
+      `- **Evaluation Mode:** ${modeLabel(r.evaluationMode)} (providers: ${r.providers.join(', ') || 'none'})`,
+      `- **Difficulty Ceiling:** ${r.difficultyCeiling ?? 'none'}`,
+      `- **Policy:** ${r.policy ? `${r.policy.name} (${r.policy.id}@${r.policy.version})` : 'unbound'}`,
+      `- **Generated:** ${r.generatedAt}`,
+    ];
+    if (r.terminationReason) lines.push(`- **Termination Reason:** ${mdText(r.terminationReason)}`);
+
+    lines.push('', '## Skill Gaps', '');
+    if (r.skillGaps.length === 0) lines.push('None detected.');
+    r.skillGaps.forEach(g => lines.push(`- ${mdText(gapLabel(g))}`));
+
+    lines.push('', '## Skill Matrix', '');
+    if (r.skillMatrix.length === 0) lines.push('No skills claimed or tested.');
+    else lines.push('| Skill | Claimed | Measured (estimate, interval) | Answers | Verdict |', '|-------|---------|-------------------------------|---------|---------|');
+    r.skillMatrix.forEach(m => lines.push(
+      `| ${mdText(m.skill)} | ${m.claimed ?? '-'} | ${measuredLabel(m)} | ${m.measured?.evidence ?? 0} | ${VERDICT_LABELS[m.verdict]} |`
+    ));
+
+    lines.push('', '## Score Breakdown', '',
+      '| # | Skill | Difficulty | Base | Time | Gap | Injection | Final | Provider |',
+      '|---|-------|------------|------|------|-----|-----------|-------|----------|');
+    r.turns.forEach(t => lines.push(
+      `| ${t.index} | ${mdText(t.targetSkill)} | ${t.difficulty} | ${t.baseScore.toFixed(2)} | -${t.timePenalty} | -${t.gapPenalty} | -${t.injectionPenalty} | ${t.finalScore.toFixed(2)}${t.criticalFailure ? ' (critical)' : ''}${t.override ? ' (overridden)' : ''} | ${mdText(t.provider)}${t.isFallback ? ' (fallback)' : ''} |`
+    ));
+
+    const overridden = r.turns.filter(t => t.override);
+    if (overridden.length > 0) {
+      lines.push('', '## Interviewer Overrides', '');
+      overridden.forEach(t => lines.push(`- ${mdText(overrideLabel(t))}`));
+    }
+
+    lines.push('', '## Turns');
+    r.turns.forEach(t => lines.push(
+      '', `### Q${t.index}: ${mdText(t.targetSkill)} (${t.difficulty})`, '',
+      `> ${mdText(t.question)}`, '',
+      // Code keeps its line breaks in a fenced block
+      ...(t.tests
+        ? [`**Answer** (${t.timeTakenSeconds.toFixed(1)}s):`, '', codeFence(t.answer), t.answer, codeFence(t.answer), '']
+        : [`**Answer** (${t.timeTakenSeconds.toFixed(1)}s): ${t.answer ? mdText(t.answer) : '_(empty)_'}`, '']),
+      ...t.followUps.flatMap((f, i) => [
+        `**Follow-up ${i + 1}:** ${mdText(f.question)}`, '',
+        `**Answer** (${f.timeTakenSeconds.toFixed(1)}s, scored ${f.finalScore.toFixed(2)}): ${f.answer ? mdText(f.answer) : '_(empty)_'}`, '',
+      ]),
+      ...(t.tests ? [`**Tests:** ${mdText(t.tests)}`, ''] : []),
+      ...(t.llmError ? [`**LLM failure:** ${mdText(t.llmError)}`, ''] : []),
+      `**Feedback:** ${mdText(t.feedback)}`
+    ));
+
+    if (r.policy) {
+      lines.push('', '## Policy Constants', '', '| Constant | Value |', '|----------|-------|');
+      r.policy.constants.forEach(c => lines.push(`| ${mdText(c.label)} | ${mdText(c.value)} |`));
+    }
+    return lines.join('\n') + '\n';
+  },
+
+  html: (r: CandidateReport) => {
+    const row = (cells: unknown[], tag = 'td') => `<tr>${cells.map(c => `<${tag}>${escapeHtml(c)}</${tag}>`).join('')}</tr>`;
+    const summary: [string, unknown][] = [
+      ['Role', r.roleTitle],
+      ['Session', r.sessionId ?? 'n/a'],
+      ['Outcome', `${outcome(r)} (${r.status})`],
+      ['Average Score', `${r.averageScore.toFixed(2)} / 10 (passing ${r.passingThreshold})`],
+      ['Evaluation Mode', `${modeLabel(r.evaluationMode)} (providers: ${r.providers.join(', ') || 'none'})`],
+      ['Difficulty Ceiling', r.difficultyCeiling ?? 'none'],
+      ['Policy', r.policy ? `${r.policy.name} (${r.policy.id}@${r.policy.version})` : 'unbound'],
+      ['Skill Gaps', r.skillGaps.map(gapLabel).join(', ') || 'None detected'],
+      ...(r.terminationReason ? [['Termination Reason', r.terminationReason] as [string, unknown]] : []),
+      ['Generated', r.generatedAt],
+    ];
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Interview Report: ${escapeHtml(r.candidateName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 900px; margin: 2rem auto; padding: 0 1rem; font-size: 13px; }
+  h1 { font-size: 22px; margin-bottom: 0.25rem; }
+  h2 { font-size: 16px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; margin-top: 0.5rem; }
+  th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .turn { page-break-inside: avoid; margin-top: 1rem; }
+  .muted { color: #64748b; }
+  pre { background: #f1f5f9; padding: 8px; white-space: pre-wrap; font-size: 12px; }
+  @media print { body { margin: 0; max-width: none; } h2 { page-break-after: avoid; } }
+</style>
+</head>
+<body>
+<h1>Interview Report: ${escapeHtml(r.candidateName)}</h1>
+<table>${summary.map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`).join('')}</table>
+
+${r.skillMatrix.length > 0 ? `<h2>Skill Matrix</h2>
+<table>
+${row(['Skill', 'Claimed', 'Measured (estimate, interval)', 'Answers', 'Verdict'], 'th')}
+${r.skillMatrix.map(m => row([m.skill, m.claimed ?? '-', measuredLabel(m), m.measured?.evidence ?? 0, VERDICT_LABELS[m.verdict]])).join('\n')}
+</table>
+
+` : ''}<h2>Score Breakdown</h2>
+<table>
+${row(['#', 'Skill', 'Difficulty', 'Base', 'Time', 'Gap', 'Injection', 'Final', 'Provider'], 'th')}
+${r.turns.map(t => row([
+  t.index, t.targetSkill, t.difficulty, t.baseScore.toFixed(2), `-${t.timePenalty}`, `-${t.gapPenalty}`, `-${t.injectionPenalty}`,
+  `${t.finalScore.toFixed(2)}${t.criticalFailure ? ' (critical)' : ''}${t.override ? ' (overridden)' : ''}`, `${t.provider}${t.isFallback ? ' (fallback)' : ''}`,
+])).join('\n')}
+</table>
+
+${r.turns.some(t => t.override) ? `<h2>Interviewer Overrides</h2>
+<ul>
+${r.turns.filter(t => t.override).map(t => `<li>${escapeHtml(overrideLabel(t))}</li>`).join('\n')}
+</ul>
+
+` : ''}<h2>Turns</h2>
+${r.turns.map(t => `<div class="turn">
+<strong>Q${t.index}: ${escapeHtml(t.targetSkill)} (${escapeHtml(t.difficulty)})</strong>
+<p>${escapeHtml(t.question)}</p>
+${t.tests
+  ? `<p><em>Answer (${t.timeTakenSeconds.toFixed(1)}s):</em></p><pre>${escapeHtml(t.answer)}</pre>`
+  : `<p><em>Answer (${t.timeTakenSeconds.toFixed(1)}s):</em> ${escapeHtml(t.answer || '(empty)')}</p>`}
+${t.followUps.map((f, i) => `<p><strong>Follow-up ${i + 1}:</strong> ${escapeHtml(f.question)}</p>
+<p><em>Answer (${f.timeTakenSeconds.toFixed(1)}s, scored ${f.finalScore.toFixed(2)}):</em> ${escapeHtml(f.answer || '(empty)')}</p>`).join('\n')}
+${t.tests ? `<p><em>Tests:</em> ${escapeHtml(t.tests)}</p>\n` : ''}${t.llmError ? `<p><em>LLM failure:</em> ${escapeHtml(t.llmError)}</p>\n` : ''}<p class="muted">${escapeHtml(t.feedback)}</p>
+</div>`).join('\n')}
+
+${r.policy ? `<h2>Policy Constants</h2>
+<table>
+${row(['Constant', 'Value'], 'th')}
+${r.policy.constants.map(c => row([c.label, c.value])).join('\n')}
+</table>` : ''}
+</body>
+</html>
+`;
+  },
+};
@@ -0,0 +1,101 @@
+import { InterviewState, InterviewTurn, JobDescriptionData } from "../types";
+import { buildReport } from "./report";
+import { skillTaxonomy } from "./skills";
+
+// ============================================================================
+// REQUISITIONS
+// One parsed job description with every candidate session interviewed
+// against it. Standings are derived from the stored sessions on demand, so a
+// requisition only records which sessions belong to it.
+// ============================================================================
+
+export interface Requisition {
+  id: string;
+  title: string;
+  jd: JobDescriptionData; // Parsed once; every candidate is assessed against this
+  createdAt: number;
+  sessionIds: string[];   // In interview order
+}
+
+export interface SkillCoverageCell {
+  skill: string;             // As written in the JD
+  type: 'PRIMARY' | 'SECONDARY';
+  resumeCredit: number;      // 0-1 from the taxonomy match against the resume
+  measured: number | null;   // Proficiency estimate, when a question targeted the skill
+}
+
+export interface CandidateStanding {
+  rank: number | null;       // Null while the interview is unfinished
+  sessionId: string;
+  candidateName: string;
+  status: InterviewState['status'];
+  averageScore: number;
+  passed: boolean;
+  questionsAnswered: number;
+  gapCount: number;
+  primaryGapCount: number;
+  terminationReason: string | null;
+  coverage: SkillCoverageCell[];
+}
+
+export interface TurnPair {
+  index: number;             // 1-based question number
+  left: InterviewTurn | null;
+  right: InterviewTurn | null;
+}
+
+const FINISHED: InterviewState['status'][] = ['COMPLETED', 'TERMINATED'];
+
+const coverageFor = (jd: JobDescriptionData, state: InterviewState): SkillCoverageCell[] => {
+  const cell = (skill: string, type: SkillCoverageCell['type']): SkillCoverageCell => ({
+    skill,
+    type,
+    resumeCredit: state.skillMatches.find(m => m.skill === skill)?.credit ?? 0,
+    measured: state.skillMatrix.find(row => row.measured && skillTaxonomy.same(row.skill, skill))?.measured?.estimate ?? null,
+  });
+  return [...jd.primarySkills.map(s => cell(s, 'PRIMARY')), ...jd.secondarySkills.map(s => cell(s, 'SECONDARY'))];
+};
+
+/**
+ * Ranks finished sessions by final score (ties: fewer primary gaps, then
+ * fewer gaps, then name). Unfinished sessions follow, unranked.
+ */
+export const rankCandidates = (requisition: Requisition, sessions: InterviewState[]): CandidateStanding[] => {
+  const standings = sessions.map((state): CandidateStanding => {
+    const report = buildReport(state);
+    return {
+      rank: null,
+      sessionId: state.sessionId ?? '',
+      candidateName: report.candidateName,
+      status: state.status,
+      averageScore: report.averageScore,
+      passed: report.passed,
+      questionsAnswered: state.turns.length,
+      gapCount: state.detectedSkillGaps.length,
+      primaryGapCount: state.detectedSkillGaps.filter(g => g.type === 'PRIMARY').length,
+      terminationReason: state.terminationReason,
+      coverage: coverageFor(requisition.jd, state),
+    };
+  });
+
+  const ranked = standings
+    .filter(s => FINISHED.includes(s.status))
+    .sort((a, b) =>
+      b.averageScore - a.averageScore ||
+      a.primaryGapCount - b.primaryGapCount ||
+      a.gapCount - b.gapCount ||
+      a.candidateName.localeCompare(b.candidateName))
+    .map((s, i) => ({ ...s, rank: i + 1 }));
+
+  return [...ranked, ...standings.filter(s => !FINISHED.includes(s.status))];
+};
+
+/**
+ * Lines up two candidates' turns by question number for side-by-side review.
+ */
+export const pairTurns = (left: InterviewState, right: InterviewState): TurnPair[] =>
+  Array.from({ length: Math.max(left.turns.length, right.turns.length) }, (_, i) => ({
+    index: i + 1,
+    left: left.turns[i] ?? null,
+    right: right.turns[i] ?? null,
+  }));
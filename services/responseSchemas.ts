@@ -0,0 +1,115 @@
+import { Schema, Type } from "@google/genai";
+import { MALFORMED_PREFIX } from "./llmErrors";
+
+// ============================================================================
+// RESPONSE SCHEMAS
+// The JSON every provider must return, one schema per call. Gemini is given
+// them as response schemas; other providers are only asked for the shape in
+// the prompt. Either way the output is checked against them before anything
+// downstream trusts it.
+// ============================================================================
+
+export const RESPONSE_SCHEMAS = {
+  resume: {
+    type: Type.OBJECT,
+    properties: {
+      candidateName: { type: Type.STRING },
+      experienceYears: { type: Type.NUMBER },
+      primaryRole: { type: Type.STRING },
+      skills: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            level: { type: Type.STRING, enum: ["Junior", "Mid", "Senior"] },
+          },
+          required: ["name", "level"]
+        },
+      },
+    },
+    required: ["candidateName", "experienceYears", "primaryRole", "skills"],
+  },
+  jd: {
+    type: Type.OBJECT,
+    properties: {
+      roleTitle: { type: Type.STRING },
+      complexityLevel: { type: Type.STRING, enum: ["Junior", "Mid", "Senior"] },
+      primarySkills: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Critical, non-negotiable core skills for the role."
+      },
+      secondarySkills: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Nice-to-have, bonus, or peripheral skills."
+      },
+    },
+    required: ["roleTitle", "complexityLevel", "primarySkills", "secondarySkills"],
+  },
+  question: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      targetSkill: { type: Type.STRING },
+      expectedKeywords: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+      },
+    },
+    required: ["text", "targetSkill", "expectedKeywords"],
+  },
+  evaluation: {
+    type: Type.OBJECT,
+    properties: {
+      accuracy: { type: Type.NUMBER, description: "0-10. Factual correctness." },
+      clarity: { type: Type.NUMBER, description: "0-10. Communication quality." },
+      depth: { type: Type.NUMBER, description: "0-10. Technical depth vs difficulty." },
+      relevance: { type: Type.NUMBER, description: "0-10. Directness of answer." },
+      feedback: { type: Type.STRING },
+    },
+    required: ["accuracy", "clarity", "depth", "relevance", "feedback"],
+  },
+} satisfies Record<string, Schema>;
+
+export type ResponseKind = keyof typeof RESPONSE_SCHEMAS;
+
+const checkSchema = (value: unknown, schema: Schema, path = 'response'): string[] => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} is not an object`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required ?? []).filter(key => record[key] === undefined || record[key] === null).map(key => `${path}.${key} is missing`);
+      const invalid = Object.entries(schema.properties ?? {})
+        .filter(([key]) => record[key] !== undefined && record[key] !== null)
+        .flatMap(([key, property]) => checkSchema(record[key], property, `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${path} is not an array`];
+      return schema.items ? value.flatMap((item, i) => checkSchema(item, schema.items!, `${path}[${i}]`)) : [];
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path} is not a string`];
+      return schema.enum && !schema.enum.includes(value) ? [`${path} must be one of ${schema.enum.join(', ')}`] : [];
+    case Type.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} is not a finite number`];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Parses a provider's JSON text. Throws a MALFORMED error (see llmErrors.ts) if it is not JSON of the schema's shape.
+ */
+export const parseResponse = (text: string, schema: Schema): unknown => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${MALFORMED_PREFIX}: not valid JSON`);
+  }
+  const problems = checkSchema(data, schema);
+  if (problems.length > 0) throw new Error(`${MALFORMED_PREFIX}: ${problems.join('; ')}`);
+  return data;
+};
@@ -0,0 +1,137 @@
+import { ResumeData, Skill, ParseDiagnostics } from "../types";
+import { Extraction, ROLE_WORDS, clean, labelled, sectionLines, splitList } from "./textRules";
+
+// ============================================================================
+// DETERMINISTIC RESUME PARSER
+// Rule-based extraction used when no LLM is reachable. Understands labelled
+// lines ("Name: ...", "Skills: React (Mid), ..."), section headings followed
+// by bullet lists, and plain prose ("5+ years of experience"). Every field
+// records how it was found so the caller can judge how far to trust it.
+// ============================================================================
+
+export const RESUME_PARSER_NAME = 'deterministic-resume';
+
+const FIELD_WEIGHTS: Record<'candidateName' | 'experienceYears' | 'primaryRole' | 'skills', number> = {
+  candidateName: 0.2,
+  experienceYears: 0.2,
+  primaryRole: 0.2,
+  skills: 0.4,
+};
+
+const LEVEL_WORDS: Record<string, Skill['level']> = {
+  junior: 'Junior', beginner: 'Junior', basic: 'Junior', novice: 'Junior', familiar: 'Junior',
+  mid: 'Mid', intermediate: 'Mid', proficient: 'Mid', working: 'Mid',
+  senior: 'Senior', expert: 'Senior', advanced: 'Senior', strong: 'Senior',
+};
+
+const SKILL_HEADINGS = /^(technical\s+)?(skills|skill set|tech(nical)? stack|technologies|core competencies)$/i;
+
+const extractName = (lines: string[]): Extraction<string> => {
+  const value = labelled(lines, /^(full\s+)?name$|^candidate$/i);
+  if (value) return { value, certainty: 1 };
+
+  // Resumes usually open with the candidate's name on its own line
+  const first = lines.find(l => l.trim().length > 0)?.trim() ?? '';
+  if (/^[A-Z][a-zA-Z'.-]+(\s+[A-Z][a-zA-Z'.-]+){1,3}$/.test(first) && !ROLE_WORDS.test(first)) {
+    return { value: first, certainty: 0.5 };
+  }
+  return null;
+};
+
+const extractExperience = (text: string, lines: string[], now: Date): Extraction<number> => {
+  const value = labelled(lines, /^(total\s+)?(experience|years of experience|yoe)$/i);
+  const fromLabel = value?.match(/(\d+(?:\.\d+)?)/);
+  if (fromLabel) return { value: Number(fromLabel[1]), certainty: 1 };
+
+  const prose = text.match(/(\d+(?:\.\d+)?)\s*\+?\s*(?:years?|yrs?)\b(?:\s+of)?(?:\s+\w+)?\s+experience/i);
+  if (prose) return { value: Number(prose[1]), certainty: 1 };
+
+  // Sum employment date ranges ("2019 - 2022", "2022 – Present")
+  const ranges = Array.from(text.matchAll(/\b((?:19|20)\d{2})\s*(?:-|–|—|to)\s*((?:19|20)\d{2}|present|current|now)\b/gi));
+  if (ranges.length > 0) {
+    const years = ranges.reduce((sum, r) => {
+      const end = /^\d+$/.test(r[2]) ? Number(r[2]) : now.getFullYear();
+      return sum + Math.max(0, end - Number(r[1]));
+    }, 0);
+    return { value: years, certainty: 0.5 };
+  }
+  return null;
+};
+
+const extractRole = (lines: string[]): Extraction<string> => {
+  const value = labelled(lines, /^(current\s+)?(role|title|position|job title|headline)$/i);
+  if (value) return { value, certainty: 1 };
+
+  const line = lines.map(clean).find(l => ROLE_WORDS.test(l) && l.length <= 60 && !l.includes(':'));
+  return line ? { value: line, certainty: 0.5 } : null;
+};
+
+/**
+ * "React (Senior)", "React - Expert", "React: advanced" or plain "React".
+ */
+const parseSkillToken = (token: string, defaultLevel: Skill['level']): Skill | null => {
+  const raw = clean(token).replace(/\.$/, '');
+  if (raw.length === 0 || raw.length > 40) return null;
+
+  const m = raw.match(/^(.+?)\s*(?:\(([^)]+)\)|[-–:]\s*([A-Za-z]+))$/);
+  const levelOf = (qualifier: string) =>
+    Object.entries(LEVEL_WORDS).find(([word]) => qualifier.toLowerCase().includes(word))?.[1];
+
+  // A trailing "- word" only counts as a level if it is one ("Objective-C" stays intact)
+  if (!m || (m[3] !== undefined && !levelOf(m[3]))) return { name: raw, level: defaultLevel };
+  const name = m[1].trim();
+  return name ? { name, level: levelOf(m[2] ?? m[3]) ?? defaultLevel } : null;
+};
+
+const extractSkills = (lines: string[], defaultLevel: Skill['level']): Extraction<Skill[]> => {
+  const tokens: string[] = [];
+  let certainty = 0;
+
+  // 1. Inline: "Skills: React (Mid), TypeScript (Mid)"
+  const inline = labelled(lines, /^(technical\s+|core\s+)?(skills|tech(nical)? stack|technologies)$/i);
+  if (inline) {
+    tokens.push(...splitList(inline));
+    certainty = 1;
+  }
+
+  // 2. Section: a "Skills" heading followed by bullet/comma lines
+  if (tokens.length === 0) {
+    tokens.push(...(sectionLines(lines, SKILL_HEADINGS) ?? []).flatMap(line => splitList(line)));
+    certainty = tokens.length > 0 ? 1 : 0;
+  }
+
+  const seen = new Set<string>();
+  const skills = tokens
+    .map(t => parseSkillToken(t, defaultLevel))
+    .filter((s): s is Skill => {
+      if (!s || seen.has(s.name.toLowerCase())) return false;
+      seen.add(s.name.toLowerCase());
+      return true;
+    });
+  return skills.length > 0 ? { value: skills, certainty } : null;
+};
+
+const levelForYears = (years: number): Skill['level'] => (years < 2 ? 'Junior' : years < 5 ? 'Mid' : 'Senior');
+
+export const parseResumeText = (text: string, now: Date = new Date()): ResumeData & { parseDiagnostics: ParseDiagnostics } => {
+  const lines = text.split(/\r?\n/);
+
+  const name = extractName(lines);
+  const experience = extractExperience(text, lines, now);
+  const role = extractRole(lines);
+  const experienceYears = experience?.value ?? 0;
+  const skills = extractSkills(lines, levelForYears(experienceYears));
+
+  const found = { candidateName: name, experienceYears: experience, primaryRole: role, skills };
+  const missingFields = (Object.keys(found) as (keyof typeof found)[]).filter(k => found[k] === null);
+  const confidence = (Object.keys(found) as (keyof typeof found)[])
+    .reduce((sum, k) => sum + FIELD_WEIGHTS[k] * (found[k]?.certainty ?? 0), 0);
+
+  return {
+    candidateName: name?.value ?? 'Unknown Candidate',
+    experienceYears,
+    primaryRole: role?.value ?? 'Unknown',
+    skills: skills?.value ?? [],
+    parseDiagnostics: { parser: RESUME_PARSER_NAME, confidence: Number(confidence.toFixed(2)), missingFields },
+  };
+};
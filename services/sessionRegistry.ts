@@ -0,0 +1,124 @@
+import { InterviewState } from "../types";
+import { InterviewEngine } from "./engine";
+import { EngineDependencies, randomIds, systemClock } from "./engineDeps";
+
+// ============================================================================
+// SESSION REGISTRY
+// Many independent interviews in one process (a backend, a batch of scripted
+// candidates). Each session owns its engine; shared collaborators are given
+// once to the registry and can be overridden per session. The registry id is
+// also the session id the engine records at initialization.
+// ============================================================================
+
+export interface LiveSession {
+  id: string;
+  engine: InterviewEngine;
+  createdAt: number;
+  lastActivityAt: number; // Last recorded engine event
+}
+
+export interface LiveSessionSummary {
+  id: string;
+  status: InterviewState['status'];
+  candidateName: string | null;
+  policy: InterviewState['policy'];
+  questionsAnswered: number;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+interface Entry extends LiveSession {
+  unsubscribe: () => void;
+}
+
+export class SessionRegistry {
+  private sessions = new Map<string, Entry>();
+  private readonly deps: Partial<EngineDependencies>;
+
+  /**
+   * @param deps Collaborators shared by every session (defaults as in InterviewEngine).
+   */
+  constructor(deps: Partial<EngineDependencies> = {}) {
+    this.deps = deps;
+  }
+
+  private get clock() { return this.deps.clock ?? systemClock; }
+
+  /**
+   * @param overrides Collaborators for this session only, or a function of the new session id returning them.
+   */
+  public create(overrides: Partial<EngineDependencies> | ((id: string) => Partial<EngineDependencies>) = {}): LiveSession {
+    const id = (this.deps.ids ?? randomIds)();
+    if (this.sessions.has(id)) {
+      throw new Error(`Session '${id}' already exists.`);
+    }
+
+    return this.add(id, typeof overrides === 'function' ? overrides(id) : overrides);
+  }
+
+  /**
+   * Brings a session this registry no longer holds (restart, pruning) back
+   * under its own id from a snapshot; see InterviewEngine.restore.
+   */
+  public restore(id: string, snapshot: InterviewState, elapsedSeconds?: number, overrides: Partial<EngineDependencies> = {}): LiveSession {
+    if (this.sessions.has(id)) {
+      throw new Error(`Session '${id}' already exists.`);
+    }
+    const live = this.add(id, overrides);
+    live.engine.restore(snapshot, elapsedSeconds);
+    return live;
+  }
+
+  public get(id: string): LiveSession | undefined {
+    const entry = this.sessions.get(id);
+    return entry ? this.toLive(entry) : undefined;
+  }
+
+  public list(): LiveSessionSummary[] {
+    return [...this.sessions.values()].map(({ id, engine, createdAt, lastActivityAt }) => {
+      const state = engine.getState();
+      const init = state.events.find(e => e.type === 'SESSION_INITIALIZED');
+      return {
+        id,
+        status: state.status,
+        candidateName: init?.type === 'SESSION_INITIALIZED' ? init.resume.candidateName : null,
+        policy: state.policy,
+        questionsAnswered: state.turns.length,
+        createdAt,
+        lastActivityAt,
+      };
+    });
+  }
+
+  public remove(id: string): boolean {
+    const entry = this.sessions.get(id);
+    if (!entry) return false;
+    entry.unsubscribe();
+    return this.sessions.delete(id);
+  }
+
+  /**
+   * Removes sessions without activity for longer than maxIdleMs. Returns their ids.
+   */
+  public prune(maxIdleMs: number): string[] {
+    const cutoff = this.clock.now() - maxIdleMs;
+    const stale = [...this.sessions.values()].filter(e => e.lastActivityAt < cutoff).map(e => e.id);
+    stale.forEach(id => this.remove(id));
+    return stale;
+  }
+
+  public get size() { return this.sessions.size; }
+
+  private add(id: string, own: Partial<EngineDependencies>): LiveSession {
+    const engine = new InterviewEngine({ ...this.deps, ...own, ids: () => id });
+    const now = this.clock.now();
+    const entry: Entry = { id, engine, createdAt: now, lastActivityAt: now, unsubscribe: () => {} };
+    entry.unsubscribe = engine.subscribe(() => { entry.lastActivityAt = this.clock.now(); });
+    this.sessions.set(id, entry);
+    return this.toLive(entry);
+  }
+
+  private toLive({ id, engine, createdAt, lastActivityAt }: Entry): LiveSession {
+    return { id, engine, createdAt, lastActivityAt };
+  }
+}
@@ -0,0 +1,190 @@
+import { SkillMatch, SkillRelation } from "../types";
+
+// ============================================================================
+// SKILL TAXONOMY
+// Canonical skill names with aliases ("TS" -> TypeScript) and parent/child
+// relations (Next.js is a React framework). Gap analysis compares canonical
+// names, and a related skill earns partial credit instead of counting as a gap.
+// ============================================================================
+
+export interface SkillNode {
+  canonical: string;
+  aliases?: string[];
+  parent?: string; // Canonical name of the broader skill
+}
+
+/**
+ * Credit a candidate skill earns towards a required one, by relation.
+ * CHILD: candidate knows a specialization (Next.js for React).
+ * PARENT: candidate knows the broader skill only (JavaScript for TypeScript).
+ */
+export const RELATION_CREDIT: Record<SkillRelation, number> = {
+  EXACT: 1,
+  ALIAS: 1,
+  CHILD: 0.5,
+  PARENT: 0.25,
+  NONE: 0,
+};
+
+export const DEFAULT_SKILL_NODES: SkillNode[] = [
+  // Languages
+  { canonical: 'JavaScript', aliases: ['JS', 'ECMAScript', 'ES6', 'Vanilla JS'] },
+  { canonical: 'TypeScript', aliases: ['TS'], parent: 'JavaScript' },
+  { canonical: 'Python', aliases: ['Py', 'Python3'] },
+  { canonical: 'Java' },
+  { canonical: 'Kotlin' },
+  { canonical: 'Go', aliases: ['Golang'] },
+  { canonical: 'Rust' },
+  { canonical: 'C#', aliases: ['CSharp', 'C Sharp'] },
+  { canonical: 'SQL' },
+
+  // Frontend
+  { canonical: 'HTML', aliases: ['HTML5'] },
+  { canonical: 'CSS', aliases: ['CSS3'] },
+  { canonical: 'Sass', aliases: ['SCSS'], parent: 'CSS' },
+  { canonical: 'Tailwind CSS', aliases: ['Tailwind', 'TailwindCSS'], parent: 'CSS' },
+  { canonical: 'React', aliases: ['React.js', 'ReactJS', 'React JS'], parent: 'JavaScript' },
+  { canonical: 'Next.js', aliases: ['NextJS', 'Next'], parent: 'React' },
+  { canonical: 'Redux', aliases: ['Redux Toolkit', 'RTK'], parent: 'React' },
+  { canonical: 'React Native', aliases: ['RN'], parent: 'React' },
+  { canonical: 'Vue', aliases: ['Vue.js', 'VueJS'], parent: 'JavaScript' },
+  { canonical: 'Nuxt', aliases: ['Nuxt.js', 'NuxtJS'], parent: 'Vue' },
+  { canonical: 'Angular', aliases: ['Angular 2+'], parent: 'TypeScript' },
+  { canonical: 'Svelte', aliases: ['SvelteKit'], parent: 'JavaScript' },
+  { canonical: 'Web Storage', aliases: ['LocalStorage', 'SessionStorage'] },
+  { canonical: 'Performance Optimization', aliases: ['Performance', 'Performance Tuning'] },
+  { canonical: 'Web Performance', aliases: ['Frontend Performance', 'Core Web Vitals'], parent: 'Performance Optimization' },
+
+  // Backend
+  { canonical: 'Node.js', aliases: ['Node', 'NodeJS', 'Node JS'], parent: 'JavaScript' },
+  { canonical: 'Express', aliases: ['Express.js', 'ExpressJS'], parent: 'Node.js' },
+  { canonical: 'NestJS', aliases: ['Nest', 'Nest.js'], parent: 'Node.js' },
+  { canonical: 'Django', parent: 'Python' },
+  { canonical: 'Flask', parent: 'Python' },
+  { canonical: 'FastAPI', parent: 'Python' },
+  { canonical: 'Spring', aliases: ['Spring Boot', 'SpringBoot'], parent: 'Java' },
+  { canonical: '.NET', aliases: ['dotnet', 'ASP.NET', '.NET Core'], parent: 'C#' },
+  { canonical: 'GraphQL', aliases: ['GQL'] },
+  { canonical: 'Apollo', aliases: ['Apollo GraphQL', 'Apollo Client'], parent: 'GraphQL' },
+  { canonical: 'REST', aliases: ['REST API', 'RESTful', 'RESTful APIs', 'REST APIs'] },
+  { canonical: 'System Design', aliases: ['Distributed Systems', 'Software Architecture'] },
+
+  // Data
+  { canonical: 'PostgreSQL', aliases: ['Postgres', 'PSQL'], parent: 'SQL' },
+  { canonical: 'MySQL', aliases: ['MariaDB'], parent: 'SQL' },
+  { canonical: 'MongoDB', aliases: ['Mongo'] },
+  { canonical: 'Redis' },
+
+  // Infrastructure
+  { canonical: 'AWS', aliases: ['Amazon Web Services'] },
+  { canonical: 'AWS Lambda', aliases: ['Lambda'], parent: 'AWS' },
+  { canonical: 'GCP', aliases: ['Google Cloud', 'Google Cloud Platform'] },
+  { canonical: 'Azure', aliases: ['Microsoft Azure'] },
+  { canonical: 'Docker' },
+  { canonical: 'Kubernetes', aliases: ['K8s'] },
+  { canonical: 'Terraform' },
+  { canonical: 'CI/CD', aliases: ['CI', 'CD', 'Continuous Integration', 'Continuous Delivery', 'GitHub Actions'] },
+
+  // Quality
+  { canonical: 'Testing', aliases: ['Unit Testing', 'Automated Testing', 'QA'] },
+  { canonical: 'Jest', parent: 'Testing' },
+  { canonical: 'Cypress', parent: 'Testing' },
+  { canonical: 'Playwright', parent: 'Testing' },
+];
+
+// Weakest to strongest; also breaks ties between equal-credit relations
+const RELATION_RANK: SkillRelation[] = ['NONE', 'PARENT', 'CHILD', 'ALIAS', 'EXACT'];
+
+const keyOf = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export class SkillTaxonomy {
+  private nodes = new Map<string, SkillNode>(); // canonical key -> node
+  private lookup = new Map<string, string>();   // canonical or alias key -> canonical name
+
+  constructor(nodes: SkillNode[] = DEFAULT_SKILL_NODES) {
+    nodes.forEach(node => {
+      [node.canonical, ...(node.aliases ?? [])].forEach(name => {
+        const existing = this.lookup.get(keyOf(name));
+        if (existing && existing !== node.canonical) {
+          throw new Error(`Skill alias '${name}' is claimed by both '${existing}' and '${node.canonical}'.`);
+        }
+        this.lookup.set(keyOf(name), node.canonical);
+      });
+      this.nodes.set(keyOf(node.canonical), node);
+    });
+    nodes.forEach(node => {
+      if (node.parent && !this.nodes.has(keyOf(node.parent))) {
+        throw new Error(`Skill '${node.canonical}' has unknown parent '${node.parent}'.`);
+      }
+    });
+  }
+
+  /**
+   * Canonical name for a skill. Unknown skills are returned trimmed, as written.
+   */
+  canonicalize(name: string): string {
+    return this.lookup.get(keyOf(name)) ?? name.trim();
+  }
+
+  same(a: string, b: string): boolean {
+    return keyOf(this.canonicalize(a)) === keyOf(this.canonicalize(b));
+  }
+
+  /**
+   * Canonical ancestors, nearest first.
+   */
+  ancestors(name: string): string[] {
+    const chain: string[] = [];
+    let node = this.nodes.get(keyOf(this.canonicalize(name)));
+    while (node?.parent && !chain.includes(node.parent)) {
+      chain.push(node.parent);
+      node = this.nodes.get(keyOf(node.parent));
+    }
+    return chain;
+  }
+
+  private relationOf(required: string, candidate: string): SkillRelation {
+    if (keyOf(required) === keyOf(candidate)) return 'EXACT';
+    if (this.same(required, candidate)) return 'ALIAS';
+
+    const requiredKey = keyOf(this.canonicalize(required));
+    if (this.ancestors(candidate).some(a => keyOf(a) === requiredKey)) return 'CHILD';
+
+    const candidateKey = keyOf(this.canonicalize(candidate));
+    if (this.ancestors(required).some(a => keyOf(a) === candidateKey)) return 'PARENT';
+    return 'NONE';
+  }
+
+  /**
+   * Best match for a required skill among the candidate's skills.
+   */
+  match(required: string, candidateSkills: string[]): SkillMatch {
+    const best = candidateSkills.reduce<{ relation: SkillRelation; matchedBy: string | null }>((current, skill) => {
+      const relation = this.relationOf(required, skill);
+      return RELATION_RANK.indexOf(relation) > RELATION_RANK.indexOf(current.relation) ? { relation, matchedBy: skill } : current;
+    }, { relation: 'NONE', matchedBy: null });
+
+    return {
+      skill: required,
+      canonical: this.canonicalize(required),
+      relation: best.relation,
+      matchedBy: best.matchedBy,
+      credit: RELATION_CREDIT[best.relation],
+    };
+  }
+}
+
+export const skillTaxonomy = new SkillTaxonomy();
+
+/**
+ * Human-readable explanation of a match, e.g. "via alias 'TS'".
+ */
+export const describeMatch = (m: SkillMatch): string => {
+  switch (m.relation) {
+    case 'EXACT': return 'exact match';
+    case 'ALIAS': return `via alias '${m.matchedBy}'`;
+    case 'CHILD': return `partially via '${m.matchedBy}' (a ${m.canonical} specialization)`;
+    case 'PARENT': return `partially via '${m.matchedBy}' (broader than ${m.canonical})`;
+    case 'NONE': return 'not found on resume';
+  }
+};
@@ -0,0 +1,247 @@
+import { InterviewState, ResumeData, JobDescriptionData, LogCategory, LogEntry } from "../types";
+import { INTERVIEW_POLICY, PolicyDocument } from "./policy";
+import { Requisition } from "./requisition";
+
+// ============================================================================
+// SESSION PERSISTENCE
+// Versioned snapshots in localStorage so a reload or crash never costs the
+// candidate their progress (or resets their strike counters).
+// ============================================================================
+
+export const STORAGE_VERSION = 9; // v2: InterviewState.events, v3: policy stamp, v4: structured logs, v5: skill matches, v6: follow-up sub-turns, v7: skill matrix, v8: question clock, v9: injection penalty
+
+const KEYS = {
+  INDEX: 'hack2hire:sessions',
+  ACTIVE: 'hack2hire:active-session',
+  POLICIES: 'hack2hire:policies',
+  REQUISITIONS: 'hack2hire:requisitions',
+  SESSION: (id: string) => `hack2hire:session:${id}`,
+};
+
+export interface PersistedSession {
+  version: number;
+  id: string;
+  observerToken?: string; // Interviewer access to the server session
+  createdAt: number;
+  updatedAt: number;
+  resume: ResumeData;
+  jd: JobDescriptionData;
+  state: InterviewState;
+  // Seconds already spent on the active question at the last save.
+  activeQuestionElapsedSec: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  candidateName: string;
+  roleTitle: string;
+  policy: InterviewState['policy'];
+  status: InterviewState['status'];
+  questionsAnswered: number;
+  averageScore: number | null;
+  updatedAt: number;
+}
+
+const FINISHED: InterviewState['status'][] = ['COMPLETED', 'TERMINATED'];
+
+// --- Migrations ---
+// Older snapshots are upgraded on load, one version at a time, by default-filling
+// what each version added. MIGRATIONS[n] turns a version n snapshot into n + 1.
+
+const LOG_CATEGORIES: LogCategory[] = [
+  'SYSTEM', 'STATE', 'ANALYSIS', 'POLICY', 'QUESTION', 'EVENT', 'EVAL',
+  'SCORE', 'ADAPT', 'RISK', 'RECOVERY', 'EDGE CASE', 'WARN', 'FINAL', 'TERM', 'OVERRIDE',
+];
+
+// v1-v3 logs were rendered strings, newest first: "[10:32:01 AM] [STATE] message"
+const toLogEntry = (line: string, seq: number): LogEntry => {
+  const [, tag, message] = line.match(/^\[[^\]]*\] (?:\[([A-Z ]+)\] )?([\s\S]*)$/) ?? [null, null, line];
+  const category = LOG_CATEGORIES.includes(tag as LogCategory) ? tag as LogCategory : 'SYSTEM';
+  return { seq, timestamp: null, category, severity: category === 'WARN' ? 'WARN' : 'INFO', turnIndex: null, message };
+};
+
+const MIGRATIONS: Record<number, (session: PersistedSession) => void> = {
+  // v2: event stream. Older sessions have none, so they cannot be replayed.
+  1: ({ state }) => { state.events ??= []; },
+  // v3: policy stamp. Older sessions ran on the built-in policy.
+  2: ({ state }) => {
+    state.policy ??= null;
+    state.config.strikeLimit ??= INTERVIEW_POLICY.TERMINATION.STRIKE_LIMIT;
+  },
+  // v4: structured logs, oldest first
+  3: ({ state }) => {
+    const lines = state.logs as unknown[];
+    state.logs = [...lines].reverse().map((line, i) => typeof line === 'string' ? toLogEntry(line, i) : line as LogEntry);
+  },
+  // v5: skill matches with partial credit
+  4: ({ state }) => {
+    state.skillMatches ??= [];
+    state.detectedSkillGaps = state.detectedSkillGaps.map(gap => ({ ...gap, credit: gap.credit ?? 0 }));
+  },
+  // v6: follow-up sub-turns. Older turns were a single answer.
+  5: ({ state }) => {
+    state.turns.forEach(turn => {
+      turn.subTurns ??= [{ question: turn.question, answer: turn.answer, evaluation: turn.evaluation, timestamp: turn.timestamp }];
+    });
+    state.pendingSubTurns ??= [];
+  },
+  // v7: skill matrix, rebuilt from the next answered turn
+  6: ({ state }) => { state.skillMatrix ??= []; },
+  // v8: question clock, started from the time saved with the snapshot
+  7: session => {
+    const { state } = session;
+    state.questionClock ??= state.activeQuestion
+      ? { presentedAt: session.updatedAt - (session.activeQuestionElapsedSec ?? 0) * 1000, pausedMs: 0, pausedAt: null, pausedBy: null }
+      : null;
+  },
+  // v9: injection penalty. Optional on evaluations; older answers were never penalized.
+  8: () => {},
+};
+
+/**
+ * Upgrades a snapshot to STORAGE_VERSION in place. Returns false when it cannot be.
+ */
+const migrate = (session: PersistedSession): boolean => {
+  if (!Number.isInteger(session.version) || session.version < 1 || session.version > STORAGE_VERSION) return false;
+  try {
+    for (; session.version < STORAGE_VERSION; session.version++) MIGRATIONS[session.version](session);
+    return true;
+  } catch (e) {
+    console.warn(`Failed to migrate session ${session.id} from storage version ${session.version}:`, e);
+    return false;
+  }
+};
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null; // Access can throw in sandboxed iframes / privacy modes
+  }
+};
+
+const readJSON = <T>(key: string): T | null => {
+  const store = getStorage();
+  if (!store) return null;
+  const raw = store.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    console.warn(`Corrupt storage entry '${key}'. Ignoring.`);
+    return null;
+  }
+};
+
+const writeJSON = (key: string, value: unknown) => {
+  const store = getStorage();
+  if (!store) return;
+  try {
+    store.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to persist '${key}':`, e);
+  }
+};
+
+const summarize = (session: PersistedSession): SessionSummary => {
+  const { scoreHistory } = session.state;
+  return {
+    id: session.id,
+    candidateName: session.resume.candidateName,
+    roleTitle: session.jd.roleTitle,
+    policy: session.state.policy,
+    status: session.state.status,
+    questionsAnswered: session.state.turns.length,
+    averageScore: scoreHistory.length > 0 ? scoreHistory.reduce((a, b) => a + b, 0) / scoreHistory.length : null,
+    updatedAt: session.updatedAt,
+  };
+};
+
+export const SessionStore = {
+  isFinished: (state: InterviewState) => FINISHED.includes(state.status),
+
+  save: (session: Omit<PersistedSession, 'version' | 'createdAt' | 'updatedAt'>) => {
+    const now = Date.now();
+    const createdAt = readJSON<PersistedSession>(KEYS.SESSION(session.id))?.createdAt ?? now;
+    const record: PersistedSession = { ...session, version: STORAGE_VERSION, createdAt, updatedAt: now };
+    writeJSON(KEYS.SESSION(record.id), record);
+
+    const index = (readJSON<SessionSummary[]>(KEYS.INDEX) || []).filter(s => s.id !== record.id);
+    writeJSON(KEYS.INDEX, [summarize(record), ...index]);
+
+    // Only unfinished sessions are resumable
+    if (SessionStore.isFinished(record.state)) {
+      if (SessionStore.getActiveId() === record.id) getStorage()?.removeItem(KEYS.ACTIVE);
+    } else {
+      writeJSON(KEYS.ACTIVE, record.id);
+    }
+  },
+
+  /**
+   * Loads a session, migrating older snapshots (and saving the upgraded copy).
+   * Snapshots from a newer version, or that fail to migrate, are rejected.
+   */
+  load: (id: string): PersistedSession | null => {
+    const record = readJSON<PersistedSession>(KEYS.SESSION(id));
+    if (!record) return null;
+    if (record.version === STORAGE_VERSION) return record;
+    const from = record.version;
+    if (!migrate(record)) {
+      console.warn(`Session ${id} has storage version ${from}, expected ${STORAGE_VERSION}. Ignoring.`);
+      return null;
+    }
+    writeJSON(KEYS.SESSION(id), record);
+    return record;
+  },
+
+  list: (): SessionSummary[] => readJSON<SessionSummary[]>(KEYS.INDEX) || [],
+
+  getActiveId: (): string | null => readJSON<string>(KEYS.ACTIVE),
+
+  getActive: (): PersistedSession | null => {
+    const id = SessionStore.getActiveId();
+    return id ? SessionStore.load(id) : null;
+  },
+
+  clearActive: () => getStorage()?.removeItem(KEYS.ACTIVE),
+
+  remove: (id: string) => {
+    getStorage()?.removeItem(KEYS.SESSION(id));
+    writeJSON(KEYS.INDEX, SessionStore.list().filter(s => s.id !== id));
+    if (SessionStore.getActiveId() === id) SessionStore.clearActive();
+  },
+};
+
+// --- Custom Policies ---
+// Saved from the in-app editor. They are re-validated when the registry loads them.
+
+export const PolicyStore = {
+  list: (): PolicyDocument[] => readJSON<PolicyDocument[]>(KEYS.POLICIES) || [],
+
+  save: (doc: PolicyDocument) => {
+    const others = PolicyStore.list().filter(d => !(d.id === doc.id && d.version === doc.version));
+    writeJSON(KEYS.POLICIES, [...others, doc]);
+  },
+};
+
+// --- Requisitions ---
+// A JD with the ids of the sessions interviewed against it. Sessions themselves stay in SessionStore.
+
+export const RequisitionStore = {
+  list: (): Requisition[] => readJSON<Requisition[]>(KEYS.REQUISITIONS) || [],
+
+  get: (id: string): Requisition | null => RequisitionStore.list().find(r => r.id === id) ?? null,
+
+  save: (requisition: Requisition) => {
+    const others = RequisitionStore.list().filter(r => r.id !== requisition.id);
+    writeJSON(KEYS.REQUISITIONS, [...others, requisition]);
+  },
+
+  attach: (id: string, sessionId: string) => {
+    const requisition = RequisitionStore.get(id);
+    if (!requisition || requisition.sessionIds.includes(sessionId)) return;
+    RequisitionStore.save({ ...requisition, sessionIds: [...requisition.sessionIds, sessionId] });
+  },
+
+  remove: (id: string) => writeJSON(KEYS.REQUISITIONS, RequisitionStore.list().filter(r => r.id !== id)),
+};
@@ -0,0 +1,58 @@
+// ============================================================================
+// TEXT EXTRACTION RULES
+// Line-oriented helpers shared by the deterministic resume and JD parsers.
+// ============================================================================
+
+// 1 = found under an explicit label, 0.5 = guessed from layout or prose
+export type Extraction<T> = { value: T; certainty: number } | null;
+
+export const ROLE_WORDS = /\b(engineer|developer|architect|scientist|manager|designer|analyst|administrator|consultant|lead|devops|sre)\b/i;
+export const SECTION_HEADING = /^(?:#+\s*)?([A-Za-z][A-Za-z &/-]{1,40}):?\s*$/;
+
+// Slash terms that name a single skill and must not be split
+const SLASH_TERMS = ['CI/CD', 'UI/UX', 'TCP/IP', 'I/O', 'A/B'];
+
+export const clean = (s: string) => s.replace(/^[\s\-*•·]+/, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Returns the value of the first "Label: value" line whose label matches.
+ */
+export const labelled = (lines: string[], labels: RegExp): string | null => {
+  for (const line of lines) {
+    const m = line.match(/^\s*(?:[-*•]\s*)?([A-Za-z][A-Za-z /-]{0,30}?)\s*[:\-–]\s+(.+)$/);
+    if (m && labels.test(m[1].trim())) return clean(m[2]);
+  }
+  return null;
+};
+
+/**
+ * Lines below the first heading matching `headings`, up to the next heading
+ * or the first blank line after some content.
+ */
+export const sectionLines = (lines: string[], headings: RegExp): string[] | null => {
+  const start = lines.findIndex(l => {
+    const heading = l.trim().match(SECTION_HEADING);
+    return !!heading && headings.test(heading[1].trim());
+  });
+  if (start < 0) return null;
+
+  const body: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const trimmed = line.trim();
+    if (trimmed === '') { if (body.length > 0) break; continue; }
+    if (SECTION_HEADING.test(trimmed) && !/^[-*•]/.test(trimmed)) break;
+    body.push(trimmed);
+  }
+  return body;
+};
+
+/**
+ * Splits a list like "React/TS, GraphQL; AWS" into items, keeping CI/CD-style terms whole.
+ */
+export const splitList = (text: string, splitSlashes = false): string[] => {
+  const items = text.split(/[,;|•]/).map(clean).filter(Boolean);
+  if (!splitSlashes) return items;
+  return items.flatMap(item =>
+    SLASH_TERMS.some(t => item.toUpperCase() === t) ? [item] : item.split('/').map(clean).filter(Boolean)
+  );
+};
@@ -0,0 +1,173 @@
+import { InterviewState, JobDescriptionData, ResumeData } from "../types";
+import { PolicyDocument } from "./policy";
+import { ProviderEvaluation } from "./provider";
+import { ScriptedMockProvider } from "./mockProvider";
+import { evaluateAnswer, generateQuestion, parseJD, parseResume } from "./llm";
+import { InterviewEngine } from "./engine";
+import { AnswerEvaluator, Clock, QuestionSource } from "./engineDeps";
+import { QuestionBank, questionBank, toQuestion } from "./questionBank";
+import { CandidateReport } from "./report";
+
+// ============================================================================
+// SCRIPTED INTERVIEWS
+// A transcript (resume, JD, answers with simulated timings) is played through
+// the same engine lifecycle as the UI: initializeSession, startInterview,
+// submitAnswer. Time is simulated: the engine clock advances by each answer's
+// seconds before it is submitted. No LLM is called. With the 'fallback' evaluator every
+// provider call fails and the deterministic fallback answers, exactly as in
+// an outage; with 'mock' each answer carries the evaluation to return.
+// ============================================================================
+
+export const TRANSCRIPT_EVALUATORS = ['fallback', 'mock'] as const;
+
+export type TranscriptEvaluator = typeof TRANSCRIPT_EVALUATORS[number];
+
+export interface TranscriptAnswer {
+  answer: string;
+  seconds: number;                 // Simulated time taken
+  question?: string;               // Bank question id to ask for this answer (new turns only)
+  evaluation?: ProviderEvaluation; // Returned by the 'mock' evaluator for this answer
+}
+
+export interface TranscriptExpectations {
+  status?: InterviewState['status'];
+  passed?: boolean;
+  turns?: number;
+  minAverage?: number;
+  maxAverage?: number;
+  terminationReason?: string; // Substring of the recorded reason
+  injectedTurns?: number;     // Turns penalized as prompt injection
+}
+
+export interface InterviewTranscript {
+  name: string;
+  seed: string;                      // Offline question selection seed
+  policy?: string;                   // Policy id or document path (resolved by the caller)
+  evaluator: TranscriptEvaluator;
+  resume: string | ResumeData;       // Raw text is parsed like an upload
+  jd: string | JobDescriptionData;
+  answers: TranscriptAnswer[];       // In order, follow-up answers included
+  expect?: TranscriptExpectations;
+}
+
+export interface TranscriptRun {
+  state: InterviewState;
+  answered: number; // Transcript answers submitted before the interview ended
+  notes: string[];  // Transcript entries that could not be applied as written
+}
+
+const isScore = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 10;
+
+/**
+ * Validates a parsed transcript. Throws with every violation listed.
+ */
+export const loadTranscript = (raw: unknown, bank: QuestionBank = questionBank): InterviewTranscript => {
+  const t = (raw && typeof raw === 'object' ? raw : {}) as Partial<InterviewTranscript>;
+  const errors: string[] = [];
+
+  if (typeof t.name !== 'string' || t.name.length === 0) errors.push('name must be a non-empty string');
+  if (typeof t.seed !== 'string' || t.seed.length === 0) errors.push('seed must be a non-empty string');
+  if (t.policy !== undefined && typeof t.policy !== 'string') errors.push('policy must be a policy id or file path');
+  if (!TRANSCRIPT_EVALUATORS.includes(t.evaluator as TranscriptEvaluator)) errors.push(`evaluator must be one of ${TRANSCRIPT_EVALUATORS.join(', ')}`);
+  if (typeof t.resume !== 'string' && !(t.resume && Array.isArray(t.resume.skills))) errors.push('resume must be text or structured resume data with skills');
+  if (typeof t.jd !== 'string' && !(t.jd && Array.isArray(t.jd.primarySkills))) errors.push('jd must be text or structured JD data with primarySkills');
+  if (!Array.isArray(t.answers) || t.answers.length === 0) errors.push('answers must be a non-empty array');
+
+  (t.answers ?? []).forEach((a, i) => {
+    const where = `answers[${i}]`;
+    if (typeof a.answer !== 'string') errors.push(`${where}.answer must be a string`);
+    if (typeof a.seconds !== 'number' || a.seconds < 0) errors.push(`${where}.seconds must be a non-negative number`);
+    if (a.question !== undefined && !bank.get(a.question)) errors.push(`${where}.question '${a.question}' is not in the question bank`);
+    if (a.evaluation !== undefined) {
+      const e = a.evaluation;
+      if (!isScore(e.accuracy) || !isScore(e.clarity) || !isScore(e.depth) || !isScore(e.relevance) || typeof e.feedback !== 'string') {
+        errors.push(`${where}.evaluation needs accuracy, clarity, depth, relevance (0-10) and feedback`);
+      }
+    }
+  });
+
+  if (errors.length > 0) throw new Error(`Invalid transcript '${t.name ?? '<unknown>'}':\n${errors.join('\n')}`);
+  return t as InterviewTranscript;
+};
+
+/**
+ * Plays the transcript until the interview ends or the answers run out. The
+ * run's evaluator and question source are injected into its own engine, so
+ * transcripts can run side by side. The transcript seed is the session id.
+ */
+export const runTranscript = async (
+  transcript: InterviewTranscript,
+  policy: PolicyDocument,
+  bank: QuestionBank = questionBank,
+): Promise<TranscriptRun> => {
+  const notes: string[] = [];
+  const offline = new ScriptedMockProvider(); // Empty script: every call fails over to the fallback
+  let answered = 0; // Also the index of the answer the next question is asked for
+
+  const scriptFor = (entry: TranscriptAnswer, index: number) => {
+    if (transcript.evaluator === 'mock' && !entry.evaluation) notes.push(`answers[${index}] has no mock evaluation; scored by the fallback.`);
+    return new ScriptedMockProvider({ evaluations: transcript.evaluator === 'mock' && entry.evaluation ? [entry.evaluation] : [] });
+  };
+
+  const questions: QuestionSource = {
+    next: async request => {
+      const forced = transcript.answers[answered]?.question;
+      const { jd, resume, difficulty, previousQuestions, seed } = request;
+      return forced ? toQuestion(bank.get(forced)!) : generateQuestion(jd, resume, difficulty, previousQuestions, seed, offline);
+    },
+  };
+  const evaluator: AnswerEvaluator = {
+    evaluate: (question, answer, policy) => evaluateAnswer(question, answer, policy, scriptFor(transcript.answers[answered], answered)),
+  };
+  let now = Date.now();
+  const clock: Clock = { now: () => now };
+  const engine = new InterviewEngine({ evaluator, questions, clock, ids: () => transcript.seed });
+
+  // 1. Documents and session
+  engine.startAnalysis();
+  const resume = typeof transcript.resume === 'string' ? await parseResume(transcript.resume, offline) : transcript.resume;
+  const jd = typeof transcript.jd === 'string' ? await parseJD(transcript.jd, offline) : transcript.jd;
+  engine.initializeSession(jd, resume, policy);
+
+  // 2. Lifecycle, one transcript answer per submission
+  engine.setGenerating();
+  await engine.generateNextQuestion();
+
+  for (const [index, entry] of transcript.answers.entries()) {
+    if (engine.getState().status !== 'INTERVIEWING') break;
+    if (index > 0 && entry.question && engine.getState().activeQuestion?.followUpOf) {
+      notes.push(`answers[${index}] answers a follow-up; question '${entry.question}' was not asked.`);
+    }
+
+    now += entry.seconds * 1000;
+    await engine.submitAnswer({ answerText: entry.answer });
+    answered++;
+
+    if (engine.getState().status === 'GENERATING' && answered < transcript.answers.length) {
+      await engine.generateNextQuestion();
+    }
+  }
+
+  if (answered < transcript.answers.length) {
+    notes.push(`Interview ended after ${answered} of ${transcript.answers.length} answers.`);
+  }
+  return { state: engine.getState(), answered, notes };
+};
+
+/**
+ * Expectations the report does not meet, as readable messages.
+ */
+export const checkExpectations = (report: CandidateReport, expect: TranscriptExpectations = {}): string[] => {
+  const failures: string[] = [];
+  if (expect.status !== undefined && report.status !== expect.status) failures.push(`status: expected ${expect.status}, got ${report.status}`);
+  if (expect.passed !== undefined && report.passed !== expect.passed) failures.push(`passed: expected ${expect.passed}, got ${report.passed}`);
+  if (expect.turns !== undefined && report.turns.length !== expect.turns) failures.push(`turns: expected ${expect.turns}, got ${report.turns.length}`);
+  if (expect.minAverage !== undefined && report.averageScore < expect.minAverage) failures.push(`average: expected >= ${expect.minAverage}, got ${report.averageScore}`);
+  if (expect.maxAverage !== undefined && report.averageScore > expect.maxAverage) failures.push(`average: expected <= ${expect.maxAverage}, got ${report.averageScore}`);
+  if (expect.terminationReason !== undefined && !(report.terminationReason ?? '').includes(expect.terminationReason)) {
+    failures.push(`terminationReason: expected to contain '${expect.terminationReason}', got '${report.terminationReason ?? ''}'`);
+  }
+  const injected = report.turns.filter(t => t.injectionPenalty > 0).length;
+  if (expect.injectedTurns !== undefined && injected !== expect.injectedTurns) failures.push(`injectedTurns: expected ${expect.injectedTurns}, got ${injected}`);
+  return failures;
+};
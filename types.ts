@@ -1,4 +1,6 @@
 
+import type { PolicyDocument, PolicyRef } from "./services/policy";
+
 export enum Difficulty {
   Easy = 'Easy',
   Medium = 'Medium',
@@ -12,11 +14,19 @@ export interface Skill {
   level: 'Junior' | 'Mid' | 'Senior';
 }
 
+// How a document was turned into structured data when no LLM was involved
+export interface ParseDiagnostics {
+  parser: string;
+  confidence: number; // 0-1, weighted by field importance
+  missingFields: string[]; // Fields that fell back to placeholder values
+}
+
 export interface ResumeData {
   candidateName: string;
   skills: Skill[];
   experienceYears: number;
   primaryRole: string;
+  parseDiagnostics?: ParseDiagnostics; // Set by deterministic parsers only
 }
 
 export interface JobDescriptionData {
@@ -26,6 +36,44 @@ export interface JobDescriptionData {
   secondarySkills: string[]; 
   complexityLevel: 'Junior' | 'Mid' | 'Senior';
   description: string;
+  parseDiagnostics?: ParseDiagnostics; // Set by deterministic parsers only
+}
+
+// --- Coding Questions ---
+
+export interface CodingTestCase {
+  name: string;
+  input: unknown[];  // Arguments passed to the candidate's function
+  expected: unknown; // Compared structurally with the return value
+  hidden: boolean;   // Hidden cases only run on submission and are never shown
+}
+
+export interface CodingSpec {
+  language: 'javascript' | 'typescript';
+  functionName: string; // Function the candidate must define
+  starterCode: string;
+  testCases: CodingTestCase[];
+  timeBudgetSec: number; // Replaces the policy's per-question time limit
+}
+
+// UNAVAILABLE: the tests never ran (no sandbox reached); the answer is scored without them
+export type CodeRunOutcome = 'PASSED' | 'FAILED' | 'RUNTIME_ERROR' | 'TIMEOUT' | 'MEMORY_LIMIT' | 'COMPILE_ERROR' | 'UNAVAILABLE';
+
+export interface TestCaseResult {
+  name: string;
+  hidden: boolean;
+  passed: boolean;
+  error?: string; // Thrown error, or why the case did not run
+  durationMs: number;
+}
+
+export interface CodeRunResult {
+  outcome: CodeRunOutcome;
+  passed: number;
+  total: number;
+  runtimeErrors: number; // Cases that threw
+  error?: string;        // Compile error or sandbox failure
+  cases: TestCaseResult[];
 }
 
 export interface Question {
@@ -34,6 +82,20 @@ export interface Question {
   targetSkill: string;
   difficulty: Difficulty;
   expectedKeywords: string[];
+  rubric?: string[]; // Points a strong answer covers (offline bank questions)
+  source?: 'llm' | 'bank';
+  followUpOf?: string; // Id of the question this probes (follow-ups only)
+  coding?: CodingSpec;  // Present for coding questions; the answer is source code
+  llmError?: LLMFailure; // Why the LLM did not generate it (bank questions drawn as fallback)
+}
+
+// Why an LLM call fell back to the deterministic path (see services/llmErrors.ts)
+export type LLMErrorKind = 'AUTH' | 'QUOTA' | 'NETWORK' | 'MALFORMED' | 'UNKNOWN';
+
+export interface LLMFailure {
+  kind: LLMErrorKind;
+  message: string;
+  attempts: number; // Transient errors are retried before falling back
 }
 
 export interface EvaluationCriteria {
@@ -50,24 +112,158 @@ export interface AnswerEvaluation extends EvaluationCriteria {
   timePenalty: number;
   finalScore: number; // After penalty
   skillGapPenalty?: number; // Penalty for missing critical skills
+  injectionPenalty?: number; // Penalty for text aimed at the LLM grader (see services/injection.ts)
+  injectionSignals?: string[]; // Injection rules the answer tripped
   isFallback?: boolean; // True if deterministic evaluator was used
+  matchedConcepts?: string[]; // Expected keywords found (deterministic evaluator)
+  missedConcepts?: string[];  // Expected keywords missing or negated
+  codeRun?: CodeRunResult;    // Sandbox test results (coding questions); drives accuracy unless UNAVAILABLE
+  llmError?: LLMFailure;      // Set when the LLM failed and the deterministic evaluator scored instead
+  clamped?: Partial<EvaluationCriteria>; // Out-of-range values the LLM returned, before clamping to 0-10
+  provider: string; // Name of the backend that scored this answer
+}
+
+// What an evaluator returns before the Policy Engine applies timing and gap rules.
+export type EvaluatorOutput = Omit<AnswerEvaluation, 'totalScore' | 'timeTakenSeconds' | 'timePenalty' | 'finalScore'>;
+
+// How a JD skill was matched against the resume (see services/skills.ts)
+export type SkillRelation = 'EXACT' | 'ALIAS' | 'CHILD' | 'PARENT' | 'NONE';
+
+export interface SkillMatch {
+  skill: string;            // As written in the JD
+  canonical: string;        // Taxonomy name
+  relation: SkillRelation;
+  matchedBy: string | null; // Resume skill that produced the match
+  credit: number;           // 0-1; 1 means fully covered
+}
+
+export interface SkillGap {
+  skill: string;
+  type: 'PRIMARY' | 'SECONDARY';
+  credit: number; // Partial coverage from a related skill; 0 = missing entirely
+}
+
+// Per-skill estimate built from the answers so far (see services/proficiency.ts)
+export interface SkillProficiency {
+  skill: string;         // Canonical taxonomy name
+  estimate: number;      // 0-10, difficulty-adjusted
+  low: number;           // Confidence interval bounds (policy CONFIDENCE_Z)
+  high: number;
+  evidence: number;      // Turns that targeted this skill
+  level: Skill['level']; // Level band the estimate falls in
+}
+
+export type ClaimVerdict = 'CONSISTENT' | 'OVER_CLAIMED' | 'UNDER_CLAIMED' | 'INCONCLUSIVE' | 'UNTESTED' | 'UNCLAIMED';
+
+// Resume claim vs measured level for one skill
+export interface SkillMatrixRow {
+  skill: string;
+  claimed: Skill['level'] | null;    // Null when the resume does not list the skill
+  measured: SkillProficiency | null; // Null when no question targeted the skill
+  verdict: ClaimVerdict;
+}
+
+// One answered question within a turn: the main question or a follow-up probe
+export interface InterviewSubTurn {
+  question: Question;
+  answer: string;
+  evaluation: AnswerEvaluation; // Scored on its own, with its own time penalty
+  timestamp: number;
 }
 
 export interface InterviewTurn {
   question: Question;
   answer: string;
-  evaluation: AnswerEvaluation;
+  evaluation: AnswerEvaluation; // Combined over all sub-turns (see LogicCore.combineSubTurns)
+  subTurns: InterviewSubTurn[]; // Main answer first, then any follow-ups
   difficultyBefore: Difficulty;
   difficultyAfter: Difficulty;
   timestamp: number;
   criticalFailure: boolean; // True if score < 2.0
+  override?: TurnOverride;  // Human correction; `evaluation` then holds the overridden values
+}
+
+// Engine-measured timing of the active question (see InterviewEngine.elapsedSeconds)
+export interface QuestionClock {
+  presentedAt: number;     // Engine clock when the question or follow-up was presented
+  pausedMs: number;        // Approved pauses, excluded from elapsed time
+  pausedAt: number | null; // Start of the pause in progress
+  pausedBy: string | null; // Interviewer who approved it
+}
+
+// --- Human Overrides ---
+
+// Values an interviewer sets on a turn. Dimension changes recompute the base
+// score; an explicit finalScore wins over the recomputed one.
+export interface ScoreAdjustment {
+  accuracy?: number;
+  clarity?: number;
+  depth?: number;
+  relevance?: number;
+  finalScore?: number;
 }
 
+export interface TurnOverride {
+  original: AnswerEvaluation; // Automated evaluation, kept through later overrides
+  adjustment: ScoreAdjustment;
+  justification: string;
+  interviewer: string;
+  at: number;
+  recomputedPath: boolean;    // Difficulty and strikes were re-derived from the new score
+}
+
+// --- Structured Logs ---
+
+export type LogCategory =
+  | 'SYSTEM' | 'STATE' | 'ANALYSIS' | 'POLICY' | 'QUESTION' | 'EVENT' | 'EVAL'
+  | 'SCORE' | 'ADAPT' | 'RISK' | 'RECOVERY' | 'EDGE CASE' | 'WARN' | 'FINAL' | 'TERM' | 'OVERRIDE';
+
+export type LogSeverity = 'INFO' | 'WARN' | 'ERROR';
+
+export interface LogEntry {
+  seq: number;               // Monotonic within the session
+  timestamp: number | null;  // Time of the engine event that produced it (null for boot messages)
+  category: LogCategory;
+  severity: LogSeverity;
+  turnIndex: number | null;  // 0-based turn the entry relates to, null before the first question
+  message: string;
+  payload?: Record<string, unknown>;
+}
+
+// --- Event Stream ---
+// Every input to the engine is recorded in order. Replaying the stream against
+// the same policy rebuilds the exact InterviewState (see replay() in engine.ts).
+
+interface EngineEventBase {
+  seq: number; // Position in the stream, starting at 0
+  at: number;  // Epoch ms when the input was received
+}
+
+export type EngineEvent = EngineEventBase & (
+  | { type: 'ANALYSIS_STARTED' }
+  | { type: 'SESSION_INITIALIZED'; sessionId: string; jd: JobDescriptionData; resume: ResumeData; policy: PolicyDocument }
+  | { type: 'GENERATION_STARTED' }
+  | { type: 'QUESTION_PRESENTED'; question: Question }
+  | { type: 'ANSWER_SUBMITTED'; answerText: string; timeTakenSeconds: number; reportedSeconds?: number } // Engine-measured time; the client's own figure if it sent one
+  | { type: 'QUESTION_PAUSED'; approvedBy: string; reason: string }
+  | { type: 'QUESTION_RESUMED' }
+  | { type: 'ANSWER_EVALUATED'; evaluation: EvaluatorOutput } // Raw evaluator output, before policy
+  | { type: 'SESSION_RESTORED'; elapsedSeconds?: number } // Time already spent on the active question
+  | { type: 'TURN_OVERRIDDEN'; turnIndex: number; adjustment: ScoreAdjustment; justification: string; interviewer: string; recomputePath: boolean }
+);
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type EngineEventInput = DistributiveOmit<EngineEvent, 'seq' | 'at'>;
+
 export interface InterviewState {
+  sessionId: string | null; // Assigned at initialization; used as the persistence key
+  policy: PolicyRef | null; // Policy id/version in force for this session
   status: 'IDLE' | 'ANALYZING' | 'GENERATING' | 'INTERVIEWING' | 'EVALUATING' | 'TERMINATED' | 'COMPLETED';
   currentDifficulty: Difficulty;
   evaluationMode: EvaluationMode; // Tracks if we are running on AI or Fallback
   activeQuestion: Question | null; // The question currently "in play"
+  questionClock: QuestionClock | null; // Timing of the active question
+  pendingSubTurns: InterviewSubTurn[]; // Answers already given in the current turn while a follow-up is active
   turns: InterviewTurn[];
   scoreHistory: number[];
   
@@ -76,15 +272,19 @@ export interface InterviewState {
   timeViolations: number;
   
   // Gap Analysis
-  detectedSkillGaps: { skill: string; type: 'PRIMARY' | 'SECONDARY' }[];
+  skillMatches: (SkillMatch & { type: SkillGap['type'] })[]; // Every JD skill with its match explanation
+  detectedSkillGaps: SkillGap[]; // JD skills not fully covered (credit < 1)
   difficultyCeiling: Difficulty | null; // Constraint based on resume
+  skillMatrix: SkillMatrixRow[]; // Claimed vs measured level per skill, updated after every turn
   
   terminationReason: string | null;
-  logs: string[]; // System logs for audit
+  logs: LogEntry[]; // Structured system logs for audit (chronological, capped)
+  events: EngineEvent[]; // Full ordered input stream (source of truth)
   config: {
     maxQuestions: number;
     timeLimitPerQuestion: number;
     passingScoreThreshold: number;
     maxViolations: number;
+    strikeLimit: number;
   };
 }
@@ -1,19 +1,36 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin, PreviewServer, ViteDevServer } from 'vite';
 import react from '@vitejs/plugin-react';
+import { SANDBOX_CSP } from './services/codeSandbox';
+
+// The code sandbox's worker script, as served in dev (/services/codeWorker.ts) and after a build (/assets/codeWorker-<hash>.js)
+const SANDBOX_WORKER = /\/codeWorker[-\w]*\.(?:ts|js)(?:\?|$)/;
+
+// A worker is bound by the CSP sent with its own script, not the page's
+const sandboxCsp = (): Plugin => {
+  const addHeader = (server: ViteDevServer | PreviewServer) => {
+    server.middlewares.use((req, res, next) => {
+      if (SANDBOX_WORKER.test(req.url ?? '')) res.setHeader('Content-Security-Policy', SANDBOX_CSP);
+      next();
+    });
+  };
+  return { name: 'sandbox-csp', configureServer: addHeader, configurePreviewServer: addHeader };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Interview server (npm run server); LLM keys stay there, never in the bundle
+    const apiTarget = env.API_SERVER_URL || 'http://localhost:8787';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': apiTarget,
+          '/ws': { target: apiTarget.replace(/^http/, 'ws'), ws: true },
+        },
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), sandboxCsp()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),